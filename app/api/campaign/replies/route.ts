@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { checkReplies } from "@/lib/reply-monitor";
+
+export const maxDuration = 300;
+
+/**
+ * Check the inbox for replies to campaign emails.
+ * Called by a scheduler (Authorization: Bearer CRON_SECRET) or by a signed-in
+ * user to check right away.
+ */
+async function handleRepliesRequest(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret &&
+      request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    if (!isCron) {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const result = await checkReplies();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("💥 Error checking replies:", error);
+    return NextResponse.json(
+      { error: "Failed to check replies" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleRepliesRequest;
+export const POST = handleRepliesRequest;
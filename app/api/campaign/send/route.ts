@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+import { runCampaign } from "@/lib/campaign-sender";
+
+export const maxDuration = 300;
+const SEND_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
+
+/**
+ * Send (or resume) the current campaign week.
+ * Called by a scheduler (Authorization: Bearer CRON_SECRET), which only
+ * starts a new week when it is due, or by the administrator to send now.
+ */
+async function handleSendRequest(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret &&
+      request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    if (!isCron) {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (!(await isRootUser(user.email))) {
+        return NextResponse.json(
+          { error: "Only administrators can send campaigns" },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Send after responding, batches are spaced out over minutes
+    const deadline = Date.now() + SEND_TIME_BUDGET_MS;
+    after(async () => {
+      try {
+        await runCampaign({ deadline, scheduled: isCron });
+      } catch (error) {
+        console.error("💥 Campaign run failed:", error);
+      }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("💥 Error in campaign send API:", error);
+    return NextResponse.json(
+      { error: "Failed to start campaign" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleSendRequest;
+export const POST = handleSendRequest;
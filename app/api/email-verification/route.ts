@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { verifyPendingEmails } from "@/lib/email-status";
+
+export const maxDuration = 300;
+
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const checked = await verifyPendingEmails();
+
+    return NextResponse.json({ success: true, checked });
+  } catch (error) {
+    console.error("💥 Error verifying emails:", error);
+    return NextResponse.json(
+      { error: "Failed to verify emails" },
+      { status: 500 }
+    );
+  }
+}
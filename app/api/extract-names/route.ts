@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { extractNamesFromImage } from "@/lib/gemini";
+import { getLLMProvider } from "@/lib/llm";
+import { LlmError, llmErrorStatus } from "@/lib/llm/errors";
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,10 +14,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate file type
-    if (!image.type.startsWith("image/")) {
+    // Validate file type (PDFs arrive split into single pages)
+    if (!image.type.startsWith("image/") && image.type !== "application/pdf") {
       return NextResponse.json(
-        { error: "File must be an image" },
+        { error: "File must be an image or PDF" },
         { status: 400 }
       );
     }
@@ -32,10 +33,13 @@ export async function POST(request: NextRequest) {
     // Convert image to buffer
     const imageBuffer = Buffer.from(await image.arrayBuffer());
 
-    // Extract names using Gemini Vision
-    const names = await extractNamesFromImage(imageBuffer, image.type);
+    // Extract names with the configured LLM provider
+    const { names, rejected } = await getLLMProvider().extractNames({
+      data: imageBuffer,
+      mimeType: image.type,
+    });
 
-    return NextResponse.json({ names });
+    return NextResponse.json({ names, rejected });
   } catch (error) {
     console.error("Error in extract-names API:", error);
 
@@ -45,6 +49,14 @@ export async function POST(request: NextRequest) {
         ? error.message
         : "Failed to extract names from image";
 
+    // Rate limits, timeouts and invalid model output get their own status
+    if (error instanceof LlmError) {
+      return NextResponse.json(
+        { error: errorMessage, code: error.code },
+        { status: llmErrorStatus(error) }
+      );
+    }
+
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
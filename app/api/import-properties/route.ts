@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { importProperties } from "@/lib/server-utils/property-import-server-utils";
+import { MAX_IMPORT_ROWS } from "@/lib/property-import";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { rows } = await request.json();
+
+    if (!rows || !Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { error: "Rows array is required" },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Imports are limited to ${MAX_IMPORT_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    const result = await importProperties(rows);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("💥 Error in import-properties API:", error);
+    return NextResponse.json(
+      { error: "Failed to import properties" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { updateCompanyContact } from "@/lib/management-companies";
+import { validateContactInput } from "@/lib/property-validation";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { name, email, phone, phone_ext } = await request.json();
+    const validation = validateContactInput(
+      { name, email, phone, phone_ext },
+      { partial: true }
+    );
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid contact", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const company = await updateCompanyContact(id, {
+      contact_name: validation.data.name ?? null,
+      contact_email: validation.data.email ?? null,
+      contact_phone: validation.data.phone ?? null,
+      contact_phone_ext: validation.data.phone_ext ?? null,
+    });
+
+    if (!company) {
+      return NextResponse.json({ error: "Company not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, company });
+  } catch (error) {
+    console.error("💥 Error updating management company:", error);
+    return NextResponse.json(
+      { error: "Failed to update management company" },
+      { status: 500 }
+    );
+  }
+}
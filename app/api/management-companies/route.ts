@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getManagementCompanies } from "@/lib/management-companies";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const companies = await getManagementCompanies();
+
+    return NextResponse.json({ companies });
+  } catch (error) {
+    console.error("💥 Error in management-companies API:", error);
+    return NextResponse.json(
+      { error: "Failed to load management companies" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProcessingJobProgress } from "@/lib/processing-jobs";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { jobId } = await params;
+    const progress = await getProcessingJobProgress(jobId);
+
+    if (!progress) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // Users only see their own jobs, the root user sees everything
+    if (progress.job.user_id !== user.id && !(await isRootUser(user.email))) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error("Error in process-properties job API:", error);
+    return NextResponse.json(
+      { error: "Failed to get job progress" },
+      { status: 500 }
+    );
+  }
+}
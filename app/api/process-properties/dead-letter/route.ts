@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+import {
+  getDeadLetterItems,
+  requeueDeadLetterItems,
+  resumeProcessingJobs,
+} from "@/lib/processing-jobs";
+
+export const maxDuration = 300;
+const WORKER_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Root user sees the whole dead-letter list, everyone else their own
+    const rootUser = await isRootUser(user.email);
+    const items = await getDeadLetterItems(rootUser ? undefined : user.id);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error in dead-letter API:", error);
+    return NextResponse.json(
+      { error: "Failed to load failed properties" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { itemIds } = await request.json().catch(() => ({}));
+
+    // Only items visible to this user can be re-queued; no ids means all
+    const rootUser = await isRootUser(user.email);
+    const visibleItems = await getDeadLetterItems(
+      rootUser ? undefined : user.id
+    );
+    const visibleIds = new Set(visibleItems.map((item) => item.id));
+    const requestedIds: string[] = Array.isArray(itemIds)
+      ? itemIds.filter((id: unknown) => visibleIds.has(String(id)))
+      : [...visibleIds];
+
+    if (requestedIds.length === 0) {
+      return NextResponse.json(
+        { error: "No failed properties to re-queue" },
+        { status: 400 }
+      );
+    }
+
+    const jobIds = await requeueDeadLetterItems(requestedIds);
+
+    // Retry right away instead of waiting for the scheduled worker
+    const deadline = Date.now() + WORKER_TIME_BUDGET_MS;
+    after(() => resumeProcessingJobs({ jobIds, deadline }));
+
+    return NextResponse.json({
+      success: true,
+      requeued: requestedIds.length,
+      jobIds,
+    });
+  } catch (error) {
+    console.error("Error re-queuing failed properties:", error);
+    return NextResponse.json(
+      { error: "Failed to re-queue properties" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { type NextRequest, NextResponse, after } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { canProcessProperties, getRequestStats } from "@/lib/request-tracker";
+import {
+  createReEnrichJob,
+  findPropertiesToReEnrich,
+  runProcessingJob,
+} from "@/lib/processing-jobs";
+import type { ReEnrichFilter } from "@/lib/types";
+
+export const maxDuration = 300;
+const WORKER_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { missingEmail, missingPhone, olderThanDays, propertyIds } =
+      await request.json();
+
+    const filter: ReEnrichFilter = {
+      missingEmail: Boolean(missingEmail),
+      missingPhone: Boolean(missingPhone),
+      olderThanDays:
+        Number.isFinite(Number(olderThanDays)) && Number(olderThanDays) > 0
+          ? Math.floor(Number(olderThanDays))
+          : undefined,
+      propertyIds: Array.isArray(propertyIds)
+        ? propertyIds.map(String)
+        : undefined,
+    };
+
+    if (
+      !filter.missingEmail &&
+      !filter.missingPhone &&
+      !filter.olderThanDays &&
+      !filter.propertyIds
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "A filter is required (missingEmail, missingPhone, olderThanDays or propertyIds)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const properties = await findPropertiesToReEnrich(filter);
+
+    if (properties.length === 0) {
+      return NextResponse.json(
+        { error: "No properties match the re-enrichment filter" },
+        { status: 400 }
+      );
+    }
+
+    // Each property = 1 Gemini API call, same limit as new uploads
+    const requestCount = properties.length;
+    const canProceed = await canProcessProperties(requestCount);
+    if (!canProceed) {
+      const stats = await getRequestStats();
+      return NextResponse.json(
+        {
+          error: "Daily request limit exceeded",
+          details: `Re-enriching ${requestCount} properties would exceed the daily limit of ${
+            stats?.limit || 1500
+          } requests. Current usage: ${stats?.used || 0}/${
+            stats?.limit || 1500
+          }. Limit resets at midnight UTC.`,
+          requestsNeeded: requestCount,
+          currentUsage: stats?.used || 0,
+          remainingRequests: stats?.remaining || 0,
+          resetTime: stats?.resetTime || null,
+        },
+        { status: 429 }
+      );
+    }
+
+    const job = await createReEnrichJob({
+      userId: user.id,
+      userEmail: user.email!,
+      filter,
+      properties,
+    });
+
+    if (!job) {
+      return NextResponse.json(
+        { error: "Failed to queue properties for re-enrichment" },
+        { status: 500 }
+      );
+    }
+
+    console.log(
+      `🎬 Queued re-enrichment job ${job.id} for ${properties.length} properties`
+    );
+
+    const deadline = Date.now() + WORKER_TIME_BUDGET_MS;
+    after(() => runProcessingJob(job.id, { deadline }));
+
+    return NextResponse.json({
+      message: "Re-enrichment started successfully",
+      jobId: job.id,
+      total: properties.length,
+      status: job.status,
+    });
+  } catch (error) {
+    console.error("💥 Error in re-enrich API:", error);
+    return NextResponse.json(
+      { error: "Failed to start re-enrichment" },
+      { status: 500 }
+    );
+  }
+}
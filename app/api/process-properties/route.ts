@@ -1,285 +1,38 @@
-import { type NextRequest, NextResponse } from "next/server";
+import { type NextRequest, NextResponse, after } from "next/server";
 import { createClient } from "@/lib/supabase/server";
-import { enrichPropertyData } from "@/lib/gemini";
-import { sendCompletionEmail } from "@/lib/email";
+import { canProcessProperties, getRequestStats } from "@/lib/request-tracker";
 import {
-  canProcessProperties,
-  incrementProcessPropertiesRequests,
-  getRequestStats,
-} from "@/lib/request-tracker";
+  createProcessingJob,
+  getRecentProcessingJobs,
+  runProcessingJob,
+} from "@/lib/processing-jobs";
 
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-async function processPropertiesAsync(
-  properties: string[],
-  parentAddress: string,
-  userEmail: string
-) {
-  let processedCount = 0;
-  let skippedCount = 0;
-  const skippedProperties: string[] = [];
-  const failedProperties: string[] = [];
-
-  // Optimized batch size for better performance
-  const batchSize = 50;
-
-  // Function to process a single property (Gemini API call only)
-  async function processSingleProperty(propertyName: string): Promise<{
-    propertyName: string;
-    status: "processed" | "failed";
-    enrichedData?: Record<string, string>;
-    processingTime: number;
-  }> {
-    const startTime = Date.now();
-    try {
-      // Call Gemini API for property enrichment
-      const enrichedData = await enrichPropertyData(
-        propertyName,
-        parentAddress
-      );
-
-      const processingTime = Date.now() - startTime;
-      console.log(`✅ ${propertyName}: ${processingTime}ms`);
-
-      return {
-        propertyName,
-        status: "processed",
-        enrichedData,
-        processingTime,
-      };
-    } catch (error) {
-      const processingTime = Date.now() - startTime;
-      console.error(`❌ ${propertyName} failed (${processingTime}ms):`, error);
-      failedProperties.push(propertyName);
-      return {
-        propertyName,
-        status: "failed",
-        processingTime,
-      };
-    }
-  }
-
-  // Batch function to check existing properties
-  async function getExistingProperties(
-    propertyNames: string[]
-  ): Promise<Set<string>> {
-    try {
-      const supabase = await createClient();
-      const { data, error } = await supabase
-        .from("properties")
-        .select("property_address")
-        .in("property_address", propertyNames);
-
-      if (error) {
-        console.error("Error checking existing properties:", error);
-        return new Set();
-      }
-
-      return new Set(data?.map((row) => row.property_address) || []);
-    } catch (error) {
-      console.error("Exception checking existing properties:", error);
-      return new Set();
-    }
-  }
-
-  // Batch function to insert new properties
-  async function batchInsertProperties(
-    enrichedProperties: Array<{
-      propertyName: string;
-      enrichedData: Record<string, string>;
-    }>
-  ): Promise<number> {
-    if (enrichedProperties.length === 0) return 0;
-
-    try {
-      const supabase = await createClient();
-
-      const insertData = enrichedProperties.map(
-        ({ propertyName, enrichedData }) => ({
-          property_address: propertyName,
-          city: enrichedData.city || null,
-          county: enrichedData.county || null,
-          state: enrichedData.state || null,
-          zip_code: enrichedData.zip_code || null,
-          decision_maker_name: enrichedData.decision_maker_name || null,
-          decision_maker_email: enrichedData.email || null,
-          decision_maker_phone: enrichedData.phone || null,
-          hoa_or_management_company: enrichedData.management_company || null,
-        })
-      );
-
-      const { error } = await supabase.from("properties").insert(insertData);
-
-      if (error) {
-        console.error("Batch insertion failed:", error);
-        return 0;
-      }
-
-      return enrichedProperties.length;
-    } catch (error) {
-      console.error("Exception during batch insertion:", error);
-      return 0;
-    }
-  }
+// Give the first worker run as much time as the platform allows; anything
+// left over is picked up by /api/process-properties/worker
+export const maxDuration = 300;
+const WORKER_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
 
+export async function GET(request: NextRequest) {
   try {
-    console.log(
-      `🚀 Starting batch processing of ${properties.length} properties`
-    );
-
-    for (let i = 0; i < properties.length; i += batchSize) {
-      const batch = properties.slice(i, i + batchSize);
-      const batchNumber = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(properties.length / batchSize);
-
-      console.log(
-        `\n🔄 Processing batch ${batchNumber}/${totalBatches}: ${batch.length} properties`
-      );
-
-      const batchStartTime = Date.now();
-
-      // Step 1: Check which properties already exist (single DB call)
-      console.log(`📋 Checking existing properties...`);
-      const existingProperties = await getExistingProperties(batch);
-
-      // Filter out existing properties
-      const newProperties = batch.filter(
-        (property) => !existingProperties.has(property)
-      );
-      const skippedInBatch = batch.length - newProperties.length;
-
-      if (skippedInBatch > 0) {
-        console.log(`⏭️ Skipping ${skippedInBatch} existing properties`);
-        skippedProperties.push(
-          ...batch.filter((property) => existingProperties.has(property))
-        );
-        skippedCount += skippedInBatch;
-      }
-
-      if (newProperties.length === 0) {
-        console.log(
-          `✅ Batch ${batchNumber} completed - all properties already exist`
-        );
-        continue;
-      }
-
-      // Step 2: Process ALL new properties in parallel (Gemini API calls)
-      console.log(
-        `🤖 Processing ${newProperties.length} new properties with Gemini...`
-      );
-      const geminiStartTime = Date.now();
-
-      const batchPromises = newProperties.map((propertyName) =>
-        processSingleProperty(propertyName)
-      );
-
-      // Wait for ALL Gemini calls to complete
-      const batchResults = await Promise.all(batchPromises);
-
-      const geminiEndTime = Date.now();
-      const geminiTime = Math.round((geminiEndTime - geminiStartTime) / 1000);
-
-      // Separate successful and failed results
-      const successfulResults = batchResults.filter(
-        (result) => result.status === "processed"
-      );
-      const failedInBatch = batchResults.filter(
-        (result) => result.status === "failed"
-      ).length;
-
-      console.log(`🤖 Gemini processing completed in ${geminiTime}s`);
-      console.log(
-        `📊 Gemini results: ${successfulResults.length} successful, ${failedInBatch} failed`
-      );
-
-      if (successfulResults.length > 0) {
-        // Step 3: Batch insert all successful properties (single DB call)
-        console.log(
-          `💾 Batch inserting ${successfulResults.length} properties...`
-        );
-        const dbStartTime = Date.now();
-
-        const enrichedProperties = successfulResults.map((result) => ({
-          propertyName: result.propertyName,
-          enrichedData: result.enrichedData!,
-        }));
-
-        const insertedCount = await batchInsertProperties(enrichedProperties);
-
-        const dbEndTime = Date.now();
-        const dbTime = dbEndTime - dbStartTime;
-
-        console.log(`💾 Database insertion completed in ${dbTime}ms`);
-
-        if (insertedCount > 0) {
-          processedCount += insertedCount;
-
-          // Step 4: Single increment of request count for this batch (processed + failed)
-          const incrementSuccess = await incrementProcessPropertiesRequests(
-            insertedCount + failedInBatch
-          );
-          if (!incrementSuccess) {
-            console.warn(
-              `Failed to increment request count for batch ${batchNumber}`
-            );
-          }
-        }
-      }
-
-      const batchEndTime = Date.now();
-      const totalBatchTime = Math.round((batchEndTime - batchStartTime) / 1000);
-
-      console.log(
-        `✅ Batch ${batchNumber} completed in ${totalBatchTime}s - Processed: ${successfulResults.length}, Skipped: ${skippedInBatch}, Failed: ${failedInBatch}`
-      );
-      console.log(
-        `📈 Total progress: ${processedCount + skippedCount}/${
-          properties.length
-        } (${Math.round(
-          ((processedCount + skippedCount) / properties.length) * 100
-        )}%)`
-      );
-
-      // Wait 5 seconds between batches (if not the last batch)
-      if (i + batchSize < properties.length) {
-        console.log(`⏸️ Waiting 5 seconds before next batch...`);
-        await delay(5000);
-      }
-    }
-
-    const totalFailed = failedProperties.length;
-    console.log(`\n🎯 Processing completed!`);
-    console.log(
-      `📊 Final results: ${processedCount} processed, ${skippedCount} skipped, ${totalFailed} failed`
-    );
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
 
-    if (failedProperties.length > 0) {
-      console.log(`❌ Failed properties: ${failedProperties.join(", ")}`);
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Send completion email
-    await sendCompletionEmail(
-      userEmail,
-      properties.length,
-      processedCount,
-      skippedCount
-    );
+    // Recent jobs of the current user, newest first
+    const jobs = await getRecentProcessingJobs(user.id);
 
-    console.log(`📧 Completion email sent to ${userEmail}`);
+    return NextResponse.json({ jobs });
   } catch (error) {
-    console.error("💥 Error in processing:", error);
-
-    // Send error notification email
-    try {
-      await sendCompletionEmail(
-        userEmail,
-        properties.length,
-        processedCount,
-        skippedCount
-      );
-    } catch (emailError) {
-      console.error("Failed to send error notification email:", emailError);
-    }
+    console.error("💥 Error listing processing jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list processing jobs" },
+      { status: 500 }
+    );
   }
 }
 
@@ -332,20 +85,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`🎬 Starting processing for ${properties.length} properties`);
+    // Persist the job first so nothing is lost if this instance goes away
+    const job = await createProcessingJob({
+      userId: user.id,
+      userEmail: user.email!,
+      propertyNames: properties,
+      parentAddress,
+      filename,
+    });
 
-    // Start processing in the background (fire-and-forget)
-    processPropertiesAsync(properties, parentAddress, user.email!).catch(
-      (error) => {
-        console.error("🚨 Background processing error:", error);
-      }
-    );
+    if (!job) {
+      return NextResponse.json(
+        { error: "Failed to queue properties for processing" },
+        { status: 500 }
+      );
+    }
+
+    console.log(`🎬 Queued job ${job.id} for ${properties.length} properties`);
+
+    // Start working on the job once the response has been sent
+    const deadline = Date.now() + WORKER_TIME_BUDGET_MS;
+    after(() => runProcessingJob(job.id, { deadline }));
 
     // Return immediate response to user
     return NextResponse.json({
       message: "Processing started successfully",
+      jobId: job.id,
       total: properties.length,
-      status: "processing",
+      status: job.status,
     });
   } catch (error) {
     console.error("💥 Error in process-properties API:", error);
@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse, after } from "next/server";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getProcessingJob,
+  getResumableJobIds,
+  resumeProcessingJobs,
+} from "@/lib/processing-jobs";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+
+export const maxDuration = 300;
+const WORKER_TIME_BUDGET_MS = (maxDuration - 30) * 1000;
+
+/**
+ * Resume unfinished processing jobs.
+ * Called by a scheduler (Authorization: Bearer CRON_SECRET) or by a signed-in
+ * user to re-run a specific job of their own.
+ */
+async function handleWorkerRequest(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron =
+      !!cronSecret &&
+      request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    let user: User | null = null;
+    if (!isCron) {
+      const supabase = await createClient();
+      const { data } = await supabase.auth.getUser();
+      user = data.user;
+
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    let jobId: string | undefined;
+    if (request.method === "POST") {
+      const body = await request.json().catch(() => ({}));
+      jobId = typeof body?.jobId === "string" ? body.jobId : undefined;
+    } else {
+      jobId = request.nextUrl.searchParams.get("jobId") || undefined;
+    }
+
+    // Users only resume their own jobs, the root user resumes any
+    if (jobId && user) {
+      const job = await getProcessingJob(jobId);
+      if (
+        !job ||
+        (job.user_id !== user.id && !(await isRootUser(user.email)))
+      ) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+      }
+    }
+
+    const jobIds = jobId ? [jobId] : await getResumableJobIds();
+
+    // Work through the jobs after responding so callers don't wait minutes
+    const deadline = Date.now() + WORKER_TIME_BUDGET_MS;
+    after(() => resumeProcessingJobs({ jobIds, deadline }));
+
+    return NextResponse.json({
+      success: true,
+      jobIds,
+    });
+  } catch (error) {
+    console.error("💥 Error in process-properties worker:", error);
+    return NextResponse.json(
+      { error: "Failed to resume processing jobs" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handleWorkerRequest;
+export const POST = handleWorkerRequest;
@@ -0,0 +1,77 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteContact, updateContact } from "@/lib/property-contacts";
+import { validateContactInput } from "@/lib/property-validation";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, contactId } = await params;
+    const validation = validateContactInput(await request.json(), {
+      partial: true,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid contact", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateContact(id, contactId, validation.data);
+
+    if (!result) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("💥 Error updating contact:", error);
+    return NextResponse.json(
+      { error: "Failed to update contact" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; contactId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, contactId } = await params;
+    const result = await deleteContact(id, contactId);
+
+    if (!result) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("💥 Error deleting contact:", error);
+    return NextResponse.json(
+      { error: "Failed to delete contact" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createContact, getPropertyContacts } from "@/lib/property-contacts";
+import { validateContactInput } from "@/lib/property-validation";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const contacts = await getPropertyContacts(id);
+
+    return NextResponse.json({ contacts });
+  } catch (error) {
+    console.error("💥 Error loading contacts:", error);
+    return NextResponse.json(
+      { error: "Failed to load contacts" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const validation = validateContactInput(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid contact", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await createContact(id, validation.data);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("💥 Error adding contact:", error);
+    return NextResponse.json(
+      { error: "Failed to add contact" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteProperty, updateProperty } from "@/lib/property-editing";
+import { validatePropertyInput } from "@/lib/property-validation";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const validation = validatePropertyInput(await request.json(), {
+      partial: true,
+    });
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid property", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const property = await updateProperty(id, validation.data);
+
+    if (!property) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, property });
+  } catch (error) {
+    console.error("💥 Error updating property:", error);
+    return NextResponse.json(
+      { error: "Failed to update property" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const property = await deleteProperty(id);
+
+    if (!property) {
+      return NextResponse.json(
+        { error: "Property not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, property });
+  } catch (error) {
+    console.error("💥 Error deleting property:", error);
+    return NextResponse.json(
+      { error: "Failed to delete property" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MERGEABLE_FIELDS, mergeProperties } from "@/lib/property-merge";
+import type { MergeableField } from "@/lib/types";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { survivorId, propertyIds, fieldSources } = await request.json();
+
+    const ids: string[] = Array.isArray(propertyIds)
+      ? [...new Set(propertyIds.map(String))]
+      : [];
+
+    if (ids.length < 2) {
+      return NextResponse.json(
+        { error: "At least two properties are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!survivorId || !ids.includes(String(survivorId))) {
+      return NextResponse.json(
+        {
+          error: "The surviving property must be one of the merged properties",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Each field may only come from one of the merged properties
+    const sources: Partial<Record<MergeableField, string>> = {};
+    for (const field of MERGEABLE_FIELDS) {
+      const sourceId = fieldSources?.[field];
+      if (sourceId && ids.includes(String(sourceId))) {
+        sources[field] = String(sourceId);
+      }
+    }
+
+    const merge = await mergeProperties({
+      survivorId: String(survivorId),
+      propertyIds: ids,
+      fieldSources: sources,
+      userId: user.id,
+      userEmail: user.email || null,
+    });
+
+    if (!merge) {
+      return NextResponse.json(
+        { error: "One or more properties were not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, merge });
+  } catch (error) {
+    console.error("💥 Error merging properties:", error);
+    return NextResponse.json(
+      { error: "Failed to merge properties" },
+      { status: 500 }
+    );
+  }
+}
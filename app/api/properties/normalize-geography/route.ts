@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { normalizeSavedGeography } from "@/lib/geography-normalization";
+
+export const maxDuration = 300;
+
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await normalizeSavedGeography();
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("💥 Error normalizing addresses:", error);
+    return NextResponse.json(
+      { error: "Failed to normalize addresses" },
+      { status: 500 }
+    );
+  }
+}
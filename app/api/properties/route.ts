@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createProperty } from "@/lib/property-editing";
+import { validatePropertyInput } from "@/lib/property-validation";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = validatePropertyInput(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid property", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const property = await createProperty(validation.data);
+
+    if (!property) {
+      return NextResponse.json(
+        {
+          error: "Property already exists",
+          fieldErrors: { property_address: "A property with this name exists" },
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, property });
+  } catch (error) {
+    console.error("💥 Error creating property:", error);
+    return NextResponse.json(
+      { error: "Failed to create property" },
+      { status: 500 }
+    );
+  }
+}
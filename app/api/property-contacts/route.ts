@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getAllContacts } from "@/lib/property-contacts";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const contacts = await getAllContacts();
+
+    return NextResponse.json({ contacts });
+  } catch (error) {
+    console.error("💥 Error in property-contacts API:", error);
+    return NextResponse.json(
+      { error: "Failed to load contacts" },
+      { status: 500 }
+    );
+  }
+}
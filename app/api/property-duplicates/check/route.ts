@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { checkNamesForDuplicates } from "@/lib/property-duplicates";
+
+// Upload page check of extracted names before they are processed
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { names, parentAddress } = await request.json();
+
+    if (!names || !Array.isArray(names)) {
+      return NextResponse.json(
+        { error: "Names array is required" },
+        { status: 400 }
+      );
+    }
+
+    const duplicates = await checkNamesForDuplicates(
+      names.map(String),
+      typeof parentAddress === "string" ? parentAddress : ""
+    );
+
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error("Error checking names for duplicates:", error);
+    return NextResponse.json(
+      { error: "Failed to check for duplicates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getDuplicateReviews,
+  resolveDuplicateReview,
+} from "@/lib/property-duplicates";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const reviews = await getDuplicateReviews();
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error("Error in property-duplicates API:", error);
+    return NextResponse.json(
+      { error: "Failed to load duplicate reviews" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { reviewId, action } = await request.json();
+
+    if (!reviewId || (action !== "insert" && action !== "dismiss")) {
+      return NextResponse.json(
+        {
+          error: 'reviewId and an action ("insert" or "dismiss") are required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const review = await resolveDuplicateReview(
+      String(reviewId),
+      action,
+      user.id
+    );
+
+    if (!review) {
+      return NextResponse.json(
+        { error: "Review not found or already resolved" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error("Error resolving duplicate review:", error);
+    return NextResponse.json(
+      { error: "Failed to resolve duplicate review" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+import { deleteSuppression } from "@/lib/suppressions";
+
+// Emailing someone who opted out again is an administrator's call
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isRootUser(user.email))) {
+      return NextResponse.json(
+        { error: "Only administrators can lift suppressions" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const suppression = await deleteSuppression(id);
+
+    if (!suppression) {
+      return NextResponse.json(
+        { error: "Suppression not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, suppression });
+  } catch (error) {
+    console.error("💥 Error deleting suppression:", error);
+    return NextResponse.json(
+      { error: "Failed to delete suppression" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  createSuppression,
+  getActiveSuppressions,
+  validateSuppressionInput,
+} from "@/lib/suppressions";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const suppressions = await getActiveSuppressions();
+
+    return NextResponse.json({ suppressions });
+  } catch (error) {
+    console.error("💥 Error in suppressions API:", error);
+    return NextResponse.json(
+      { error: "Failed to load suppressions" },
+      { status: 500 }
+    );
+  }
+}
+
+// Any team member can stop emails to a contact, e.g. after a complaint
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const validation = validateSuppressionInput(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid suppression", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const suppression = await createSuppression(validation.data, user.id);
+
+    return NextResponse.json({ success: true, suppression });
+  } catch (error) {
+    console.error("💥 Error creating suppression:", error);
+    return NextResponse.json(
+      { error: "Failed to create suppression" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+import {
+  deleteTerritory,
+  updateTerritory,
+  validateTerritoryInput,
+} from "@/lib/territories";
+
+// Territories are managed from the invite page, by administrators only
+async function authorize(): Promise<NextResponse | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isRootUser(user.email))) {
+    return NextResponse.json(
+      { error: "Only administrators can change territories" },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const denied = await authorize();
+    if (denied) return denied;
+
+    const { id } = await params;
+    const validation = validateTerritoryInput(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid territory", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const territory = await updateTerritory(id, validation.data);
+
+    if (!territory) {
+      return NextResponse.json(
+        { error: "Territory not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, territory });
+  } catch (error) {
+    console.error("💥 Error updating territory:", error);
+    return NextResponse.json(
+      { error: "Failed to update territory" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const denied = await authorize();
+    if (denied) return denied;
+
+    const { id } = await params;
+    const territory = await deleteTerritory(id);
+
+    if (!territory) {
+      return NextResponse.json(
+        { error: "Territory not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, territory });
+  } catch (error) {
+    console.error("💥 Error deleting territory:", error);
+    return NextResponse.json(
+      { error: "Failed to delete territory" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isRootUser } from "@/lib/server-utils/invite-server-utils";
+import {
+  createTerritory,
+  getTerritories,
+  validateTerritoryInput,
+} from "@/lib/territories";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const territories = await getTerritories();
+
+    return NextResponse.json({ territories });
+  } catch (error) {
+    console.error("💥 Error in territories API:", error);
+    return NextResponse.json(
+      { error: "Failed to load territories" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!(await isRootUser(user.email))) {
+      return NextResponse.json(
+        { error: "Only administrators can change territories" },
+        { status: 403 }
+      );
+    }
+
+    const validation = validateTerritoryInput(await request.json());
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Invalid territory", fieldErrors: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    const territory = await createTerritory(validation.data);
+
+    return NextResponse.json({ success: true, territory });
+  } catch (error) {
+    console.error("💥 Error creating territory:", error);
+    return NextResponse.json(
+      { error: "Failed to create territory" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { unsubscribe } from "@/lib/unsubscribe";
+
+/**
+ * Unsubscribe a property. Mail clients POST "List-Unsubscribe=One-Click"
+ * here (RFC 8058) and get JSON back; the confirmation form of the
+ * unsubscribe page POSTs without it and is sent back to the page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ optOutCode: string }> }
+) {
+  try {
+    const { optOutCode } = await params;
+    const form = await request.formData().catch(() => null);
+    const oneClick = form?.get("List-Unsubscribe") === "One-Click";
+
+    const outcome = await unsubscribe(optOutCode, {
+      method: oneClick ? "one_click" : "link",
+      userAgent: request.headers.get("user-agent"),
+      ipAddress: request.headers.get("x-forwarded-for")?.split(",")[0] || null,
+    });
+
+    if (!oneClick) {
+      const page = new URL(
+        `/unsubscribe/${encodeURIComponent(optOutCode)}`,
+        request.url
+      );
+      page.searchParams.set("outcome", outcome);
+      return NextResponse.redirect(page, 303);
+    }
+
+    if (outcome === "invalid") {
+      return NextResponse.json(
+        { error: "Invalid unsubscribe link" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, outcome });
+  } catch (error) {
+    console.error("💥 Error in unsubscribe API:", error);
+    return NextResponse.json(
+      { error: "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+}
+
+// Clients that open the List-Unsubscribe URL instead get the page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ optOutCode: string }> }
+) {
+  const { optOutCode } = await params;
+  return NextResponse.redirect(
+    new URL(`/unsubscribe/${encodeURIComponent(optOutCode)}`, request.url)
+  );
+}
@@ -27,6 +27,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import {
   Download,
@@ -43,20 +44,70 @@ import {
   Target,
   Clock,
   FileText,
+  Sparkles,
+  GitMerge,
+  Plus,
+  Map as MapIcon,
+  UserCheck,
 } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
 import { exportToExcel } from "@/lib/excel-export";
+import {
+  SUBSCRIPTION_STATUSES,
+  SUBSCRIPTION_STATUS_LABELS,
+  subscriptionStatus,
+  type SubscriptionStatus,
+} from "@/lib/suppression-status";
 import { Logo } from "@/components/logo";
+import {
+  PropertyDetailSheet,
+  type PropertyFieldErrors,
+} from "@/components/property-detail-sheet";
+import { PropertyMergeDialog } from "@/components/property-merge-dialog";
+import {
+  ManagementCompanyList,
+  buildPortfolios,
+} from "@/components/management-company-list";
+import { ManagementCompanySheet } from "@/components/management-company-sheet";
+import { PropertyMap } from "@/components/property-map";
+import { ReplyKeywordsEditor } from "@/components/reply-keywords-editor";
+import {
+  EmailStatusBadge,
+  EMAIL_STATUS_OPTIONS,
+} from "@/components/email-status-badge";
+import { useManagementCompanies } from "@/hooks/use-management-companies";
+import { useSuppressions } from "@/hooks/use-suppressions";
+import { rememberProcessingJob } from "@/hooks/use-processing-job";
 import {
   useCachedProperties,
   useCachedEmailLogs,
   useCachedCampaignProgress,
   useCachedEmailTemplates,
 } from "@/hooks/use-cached-data";
-import type { Property, EmailLog } from "@/lib/types";
+import { dataCache } from "@/lib/cache";
+import { CONTACT_ROLES } from "@/lib/property-validation";
+import { formatPhone, phoneMatches } from "@/lib/phone";
+import type {
+  Property,
+  EmailLog,
+  MergeableField,
+  PropertyInput,
+  ContactRole,
+  PropertyContact,
+} from "@/lib/types";
 
 const ITEMS_PER_PAGE = 20;
 const EMAIL_LOGS_PER_PAGE = 50;
 
+const STATUS_BADGE_VARIANTS: Record<
+  SubscriptionStatus,
+  "default" | "secondary" | "destructive"
+> = {
+  subscribed: "default",
+  suspended: "secondary",
+  suppressed: "destructive",
+};
+
 export default function DashboardPage() {
   // Use cached data with optimized loading behavior
   const {
@@ -64,23 +115,34 @@ export default function DashboardPage() {
     loading: propertiesLoading,
     error: propertiesError,
     refresh: refreshProperties,
+    refetch: reloadProperties,
   } = useCachedProperties({ autoFetch: true, refreshOnMount: false });
 
   const {
     data: emailLogs,
     loading: emailLogsLoading,
     refresh: refreshEmailLogs,
+    refetch: reloadEmailLogs,
   } = useCachedEmailLogs({ autoFetch: true, refreshOnMount: false });
 
   const {
     data: campaignProgress,
     loading: campaignLoading,
     refresh: refreshCampaignProgress,
+    refetch: reloadCampaignProgress,
   } = useCachedCampaignProgress({ autoFetch: true, refreshOnMount: false });
 
   const { data: emailTemplates, refresh: refreshTemplates } =
     useCachedEmailTemplates({ autoFetch: true, refreshOnMount: false });
 
+  const {
+    companies,
+    updateContact: updateCompanyContact,
+    refresh: refreshCompanies,
+  } = useManagementCompanies();
+
+  const { suppressions, addSuppression, liftSuppression } = useSuppressions();
+
   const [currentView, setCurrentView] = useState<"properties" | "logs">(
     "properties"
   );
@@ -93,6 +155,25 @@ export default function DashboardPage() {
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [selectedPdfUrl, setSelectedPdfUrl] = useState<string | null>(null);
+  const [isReEnriching, setIsReEnriching] = useState(false);
+  const [selectedProperty, setSelectedProperty] = useState<Property | null>(
+    null
+  );
+  const [isCreatingProperty, setIsCreatingProperty] = useState(false);
+  const [isSavingRecipientRoles, setIsSavingRecipientRoles] = useState(false);
+  const [isSavingReplyKeywords, setIsSavingReplyKeywords] = useState(false);
+  // Rows ticked for merging, and the rows open in the merge dialog
+  const [mergeSelection, setMergeSelection] = useState<Set<string>>(new Set());
+  const [mergeCandidates, setMergeCandidates] = useState<Property[]>([]);
+  const [selectedCompanyId, setSelectedCompanyId] = useState<string | null>(
+    null
+  );
+  // Map above the table, and the properties in the area drawn on it
+  const [showMap, setShowMap] = useState(false);
+  const [mapArea, setMapArea] = useState<Set<string> | null>(null);
+  // Only the properties in the signed-in user's territories
+  const [myProperties, setMyProperties] = useState(false);
+  const { user } = useAuth();
 
   const [filters, setFilters] = useState({
     state: "all",
@@ -146,11 +227,8 @@ export default function DashboardPage() {
     };
   };
 
-  const isSubscribed = (suspendUntil: string) => {
-    const suspendDate = new Date(suspendUntil);
-    const currentDate = new Date();
-    return suspendDate <= currentDate;
-  };
+  const statusOf = (property: Property) =>
+    subscriptionStatus(property, suppressions);
 
   const applyFilters = () => {
     let filteredProps = [...properties];
@@ -171,7 +249,8 @@ export default function DashboardPage() {
             .includes(searchTerm.toLowerCase()) ||
           property.decision_maker_email
             ?.toLowerCase()
-            .includes(searchTerm.toLowerCase())
+            .includes(searchTerm.toLowerCase()) ||
+          phoneMatches(property.decision_maker_phone, searchTerm)
       );
 
       filteredLogs = filteredLogs.filter(
@@ -185,6 +264,7 @@ export default function DashboardPage() {
           log.properties?.decision_maker_email
             ?.toLowerCase()
             .includes(searchTerm.toLowerCase()) ||
+          phoneMatches(log.properties?.decision_maker_phone, searchTerm) ||
           log.email_templates?.template_name
             ?.toLowerCase()
             .includes(searchTerm.toLowerCase())
@@ -234,15 +314,27 @@ export default function DashboardPage() {
       );
     }
 
+    if (myProperties) {
+      filteredProps = filteredProps.filter(
+        (property) => property.owner_id === user?.id
+      );
+      filteredLogs = filteredLogs.filter(
+        (log) => log.properties?.owner_id === user?.id
+      );
+    }
+
+    if (mapArea) {
+      filteredProps = filteredProps.filter((property) =>
+        mapArea.has(property.id)
+      );
+      filteredLogs = filteredLogs.filter((log) => mapArea.has(log.property_id));
+    }
+
     // Apply subscription status filter
     if (filters.subscriptionStatus !== "all") {
-      filteredProps = filteredProps.filter((property) => {
-        if (!property.suspend_until) return false;
-        const subscribed = isSubscribed(property.suspend_until);
-        return filters.subscriptionStatus === "subscribed"
-          ? subscribed
-          : !subscribed;
-      });
+      filteredProps = filteredProps.filter(
+        (property) => statusOf(property) === filters.subscriptionStatus
+      );
     }
 
     // Apply email exists filter
@@ -251,7 +343,10 @@ export default function DashboardPage() {
         const hasEmail =
           property.decision_maker_email &&
           property.decision_maker_email.trim() !== "";
-        return filters.emailExists === "exists" ? hasEmail : !hasEmail;
+        if (filters.emailExists === "missing") return !hasEmail;
+        if (filters.emailExists === "exists") return hasEmail;
+        // Verification status of the address
+        return hasEmail && property.email_status === filters.emailExists;
       });
     }
 
@@ -363,6 +458,8 @@ export default function DashboardPage() {
       emailLogSort: "sent_at", // Reset to default
       emailLogSortDirection: "desc", // Reset to default
     });
+    setMapArea(null);
+    setMyProperties(false);
     setCurrentPage(1);
   };
 
@@ -383,7 +480,17 @@ export default function DashboardPage() {
       const filename = `${currentView}_${
         new Date().toISOString().split("T")[0]
       }.xlsx`;
-      await exportToExcel(dataToExport, filename);
+
+      // Property exports get a sheet with every contact
+      let contacts: PropertyContact[] = [];
+      if (currentView === "properties") {
+        const response = await fetch("/api/property-contacts");
+        if (!response.ok) {
+          throw new Error("Failed to load contacts");
+        }
+        contacts = (await response.json()).contacts || [];
+      }
+      await exportToExcel(dataToExport, filename, contacts, suppressions);
 
       toast({
         title: "Export Successful",
@@ -399,6 +506,263 @@ export default function DashboardPage() {
     }
   };
 
+  // Queue the properties currently shown under "No Email" for re-enrichment
+  const handleReEnrich = async () => {
+    if (filteredProperties.length === 0) return;
+
+    setIsReEnriching(true);
+    try {
+      const response = await fetch("/api/process-properties/re-enrich", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          missingEmail: true,
+          propertyIds: filteredProperties.map((property) => property.id),
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || "Re-enrichment failed");
+      }
+
+      rememberProcessingJob(data.jobId);
+      toast({
+        title: "Re-enrichment Started",
+        description: `${data.total} properties queued. Follow the progress on the Upload page.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Re-enrichment Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to start re-enrichment",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReEnriching(false);
+    }
+  };
+
+  const toggleMergeSelection = (propertyId: string, checked: boolean) => {
+    setMergeSelection((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(propertyId);
+      } else {
+        next.delete(propertyId);
+      }
+      return next;
+    });
+  };
+
+  const handleOpenMerge = () => {
+    setMergeCandidates(
+      properties.filter((property) => mergeSelection.has(property.id))
+    );
+  };
+
+  // Merge the selected properties into the chosen survivor
+  const handleMerge = async (
+    survivorId: string,
+    fieldSources: Record<MergeableField, string>
+  ) => {
+    try {
+      const response = await fetch("/api/properties/merge", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          survivorId,
+          propertyIds: mergeCandidates.map((property) => property.id),
+          fieldSources,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Merge failed");
+      }
+
+      toast({
+        title: "Properties Merged",
+        description: `${mergeCandidates.length} properties merged, ${data.merge.email_logs_moved} email logs moved.`,
+      });
+      setMergeCandidates([]);
+      setMergeSelection(new Set());
+      await Promise.all([
+        refreshProperties(),
+        refreshEmailLogs(),
+        refreshCompanies(),
+      ]);
+    } catch (error) {
+      toast({
+        title: "Merge Failed",
+        description:
+          error instanceof Error ? error.message : "Failed to merge properties",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Create or edit a property, then update the cached lists in place
+  const handleSaveProperty = async (
+    input: PropertyInput,
+    property: Property | null
+  ): Promise<PropertyFieldErrors | null> => {
+    try {
+      const response = await fetch(
+        property ? `/api/properties/${property.id}` : "/api/properties",
+        {
+          method: property ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(input),
+        }
+      );
+
+      const data = await response.json();
+      if (data.fieldErrors) {
+        return data.fieldErrors;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save property");
+      }
+
+      const saved: Property = data.property;
+      if (property) {
+        dataCache.updatePropertyInCache(saved);
+      } else {
+        dataCache.addPropertyToCache(saved);
+      }
+      // Saving may name a company that did not exist yet
+      await Promise.all([
+        reloadProperties(),
+        reloadEmailLogs(),
+        refreshCompanies(),
+      ]);
+
+      setIsCreatingProperty(false);
+      setSelectedProperty(saved);
+      toast({
+        title: property ? "Property Updated" : "Property Added",
+        description: `${saved.property_address} has been saved.`,
+      });
+      return null;
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description:
+          error instanceof Error ? error.message : "Failed to save property",
+        variant: "destructive",
+      });
+      return {};
+    }
+  };
+
+  // Contact changes can move the decision maker, keep the lists in step
+  const handlePropertyChange = async (property: Property) => {
+    dataCache.updatePropertyInCache(property);
+    setSelectedProperty(property);
+    await Promise.all([reloadProperties(), reloadEmailLogs()]);
+  };
+
+  const handleDeleteProperty = async (property: Property) => {
+    try {
+      const response = await fetch(`/api/properties/${property.id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete property");
+      }
+
+      dataCache.removePropertyFromCache(property.id);
+      await reloadProperties();
+
+      setSelectedProperty(null);
+      setMergeSelection((prev) => {
+        const next = new Set(prev);
+        next.delete(property.id);
+        return next;
+      });
+      toast({
+        title: "Property Deleted",
+        description: `${property.property_address} has been deleted.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description:
+          error instanceof Error ? error.message : "Failed to delete property",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Pick the contact roles campaign emails go to
+  const handleRecipientRoleChange = async (
+    role: ContactRole,
+    checked: boolean
+  ) => {
+    const current = campaignProgress?.recipient_roles || ["decision_maker"];
+    const roles = checked
+      ? [...current, role]
+      : current.filter((existing) => existing !== role);
+
+    if (roles.length === 0) {
+      toast({
+        title: "Recipients Required",
+        description: "Campaigns need at least one contact role to send to.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSavingRecipientRoles(true);
+    try {
+      await dataCache.updateRecipientRoles(roles);
+      await reloadCampaignProgress();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update campaign recipients",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingRecipientRoles(false);
+    }
+  };
+
+  // Edit the keywords that get a reply the PDF auto-reply
+  const handleReplyKeywordsChange = async (keywords: string[]) => {
+    setIsSavingReplyKeywords(true);
+    try {
+      await dataCache.updateReplyKeywords(keywords);
+      await reloadCampaignProgress();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update reply keywords",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingReplyKeywords(false);
+    }
+  };
+
   const handleRefresh = async () => {
     try {
       await Promise.all([
@@ -406,6 +770,7 @@ export default function DashboardPage() {
         refreshEmailLogs(),
         refreshCampaignProgress(),
         refreshTemplates(),
+        refreshCompanies(),
       ]);
 
       toast({
@@ -422,6 +787,8 @@ export default function DashboardPage() {
     }
   };
 
+  const companyPortfolios = buildPortfolios(companies, properties, emailLogs);
+
   // Get unique values for filter dropdowns (ensure no nulls)
   const uniqueStates = [
     ...new Set(
@@ -478,7 +845,16 @@ export default function DashboardPage() {
 
   useEffect(() => {
     applyFilters();
-  }, [searchTerm, filters, properties, emailLogs]);
+  }, [
+    searchTerm,
+    filters,
+    mapArea,
+    myProperties,
+    user,
+    properties,
+    emailLogs,
+    suppressions,
+  ]);
 
   useEffect(() => {
     applyPagination();
@@ -540,6 +916,16 @@ export default function DashboardPage() {
             </p>
           </div>
           <div className="flex space-x-2 md:space-x-4">
+            <Button
+              onClick={() => setIsCreatingProperty(true)}
+              variant="outline"
+              size="sm"
+              className="md:text-base text-sm"
+            >
+              <Plus className="mr-1 md:mr-2 h-4 w-4" />
+              <span className="hidden sm:inline">Add </span>
+              Property
+            </Button>
             <Button
               onClick={handleRefresh}
               variant="outline"
@@ -666,6 +1052,42 @@ export default function DashboardPage() {
                 </div>
               </div>
             </div>
+
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <p className="mb-2 text-xs md:text-sm font-medium text-gray-500">
+                Send campaign emails to
+              </p>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {CONTACT_ROLES.map(({ role, label }) => (
+                  <label
+                    key={role}
+                    className="flex items-center space-x-2 text-xs md:text-sm cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={(
+                        campaignProgress?.recipient_roles || ["decision_maker"]
+                      ).includes(role)}
+                      onCheckedChange={(checked) =>
+                        handleRecipientRoleChange(role, checked === true)
+                      }
+                      disabled={!campaignProgress || isSavingRecipientRoles}
+                    />
+                    <span>{label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <p className="mb-2 text-xs md:text-sm font-medium text-gray-500">
+                Send the PDF to replies mentioning
+              </p>
+              <ReplyKeywordsEditor
+                keywords={campaignProgress?.reply_keywords || []}
+                onChange={handleReplyKeywordsChange}
+                disabled={!campaignProgress || isSavingReplyKeywords}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -768,6 +1190,24 @@ export default function DashboardPage() {
                 >
                   Email Logs ({filteredEmailLogs.length})
                 </Button>
+                <Button
+                  variant={myProperties ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setMyProperties(!myProperties)}
+                  className="text-xs md:text-sm"
+                >
+                  <UserCheck className="mr-1 h-3 w-3 md:h-4 md:w-4" />
+                  Mine
+                </Button>
+                <Button
+                  variant={showMap ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setShowMap(!showMap)}
+                  className="text-xs md:text-sm"
+                >
+                  <MapIcon className="mr-1 h-3 w-3 md:h-4 md:w-4" />
+                  Map
+                </Button>
               </div>
             </CardTitle>
             <CardDescription className="text-sm">
@@ -898,6 +1338,11 @@ export default function DashboardPage() {
                         <SelectContent>
                           <SelectItem value="all">All</SelectItem>
                           <SelectItem value="exists">Has Email</SelectItem>
+                          {EMAIL_STATUS_OPTIONS.map(({ status, label }) => (
+                            <SelectItem key={status} value={status}>
+                              {label}
+                            </SelectItem>
+                          ))}
                           <SelectItem value="missing">No Email</SelectItem>
                         </SelectContent>
                       </Select>
@@ -915,10 +1360,11 @@ export default function DashboardPage() {
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All</SelectItem>
-                          <SelectItem value="subscribed">Subscribed</SelectItem>
-                          <SelectItem value="unsubscribed">
-                            Unsubscribed
-                          </SelectItem>
+                          {SUBSCRIPTION_STATUSES.map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {SUBSCRIPTION_STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -1111,6 +1557,11 @@ export default function DashboardPage() {
                         <SelectContent>
                           <SelectItem value="all">All</SelectItem>
                           <SelectItem value="exists">Has Email</SelectItem>
+                          {EMAIL_STATUS_OPTIONS.map(({ status, label }) => (
+                            <SelectItem key={status} value={status}>
+                              {label}
+                            </SelectItem>
+                          ))}
                           <SelectItem value="missing">No Email</SelectItem>
                         </SelectContent>
                       </Select>
@@ -1131,10 +1582,11 @@ export default function DashboardPage() {
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="all">All</SelectItem>
-                        <SelectItem value="subscribed">Subscribed</SelectItem>
-                        <SelectItem value="unsubscribed">
-                          Unsubscribed
-                        </SelectItem>
+                        {SUBSCRIPTION_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {SUBSCRIPTION_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -1244,6 +1696,35 @@ export default function DashboardPage() {
                     >
                       Clear Filters
                     </Button>
+                    {filters.emailExists === "missing" && (
+                      <Button
+                        onClick={handleReEnrich}
+                        variant="outline"
+                        size="sm"
+                        disabled={
+                          isReEnriching || filteredProperties.length === 0
+                        }
+                        className="text-xs md:text-sm"
+                      >
+                        {isReEnriching ? (
+                          <RefreshCw className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Sparkles className="mr-1 h-4 w-4" />
+                        )}
+                        Re-enrich ({filteredProperties.length})
+                      </Button>
+                    )}
+                    {mergeSelection.size >= 2 && (
+                      <Button
+                        onClick={handleOpenMerge}
+                        variant="outline"
+                        size="sm"
+                        className="text-xs md:text-sm"
+                      >
+                        <GitMerge className="mr-1 h-4 w-4" />
+                        Merge ({mergeSelection.size})
+                      </Button>
+                    )}
                   </div>
                 </div>
               )}
@@ -1312,6 +1793,21 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Map of the filtered properties, filters the table below */}
+        {showMap && (
+          <PropertyMap
+            properties={filteredProperties}
+            emailLogs={emailLogs}
+            suppressions={suppressions}
+            area={mapArea}
+            onSelectArea={setMapArea}
+            onSelectCounty={(state, county) =>
+              setFilters((prev) => ({ ...prev, state, county }))
+            }
+            onSelectProperty={setSelectedProperty}
+          />
+        )}
+
         {/* Data Table */}
         <Card>
           <CardHeader className="pb-3 md:pb-6">
@@ -1376,21 +1872,21 @@ export default function DashboardPage() {
                           <div className="space-y-2">
                             <div className="flex justify-between items-start">
                               <h3 className="font-medium text-sm truncate flex-1 mr-2">
-                                {property.property_address || "—"}
+                                <button
+                                  type="button"
+                                  onClick={() => setSelectedProperty(property)}
+                                  className="text-left hover:underline"
+                                >
+                                  {property.property_address || "—"}
+                                </button>
                               </h3>
                               <Badge
                                 variant={
-                                  property.suspend_until &&
-                                  isSubscribed(property.suspend_until)
-                                    ? "default"
-                                    : "secondary"
+                                  STATUS_BADGE_VARIANTS[statusOf(property)]
                                 }
                                 className="text-xs"
                               >
-                                {property.suspend_until &&
-                                isSubscribed(property.suspend_until)
-                                  ? "Subscribed"
-                                  : "Unsubscribed"}
+                                {SUBSCRIPTION_STATUS_LABELS[statusOf(property)]}
                               </Badge>
                             </div>
                             <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
@@ -1416,12 +1912,17 @@ export default function DashboardPage() {
                                 !property.decision_maker_email.includes(
                                   "noemail"
                                 ) ? (
-                                  <a
-                                    href={`mailto:${property.decision_maker_email}`}
-                                    className="text-blue-600 hover:underline truncate block"
-                                  >
-                                    {property.decision_maker_email}
-                                  </a>
+                                  <>
+                                    <a
+                                      href={`mailto:${property.decision_maker_email}`}
+                                      className="text-blue-600 hover:underline truncate block"
+                                    >
+                                      {property.decision_maker_email}
+                                    </a>
+                                    <EmailStatusBadge
+                                      status={property.email_status}
+                                    />
+                                  </>
                                 ) : (
                                   <p>—</p>
                                 )}
@@ -1429,7 +1930,10 @@ export default function DashboardPage() {
                               <div>
                                 <span className="font-medium">Phone:</span>
                                 <p className="truncate">
-                                  {property.decision_maker_phone || "—"}
+                                  {formatPhone(
+                                    property.decision_maker_phone,
+                                    property.decision_maker_phone_ext
+                                  ) || "—"}
                                 </p>
                               </div>
                               <div>
@@ -1529,6 +2033,9 @@ export default function DashboardPage() {
                     <Table>
                       <TableHeader>
                         <TableRow>
+                          <TableHead className="w-10">
+                            <span className="sr-only">Select for merge</span>
+                          </TableHead>
                           <TableHead className="min-w-[250px]">
                             Property Address
                           </TableHead>
@@ -1557,10 +2064,26 @@ export default function DashboardPage() {
                       <TableBody>
                         {(paginatedItems as Property[]).map((property) => (
                           <TableRow key={property.id}>
+                            <TableCell className="w-10">
+                              <Checkbox
+                                checked={mergeSelection.has(property.id)}
+                                onCheckedChange={(checked) =>
+                                  toggleMergeSelection(
+                                    property.id,
+                                    checked === true
+                                  )
+                                }
+                                aria-label={`Select ${property.property_address} for merge`}
+                              />
+                            </TableCell>
                             <TableCell className="font-medium min-w-[250px]">
-                              <div className="max-w-[250px] break-words">
-                              {property.property_address || "—"}
-                              </div>
+                              <button
+                                type="button"
+                                onClick={() => setSelectedProperty(property)}
+                                className="max-w-[250px] break-words text-left hover:underline"
+                              >
+                                {property.property_address || "—"}
+                              </button>
                             </TableCell>
                             <TableCell className="min-w-[200px]">
                               <div className="max-w-[200px] break-words">
@@ -1589,7 +2112,10 @@ export default function DashboardPage() {
                             </TableCell>
                             <TableCell className="min-w-[120px]">
                               <div className="max-w-[120px] break-words">
-                              {property.decision_maker_phone || "—"}
+                              {formatPhone(
+                                property.decision_maker_phone,
+                                property.decision_maker_phone_ext
+                              ) || "—"}
                               </div>
                             </TableCell>
                             <TableCell className="min-w-[80px]">
@@ -1607,16 +2133,10 @@ export default function DashboardPage() {
                             <TableCell className="min-w-[120px]">
                               <Badge
                                 variant={
-                                  property.suspend_until &&
-                                  isSubscribed(property.suspend_until)
-                                    ? "default"
-                                    : "secondary"
+                                  STATUS_BADGE_VARIANTS[statusOf(property)]
                                 }
                               >
-                                {property.suspend_until &&
-                                isSubscribed(property.suspend_until)
-                                  ? "Subscribed"
-                                  : "Unsubscribed"}
+                                {SUBSCRIPTION_STATUS_LABELS[statusOf(property)]}
                               </Badge>
                             </TableCell>
                             <TableCell className="min-w-[100px]">
@@ -1802,7 +2322,51 @@ export default function DashboardPage() {
             )}
           </CardContent>
         </Card>
+
+        {/* Properties grouped by management company */}
+        <ManagementCompanyList
+          portfolios={companyPortfolios}
+          onSelect={setSelectedCompanyId}
+        />
       </div>
+
+      {/* Management company with its properties and contact */}
+      <ManagementCompanySheet
+        portfolio={
+          companyPortfolios.find(
+            ({ company }) => company.id === selectedCompanyId
+          ) || null
+        }
+        onClose={() => setSelectedCompanyId(null)}
+        onSaveContact={updateCompanyContact}
+        onSelectProperty={(property) => {
+          setSelectedCompanyId(null);
+          setSelectedProperty(property);
+        }}
+      />
+
+      {/* Property detail with enrichment sources and confidence */}
+      <PropertyDetailSheet
+        property={selectedProperty}
+        isCreating={isCreatingProperty}
+        onClose={() => {
+          setSelectedProperty(null);
+          setIsCreatingProperty(false);
+        }}
+        onSave={handleSaveProperty}
+        onDelete={handleDeleteProperty}
+        onPropertyChange={handlePropertyChange}
+        suppressions={suppressions}
+        onAddSuppression={addSuppression}
+        onLiftSuppression={liftSuppression}
+      />
+
+      {/* Merge duplicate properties */}
+      <PropertyMergeDialog
+        properties={mergeCandidates}
+        onClose={() => setMergeCandidates([])}
+        onMerge={handleMerge}
+      />
     </div>
   );
 }
@@ -74,7 +74,14 @@ import {
   ChevronRight,
 } from "lucide-react";
 import { Logo } from "@/components/logo";
-import type { EmailTemplate } from "@/lib/types";
+import {
+  MERGE_FIELDS,
+  mergeFieldValues,
+  validateTemplateMergeFields,
+  type MergeFieldPart,
+} from "@/lib/campaign/merge-fields";
+import { renderCampaignEmail } from "@/lib/campaign/template";
+import type { EmailTemplate, Property } from "@/lib/types";
 
 type FilterType = "all" | "active" | "inactive";
 type SortField = "created_at" | "updated_at" | "template_name";
@@ -103,6 +110,12 @@ export default function EmailTemplatesPage() {
   const [previewTemplate, setPreviewTemplate] = useState<EmailTemplate | null>(
     null
   );
+  // Real properties the preview is rendered for, one at a time
+  const [sampleProperties, setSampleProperties] = useState<Property[]>([]);
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const [formErrors, setFormErrors] = useState<
+    Partial<Record<MergeFieldPart, string>>
+  >({});
   const [currentPage, setCurrentPage] = useState(1);
   const [filter, setFilter] = useState<FilterType>("all");
   const [searchTerm, setSearchTerm] = useState("");
@@ -213,6 +226,7 @@ export default function EmailTemplatesPage() {
       signature: "",
       is_active: true,
     });
+    setFormErrors({});
     setEditingTemplate(null);
   };
 
@@ -227,6 +241,7 @@ export default function EmailTemplatesPage() {
         signature: template.signature || "",
         is_active: template.is_active,
       });
+      setFormErrors({});
     } else {
       resetForm();
     }
@@ -288,6 +303,17 @@ export default function EmailTemplatesPage() {
         return;
       }
 
+      const mergeErrors = validateTemplateMergeFields(formData);
+      setFormErrors(mergeErrors);
+      if (Object.keys(mergeErrors).length > 0) {
+        toast({
+          title: "Validation Error",
+          description: "Fix the merge fields marked in the template",
+          variant: "destructive",
+        });
+        return;
+      }
+
       setSaving(true);
 
       const templateData = {
@@ -483,11 +509,33 @@ export default function EmailTemplatesPage() {
     }
   };
 
-  const handlePreview = (template: EmailTemplate) => {
+  const handlePreview = async (template: EmailTemplate) => {
     setPreviewTemplate(template);
     setIsPreviewOpen(true);
+
+    if (sampleProperties.length > 0) return;
+    try {
+      // Properties with a contact look like the emails that go out
+      const properties = await dataCache.getProperties();
+      setSampleProperties(
+        properties.filter((property) => property.decision_maker_email)
+      );
+      setSampleIndex(0);
+    } catch (error) {
+      console.error("Failed to load sample properties:", error);
+    }
   };
 
+  const sampleProperty = sampleProperties[sampleIndex] || null;
+  const renderedPreview = previewTemplate
+    ? renderCampaignEmail(previewTemplate, {
+        unsubscribeUrl: "#",
+        values: sampleProperty
+          ? mergeFieldValues(sampleProperty, sampleProperty.decision_maker_name)
+          : {},
+      })
+    : null;
+
   const handleFilterChange = (newFilter: FilterType) => {
     setFilter(newFilter);
     setCurrentPage(1);
@@ -983,6 +1031,11 @@ export default function EmailTemplatesPage() {
                 placeholder="e.g., The Silent Reason 43% of Your Tenants Leave"
                 className="mt-1"
               />
+              {formErrors.subject && (
+                <p className="mt-1 text-xs text-red-600">
+                  {formErrors.subject}
+                </p>
+              )}
             </div>
 
             <div>
@@ -997,6 +1050,9 @@ export default function EmailTemplatesPage() {
                 className="mt-1"
                 rows={2}
               />
+              {formErrors.hook && (
+                <p className="mt-1 text-xs text-red-600">{formErrors.hook}</p>
+              )}
             </div>
 
             <div>
@@ -1011,6 +1067,23 @@ export default function EmailTemplatesPage() {
                 className="mt-1"
                 rows={5}
               />
+              {formErrors.body && (
+                <p className="mt-1 text-xs text-red-600">{formErrors.body}</p>
+              )}
+              <p className="mt-1 text-xs text-gray-500">
+                Personalize with{" "}
+                {MERGE_FIELDS.map(({ field, label }) => (
+                  <code
+                    key={field}
+                    title={label}
+                    className="mr-1 rounded bg-gray-100 px-1"
+                  >
+                    {`{{${field}}}`}
+                  </code>
+                ))}
+                in any part of the email. Missing values get a default fallback,
+                or your own: {"{{city|your area}}"}.
+              </p>
             </div>
 
             <div>
@@ -1025,6 +1098,11 @@ export default function EmailTemplatesPage() {
                 className="mt-1"
                 rows={3}
               />
+              {formErrors.signature && (
+                <p className="mt-1 text-xs text-red-600">
+                  {formErrors.signature}
+                </p>
+              )}
             </div>
 
             <div className="flex items-center space-x-2">
@@ -1119,47 +1197,49 @@ export default function EmailTemplatesPage() {
               Preview of "{previewTemplate?.template_name}"
             </DialogDescription>
           </DialogHeader>
-          {previewTemplate && (
+          {previewTemplate && renderedPreview && (
             <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2 rounded-md bg-blue-50 p-3 text-xs text-blue-800">
+                <span>
+                  {sampleProperty
+                    ? `As sent to ${
+                        sampleProperty.decision_maker_name || "the contact"
+                      } at ${sampleProperty.property_address || "—"}`
+                    : "No property to preview with, showing the fallbacks"}
+                </span>
+                {sampleProperties.length > 1 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-7 flex-shrink-0 bg-white text-xs"
+                    onClick={() =>
+                      setSampleIndex(
+                        (index) => (index + 1) % sampleProperties.length
+                      )
+                    }
+                  >
+                    <RefreshCw className="mr-1 h-3 w-3" />
+                    Another Property
+                  </Button>
+                )}
+              </div>
               <div>
                 <Label className="text-sm font-medium text-gray-700">
                   Subject:
                 </Label>
                 <div className="mt-1 p-3 bg-gray-50 rounded-md">
-                  {previewTemplate.subject || "No subject"}
-                </div>
-              </div>
-              {previewTemplate.hook && (
-                <div>
-                  <Label className="text-sm font-medium text-gray-700">
-                    Hook:
-                  </Label>
-                  <div className="mt-1 p-3 bg-gray-50 rounded-md">
-                    {previewTemplate.hook}
-                  </div>
-                </div>
-              )}
-              <div>
-                <Label className="text-sm font-medium text-gray-700">
-                  Body:
-                </Label>
-                <div className="mt-1 p-3 bg-gray-50 rounded-md whitespace-pre-wrap">
-                  {previewTemplate.body}
+                  {renderedPreview.subject || "No subject"}
                 </div>
               </div>
               <div>
                 <Label className="text-sm font-medium text-gray-700">
-                  Signature:
+                  Email:
                 </Label>
-                <div className="mt-1 p-3 bg-gray-50 rounded-md whitespace-pre-wrap">
-                  {previewTemplate.signature || (
-                    <span className="text-gray-400">
-                      e.g., Lyndon S.
-                      <br />
-                      Total Body Mobile Massage – Outreach Team
-                    </span>
-                  )}
-                </div>
+                {/* The HTML the campaign sends, merge values escaped */}
+                <div
+                  className="mt-1 p-3 bg-gray-50 rounded-md text-sm"
+                  dangerouslySetInnerHTML={{ __html: renderedPreview.html }}
+                />
               </div>
               <div className="flex items-center space-x-2">
                 <Badge
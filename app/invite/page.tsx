@@ -48,7 +48,13 @@ import {
   ChevronRight,
 } from "lucide-react";
 import { useInviteController } from "@/hooks/use-invite-controller";
+import { useTerritories } from "@/hooks/use-territories";
+import { useAuth } from "@/lib/auth-context";
 import { Logo } from "@/components/logo";
+import {
+  TerritoryManager,
+  type TerritoryOwner,
+} from "@/components/territory-manager";
 
 // Add sorting types
 type SortField = "created_at" | "user_last_sign_in_at";
@@ -75,6 +81,30 @@ export default function InviteUserPage() {
     stats,
     formatDate,
   } = useInviteController();
+  const { user } = useAuth();
+  const {
+    territories,
+    loading: territoriesLoading,
+    saveTerritory,
+    deleteTerritory,
+  } = useTerritories();
+
+  // Invited users with an account, and the administrator, can own territories
+  const territoryOwners = useMemo(() => {
+    const owners: TerritoryOwner[] = invites.flatMap((invite) =>
+      invite.user_id ? [{ id: invite.user_id, email: invite.email }] : []
+    );
+    if (user?.email && !owners.some((owner) => owner.id === user.id)) {
+      owners.unshift({ id: user.id, email: user.email });
+    }
+    return owners;
+  }, [invites, user]);
+
+  const territoryNames = (userId: string | null) =>
+    territories
+      .filter((territory) => userId && territory.owner_id === userId)
+      .map((territory) => territory.name)
+      .join(", ");
 
   async function handleInviteUser(e: React.FormEvent) {
     e.preventDefault();
@@ -235,13 +265,16 @@ export default function InviteUserPage() {
 
         <div className="space-y-4">
           <Tabs defaultValue="invite" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="invite" className="text-sm">
                 Send Invite
               </TabsTrigger>
               <TabsTrigger value="manage" className="text-sm">
                 Manage Invites
               </TabsTrigger>
+              <TabsTrigger value="territories" className="text-sm">
+                Territories
+              </TabsTrigger>
             </TabsList>
 
             {/* Send Invite Tab */}
@@ -463,6 +496,7 @@ export default function InviteUserPage() {
                               <TableHead>Email</TableHead>
                               <TableHead>Invited Date</TableHead>
                               <TableHead>Last Login</TableHead>
+                              <TableHead>Territories</TableHead>
                               <TableHead>Actions</TableHead>
                             </TableRow>
                           </TableHeader>
@@ -490,6 +524,13 @@ export default function InviteUserPage() {
                                     </span>
                                   )}
                                 </TableCell>
+                                <TableCell className="text-sm">
+                                  {territoryNames(invite.user_id) || (
+                                    <span className="text-gray-400 italic">
+                                      None
+                                    </span>
+                                  )}
+                                </TableCell>
                                 <TableCell>
                                   {invite.user_id && (
                                     <AlertDialog>
@@ -583,6 +624,14 @@ export default function InviteUserPage() {
                                       </span>
                                     )}
                                   </div>
+                                  <div>
+                                    <span className="font-medium">
+                                      Territories:{" "}
+                                    </span>
+                                    {territoryNames(invite.user_id) || (
+                                      <span className="italic">None</span>
+                                    )}
+                                  </div>
                                 </div>
 
                                 {/* Actions */}
@@ -675,6 +724,17 @@ export default function InviteUserPage() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Territories Tab */}
+            <TabsContent value="territories" className="mt-4">
+              <TerritoryManager
+                territories={territories}
+                owners={territoryOwners}
+                loading={territoriesLoading}
+                onSave={saveTerritory}
+                onDelete={deleteTerritory}
+              />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
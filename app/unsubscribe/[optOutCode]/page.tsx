@@ -0,0 +1,44 @@
+import type { Metadata } from "next";
+import {
+  UnsubscribeConfirm,
+  UnsubscribeResult,
+} from "@/components/unsubscribe-result";
+import type { UnsubscribeOutcome } from "@/lib/types";
+
+export const metadata: Metadata = {
+  title: "Unsubscribe",
+  robots: { index: false, follow: false },
+};
+
+const OUTCOMES: UnsubscribeOutcome[] = [
+  "unsubscribed",
+  "already_unsubscribed",
+  "invalid",
+];
+
+/**
+ * The unsubscribe link in campaign emails. Opening it only asks for
+ * confirmation: link scanners and mail clients open links nobody clicked.
+ * Confirming POSTs to the unsubscribe API, which sends the contact back
+ * here with the outcome.
+ */
+export default async function UnsubscribePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ optOutCode: string }>;
+  searchParams: Promise<{ outcome?: string }>;
+}) {
+  const { optOutCode } = await params;
+  const { outcome } = await searchParams;
+
+  if (OUTCOMES.includes(outcome as UnsubscribeOutcome)) {
+    return <UnsubscribeResult outcome={outcome as UnsubscribeOutcome} />;
+  }
+
+  return (
+    <UnsubscribeConfirm
+      action={`/api/unsubscribe/${encodeURIComponent(optOutCode)}`}
+    />
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import type React from "react";
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -23,6 +23,10 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useRequestStats } from "@/hooks/use-request-stats";
+import { useProcessingJob } from "@/hooks/use-processing-job";
+import { useDeadLetter } from "@/hooks/use-dead-letter";
+import { useDuplicateReviews } from "@/hooks/use-duplicate-reviews";
+import { useDuplicateCheck } from "@/hooks/use-duplicate-check";
 import {
   ImageIcon,
   Trash2,
@@ -36,11 +40,17 @@ import {
   Zap,
 } from "lucide-react";
 import { Logo } from "@/components/logo";
-import type { ExtractedProperty } from "@/lib/types";
+import { ProcessingProgress } from "@/components/processing-progress";
+import { DeadLetterList } from "@/components/dead-letter-list";
+import { DuplicateReviewList } from "@/components/duplicate-review-list";
+import { ImageBatchList } from "@/components/image-batch-list";
+import { PropertyImportCard } from "@/components/property-import-card";
+import { expandUploadFiles, mergeExtractedNames } from "@/lib/image-batch";
+import type { ExtractedProperty, ImageExtraction } from "@/lib/types";
 
 export default function UploadPage() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [images, setImages] = useState<ImageExtraction[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [extractedProperties, setExtractedProperties] = useState<
     ExtractedProperty[]
   >([]);
@@ -57,6 +67,40 @@ export default function UploadPage() {
     error: statsError,
     refresh: refreshStats,
   } = useRequestStats();
+  const {
+    progress: jobProgress,
+    loading: jobLoading,
+    error: jobError,
+    trackJob,
+    dismiss: dismissJob,
+    resume: resumeJob,
+  } = useProcessingJob();
+  const { items: deadLetterItems, requeue: requeueDeadLetter } =
+    useDeadLetter();
+  const {
+    reviews: duplicateReviews,
+    resolve: resolveDuplicateReview,
+    refresh: refreshDuplicateReviews,
+  } = useDuplicateReviews();
+  const nameDuplicates = useDuplicateCheck(
+    extractedProperties.map((property) => property.name),
+    parentAddress
+  );
+
+  // A finished job may have held back likely duplicates
+  const isJobCompleted = jobProgress?.job.status === "completed";
+  useEffect(() => {
+    if (isJobCompleted) refreshDuplicateReviews();
+  }, [isJobCompleted, refreshDuplicateReviews]);
+
+  // Warning shown under a name that looks like a saved or listed property
+  const describeDuplicate = (name: string) => {
+    const match = nameDuplicates.get(name);
+    if (!match) return null;
+    return `Possible duplicate of ${match.matchedName}${
+      match.propertyId ? " (already saved)" : " (in this list)"
+    }`;
+  };
 
   // Helper function to format reset time in user's local timezone
   const formatResetTime = (resetTime: string) => {
@@ -90,47 +134,87 @@ export default function UploadPage() {
     return `${countdown} (${localResetTime})`;
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+  // Queue images and PDF pages (ZIP archives are unpacked) for extraction
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
 
-    if (!file.type.startsWith("image/")) {
-      toast({
-        title: "Invalid File",
-        description: "Please select an image file (JPEG or PNG)",
-        variant: "destructive",
-      });
-      return;
-    }
+    const { items: newImages, rejected } = await expandUploadFiles(files);
 
-    if (file.size > 10 * 1024 * 1024) {
+    if (rejected.length > 0) {
       toast({
-        title: "File Too Large",
-        description: "Please select an image smaller than 10MB",
+        title: `${rejected.length} File${rejected.length > 1 ? "s" : ""} Skipped`,
+        description: rejected
+          .slice(0, 3)
+          .map((file) => `${file.name}: ${file.reason}`)
+          .join("; "),
         variant: "destructive",
       });
-      return;
     }
 
-    setSelectedFile(file);
+    if (newImages.length === 0) return;
 
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setImagePreview(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    setImages((prev) => [
+      ...prev,
+      ...newImages.map(({ file, label, page }, index) => ({
+        id: `image-${Date.now()}-${index}`,
+        file,
+        label,
+        page,
+        previewUrl: page === null ? URL.createObjectURL(file) : null,
+        status: "pending" as const,
+        namesFound: 0,
+        error: null,
+      })),
+    ]);
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    // Allow selecting the same files again later
+    event.target.value = "";
+    addFiles(files);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    if (isExtracting) return;
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleRemoveImage = (id: string) => {
+    setImages((prev) => {
+      const image = prev.find((item) => item.id === id);
+      if (image?.previewUrl) URL.revokeObjectURL(image.previewUrl);
+      return prev.filter((item) => item.id !== id);
+    });
+  };
 
-    // Reset previous extraction
+  const handleClearImages = () => {
+    images.forEach(
+      (image) => image.previewUrl && URL.revokeObjectURL(image.previewUrl)
+    );
+    setImages([]);
     setExtractedProperties([]);
     setParentAddress("");
   };
 
+  const updateImage = (id: string, changes: Partial<ImageExtraction>) => {
+    setImages((prev) =>
+      prev.map((image) => (image.id === id ? { ...image, ...changes } : image))
+    );
+  };
+
   const handleExtractNames = async () => {
-    if (!selectedFile) {
+    // Images already extracted are not sent again
+    const queue = images.filter(
+      (image) => image.status === "pending" || image.status === "failed"
+    );
+
+    if (queue.length === 0) {
       toast({
-        title: "No Image",
-        description: "Please select an image first",
+        title: "No Images",
+        description: "Please add images that have not been extracted yet",
         variant: "destructive",
       });
       return;
@@ -151,55 +235,91 @@ export default function UploadPage() {
     }
 
     setIsExtracting(true);
+    let namesFound = 0;
+    let rejectedCount = 0;
+    let failedCount = 0;
+
     try {
-      const formData = new FormData();
-      formData.append("image", selectedFile);
+      // One image at a time keeps the status list readable and the model happy
+      for (const image of queue) {
+        updateImage(image.id, { status: "extracting", error: null });
 
-      const response = await fetch("/api/extract-names", {
-        method: "POST",
-        body: formData,
-      });
+        try {
+          const formData = new FormData();
+          formData.append("image", image.file);
 
-      const data = await response.json();
+          const response = await fetch("/api/extract-names", {
+            method: "POST",
+            body: formData,
+          });
 
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to extract names");
+          const data = await response.json();
+
+          if (!response.ok) {
+            throw new Error(data.error || "Failed to extract names");
+          }
+
+          const names: string[] = data.names || [];
+          namesFound += names.length;
+          rejectedCount += data.rejected?.length || 0;
+
+          setExtractedProperties((prev) =>
+            mergeExtractedNames(prev, names, image.label)
+          );
+          updateImage(image.id, { status: "done", namesFound: names.length });
+        } catch (error) {
+          failedCount++;
+          console.error(`Error extracting names from ${image.label}:`, error);
+          updateImage(image.id, {
+            status: "failed",
+            error:
+              error instanceof Error
+                ? error.message
+                : "Failed to extract property names",
+          });
+        }
       }
 
-      if (data.names?.length > 0) {
-        const properties = data.names.map((name: string, index: number) => ({
-          id: `property-${index}`,
-          name: name.trim(),
-          editable: false,
-        }));
-        setExtractedProperties(properties);
+      refreshStats(); // Refresh stats to show updated usage
+
+      if (failedCount === queue.length) {
         toast({
-          title: "Success",
-          description: `Extracted ${properties.length} property names`,
+          title: "Extraction Failed",
+          description: "No names could be extracted. Please try again.",
+          variant: "destructive",
         });
-        refreshStats(); // Refresh stats to show updated usage
-      } else {
+      } else if (namesFound === 0 && failedCount === 0) {
         toast({
           title: "No Names Found",
-          description: "No property names could be extracted from this image",
+          description: "No property names could be extracted from these images",
           variant: "destructive",
         });
+      } else {
+        toast({
+          title: failedCount > 0 ? "Extraction Partially Complete" : "Success",
+          description: `Extracted ${namesFound} property names from ${
+            queue.length - failedCount
+          } of ${queue.length} images${
+            failedCount > 0
+              ? ` (${failedCount} failed, extract again to retry)`
+              : ""
+          }${
+            rejectedCount > 0
+              ? `, ${rejectedCount} invalid entries ignored`
+              : ""
+          }`,
+        });
       }
-    } catch (error) {
-      console.error("Error extracting names:", error);
-      toast({
-        title: "Extraction Failed",
-        description:
-          error instanceof Error
-            ? error.message
-            : "Failed to extract property names",
-        variant: "destructive",
-      });
     } finally {
       setIsExtracting(false);
     }
   };
 
+  // Spreadsheet rows without contact data join the list like extracted names
+  const handleNamesImported = (names: string[], source: string) => {
+    setExtractedProperties((prev) => mergeExtractedNames(prev, names, source));
+  };
+
   const handleEditProperty = (id: string, currentName: string) => {
     setEditingId(id);
     setEditingValue(currentName);
@@ -284,6 +404,12 @@ export default function UploadPage() {
     setIsProcessing(true);
     try {
       const propertyNames = extractedProperties.map((p) => p.name);
+      const uploadName =
+        images.length > 1
+          ? `${images.length} images`
+          : images[0]?.label ||
+            extractedProperties[0]?.sources?.[0] ||
+            "uploaded-image";
 
       const response = await fetch("/api/process-properties", {
         method: "POST",
@@ -293,7 +419,7 @@ export default function UploadPage() {
         body: JSON.stringify({
           properties: propertyNames,
           parentAddress: parentAddress.trim(),
-          filename: selectedFile?.name || "uploaded-image",
+          filename: uploadName,
         }),
       });
 
@@ -315,14 +441,16 @@ export default function UploadPage() {
       toast({
         title: "Processing Started",
         description:
-          "Your properties are being processed. You'll receive an email when complete.",
+          "Your properties are being processed. Track progress below or wait for the completion email.",
       });
 
+      // Follow the new job in the progress panel
+      if (data.jobId) {
+        trackJob(data.jobId);
+      }
+
       // Clear the page instead of redirecting
-      setSelectedFile(null);
-      setImagePreview(null);
-      setExtractedProperties([]);
-      setParentAddress("");
+      handleClearImages();
 
       // Reset the file input
       const fileInput = document.getElementById(
@@ -347,6 +475,56 @@ export default function UploadPage() {
     }
   };
 
+  const handleResolveDuplicate = async (
+    reviewId: string,
+    action: "insert" | "dismiss"
+  ) => {
+    const resolved = await resolveDuplicateReview(reviewId, action);
+    if (!resolved) {
+      toast({
+        title: "Review Failed",
+        description:
+          "Could not resolve the duplicate review. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: action === "insert" ? "Property Added" : "Duplicate Dismissed",
+      description:
+        action === "insert"
+          ? "The property was saved as a new property."
+          : "The property was not added.",
+    });
+  };
+
+  const handleResumeJob = async () => {
+    const resumed = await resumeJob();
+    toast({
+      title: resumed ? "Processing Resumed" : "Resume Failed",
+      description: resumed
+        ? "The remaining properties have been queued again."
+        : "Could not resume processing. Please try again.",
+      variant: resumed ? "default" : "destructive",
+    });
+  };
+
+  const handleRetryFailed = async (itemIds?: string[]) => {
+    const jobIds = await requeueDeadLetter(itemIds);
+    if (jobIds && jobIds.length > 0) {
+      // Follow the reopened job in the progress panel
+      trackJob(jobIds[0]);
+    }
+    toast({
+      title: jobIds ? "Retry Queued" : "Retry Failed",
+      description: jobIds
+        ? "The failed properties have been queued again."
+        : "Could not re-queue the failed properties. Please try again.",
+      variant: jobIds ? "default" : "destructive",
+    });
+  };
+
   return (
     <div className="p-4 sm:p-6 w-full">
       <div className="space-y-4 sm:space-y-6">
@@ -458,6 +636,24 @@ export default function UploadPage() {
           </CardContent>
         </Card>
 
+        {/* Live Processing Progress */}
+        <ProcessingProgress
+          progress={jobProgress}
+          loading={jobLoading}
+          error={jobError}
+          onDismiss={dismissJob}
+          onResume={handleResumeJob}
+        />
+
+        {/* Dead-letter list */}
+        <DeadLetterList items={deadLetterItems} onRetry={handleRetryFailed} />
+
+        {/* Likely duplicates held back from insertion */}
+        <DuplicateReviewList
+          reviews={duplicateReviews}
+          onResolve={handleResolveDuplicate}
+        />
+
         {/* Image Upload */}
         <Card>
           <CardHeader className="pb-2">
@@ -468,17 +664,30 @@ export default function UploadPage() {
           </CardHeader>
           <CardContent className="pt-3 space-y-6">
             {/* Compact Upload Section */}
-            <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 border border-dashed border-blue-300 rounded-lg bg-blue-50/30">
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`flex flex-col sm:flex-row sm:items-center gap-3 p-4 border border-dashed rounded-lg transition-colors ${
+                isDragging
+                  ? "border-blue-500 bg-blue-100/60"
+                  : "border-blue-300 bg-blue-50/30"
+              }`}
+            >
               <div className="flex items-center space-x-3 flex-1">
                 <div className="p-2 bg-blue-100 rounded-full">
                   <ImageIcon className="h-4 w-4 text-blue-600" />
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-gray-900">
-                    Upload Image
+                    Upload Images or PDFs
                   </p>
                   <p className="text-xs text-gray-600 truncate">
-                    Select image (Up to 10MB)
+                    Drop or select images, PDFs or a ZIP (up to 10MB per image
+                    or page)
                   </p>
                 </div>
               </div>
@@ -486,7 +695,8 @@ export default function UploadPage() {
               <div className="flex items-center gap-2">
                 <input
                   type="file"
-                  accept="image/*"
+                  accept="image/*,.pdf,application/pdf,.zip,application/zip"
+                  multiple
                   onChange={handleFileSelect}
                   disabled={isExtracting}
                   className="hidden"
@@ -501,7 +711,7 @@ export default function UploadPage() {
                 >
                   <label htmlFor="image-upload">
                     <ImageIcon className="mr-1 h-4 w-4" />
-                    <span className="hidden sm:inline">Choose File</span>
+                    <span className="hidden sm:inline">Choose Files</span>
                     <span className="sm:hidden">Upload</span>
                   </label>
                 </Button>
@@ -509,12 +719,12 @@ export default function UploadPage() {
                 <Button
                   onClick={handleExtractNames}
                   disabled={
-                    !selectedFile ||
+                    images.length === 0 ||
                     isExtracting ||
                     stats?.canMakeRequests === false
                   }
                   className={`inline-flex items-center justify-center px-4 h-10 w-full sm:w-auto text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors min-w-[100px] ${
-                    !selectedFile ||
+                    images.length === 0 ||
                     isExtracting ||
                     stats?.canMakeRequests === false
                       ? "opacity-50 cursor-not-allowed"
@@ -537,32 +747,40 @@ export default function UploadPage() {
                 </Button>
               </div>
             </div>
-            {/* Image Preview */}
-            {imagePreview && (
+            {/* Per-image extraction status */}
+            {images.length > 0 && (
               <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Label>Image Preview</Label>
-                  {selectedFile && (
-                    <span
-                      className="max-w-[200px] truncate text-xs text-gray-700 font-medium"
-                      title={selectedFile.name}
-                    >
-                      : {selectedFile.name}
-                    </span>
-                  )}
-                </div>
-                <div className="border rounded-lg p-2 sm:p-4 bg-white">
-                  <img
-                    src={imagePreview}
-                    alt="Upload preview"
-                    className="w-full h-auto max-h-64 sm:max-h-96 mx-auto rounded shadow-sm object-contain"
-                  />
+                <div className="flex items-center justify-between gap-2">
+                  <Label>
+                    Images ({images.filter((i) => i.status === "done").length}/
+                    {images.length} extracted)
+                  </Label>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleClearImages}
+                    disabled={isExtracting}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Clear
+                  </Button>
                 </div>
+                <ImageBatchList
+                  images={images}
+                  disabled={isExtracting}
+                  onRemove={handleRemoveImage}
+                />
               </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Spreadsheet Import */}
+        <PropertyImportCard
+          disabled={isExtracting || isProcessing}
+          onNamesImported={handleNamesImported}
+        />
+
         {/* Extracted Names */}
         {extractedProperties.length > 0 && (
           <Card>
@@ -617,6 +835,17 @@ export default function UploadPage() {
                         ) : (
                           <div className="font-medium text-gray-900 truncate max-w-[240px]">
                             {property.name}
+                            {property.sources &&
+                              property.sources.length > 0 && (
+                                <p className="text-xs font-normal text-gray-500 truncate">
+                                  From: {property.sources.join(", ")}
+                                </p>
+                              )}
+                            {describeDuplicate(property.name) && (
+                              <p className="text-xs font-normal text-orange-600 truncate">
+                                {describeDuplicate(property.name)}
+                              </p>
+                            )}
                           </div>
                         )}
                         <div className="flex gap-2">
@@ -706,9 +935,22 @@ export default function UploadPage() {
                                 autoFocus
                               />
                             ) : (
-                              <span className="font-medium truncate max-w-[720px] block">
-                                {property.name}
-                              </span>
+                              <>
+                                <span className="font-medium truncate max-w-[720px] block">
+                                  {property.name}
+                                </span>
+                                {property.sources &&
+                                  property.sources.length > 0 && (
+                                    <span className="text-xs text-gray-500 truncate max-w-[720px] block">
+                                      From: {property.sources.join(", ")}
+                                    </span>
+                                  )}
+                                {describeDuplicate(property.name) && (
+                                  <span className="text-xs text-orange-600 truncate max-w-[720px] block">
+                                    {describeDuplicate(property.name)}
+                                  </span>
+                                )}
+                              </>
                             )}
                           </TableCell>
                           <TableCell>
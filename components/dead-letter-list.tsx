@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, RefreshCw, RotateCcw } from "lucide-react";
+import type { DeadLetterItem } from "@/lib/types";
+
+interface DeadLetterListProps {
+  items: DeadLetterItem[];
+  onRetry: (itemIds?: string[]) => Promise<void>;
+}
+
+export function DeadLetterList({ items, onRetry }: DeadLetterListProps) {
+  const [retrying, setRetrying] = useState<string | null>(null);
+
+  if (items.length === 0) return null;
+
+  const handleRetry = async (key: string, itemIds?: string[]) => {
+    setRetrying(key);
+    try {
+      await onRetry(itemIds);
+    } finally {
+      setRetrying(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+          <div>
+            <CardTitle className="flex items-center space-x-2 text-lg">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              <span>Failed Properties ({items.length})</span>
+            </CardTitle>
+            <CardDescription className="text-sm">
+              These properties could not be enriched after all retries.
+            </CardDescription>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleRetry("all")}
+            disabled={retrying !== null}
+          >
+            {retrying === "all" ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-2 h-4 w-4" />
+            )}
+            Retry All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border max-h-72 overflow-y-auto">
+          <Table>
+            <TableHeader className="sticky top-0 bg-white z-10">
+              <TableRow>
+                <TableHead>Property Name</TableHead>
+                <TableHead className="hidden sm:table-cell">Upload</TableHead>
+                <TableHead className="w-20 text-center">Attempts</TableHead>
+                <TableHead className="w-24 text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <span className="font-medium">{item.property_name}</span>
+                    {item.last_error && (
+                      <p className="text-xs text-red-600 truncate max-w-[420px]">
+                        {item.last_error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="hidden sm:table-cell text-sm text-gray-600">
+                    {item.processing_jobs?.parent_address || "-"}
+                    <p className="text-xs text-gray-500">
+                      {new Date(item.updated_at).toLocaleString()}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-center">{item.attempts}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRetry(item.id, [item.id])}
+                      disabled={retrying !== null}
+                    >
+                      {retrying === item.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Plus, RefreshCw, X } from "lucide-react";
+import type { DuplicateReview } from "@/lib/types";
+
+interface DuplicateReviewListProps {
+  reviews: DuplicateReview[];
+  onResolve: (reviewId: string, action: "insert" | "dismiss") => Promise<void>;
+}
+
+const formatLocation = (city?: string | null, state?: string | null) =>
+  [city, state].filter(Boolean).join(", ") || "-";
+
+export function DuplicateReviewList({
+  reviews,
+  onResolve,
+}: DuplicateReviewListProps) {
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  if (reviews.length === 0) return null;
+
+  const handleResolve = async (
+    reviewId: string,
+    action: "insert" | "dismiss"
+  ) => {
+    setResolving(reviewId);
+    try {
+      await onResolve(reviewId, action);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <Copy className="h-5 w-5 text-orange-600" />
+          <span>Possible Duplicates ({reviews.length})</span>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          These properties look like ones that already exist and were not added.
+          Add them if they are different properties, or dismiss them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border max-h-72 overflow-y-auto">
+          <Table>
+            <TableHeader className="sticky top-0 bg-white z-10">
+              <TableRow>
+                <TableHead>New Property</TableHead>
+                <TableHead>Existing Property</TableHead>
+                <TableHead className="w-20 text-center">Match</TableHead>
+                <TableHead className="w-28 text-right">Action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell>
+                    <span className="font-medium">{review.property_name}</span>
+                    <p className="text-xs text-gray-500 truncate max-w-[320px]">
+                      {formatLocation(
+                        review.candidate.city,
+                        review.candidate.state
+                      )}
+                      {review.candidate.decision_maker_email
+                        ? ` • ${review.candidate.decision_maker_email}`
+                        : ""}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-medium">
+                      {review.matched_property?.property_address || "-"}
+                    </span>
+                    <p className="text-xs text-gray-500 truncate max-w-[320px]">
+                      {formatLocation(
+                        review.matched_property?.city,
+                        review.matched_property?.state
+                      )}
+                      {review.matched_property?.decision_maker_email
+                        ? ` • ${review.matched_property.decision_maker_email}`
+                        : ""}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-center text-sm">
+                    {Math.round(review.similarity * 100)}%
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Add as a new property"
+                      onClick={() => handleResolve(review.id, "insert")}
+                      disabled={resolving !== null}
+                    >
+                      {resolving === review.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Plus className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Dismiss as duplicate"
+                      onClick={() => handleResolve(review.id, "dismiss")}
+                      disabled={resolving !== null}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { Badge } from "@/components/ui/badge";
+import type { EmailStatus } from "@/lib/types";
+
+export const EMAIL_STATUS_OPTIONS: Array<{
+  status: EmailStatus;
+  label: string;
+}> = [
+  { status: "valid", label: "Verified" },
+  { status: "risky", label: "Risky" },
+  { status: "invalid", label: "Invalid" },
+  { status: "unknown", label: "Unverified" },
+];
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  valid: "bg-green-100 text-green-700 hover:bg-green-100",
+  risky: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  invalid: "bg-red-100 text-red-700 hover:bg-red-100",
+  unknown: "bg-gray-100 text-gray-600 hover:bg-gray-100",
+};
+
+const STATUS_HINTS: Record<EmailStatus, string> = {
+  valid: "Address verified, campaigns are sent to it",
+  risky: "Shared role mailbox such as info@, not emailed",
+  invalid: "Address does not accept email, not emailed",
+  unknown: "Not verified yet, not emailed",
+};
+
+export function EmailStatusBadge({ status }: { status: EmailStatus }) {
+  return (
+    <Badge
+      className={`text-xs ${STATUS_STYLES[status]}`}
+      title={STATUS_HINTS[status]}
+    >
+      {EMAIL_STATUS_OPTIONS.find((option) => option.status === status)?.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  CheckCircle2,
+  Clock,
+  FileText,
+  RefreshCw,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import type { ImageExtraction } from "@/lib/types";
+
+interface ImageBatchListProps {
+  images: ImageExtraction[];
+  disabled: boolean;
+  onRemove: (id: string) => void;
+}
+
+function StatusLabel({ image }: { image: ImageExtraction }) {
+  switch (image.status) {
+    case "extracting":
+      return (
+        <span className="flex items-center text-xs text-blue-600">
+          <RefreshCw className="mr-1 h-3 w-3 animate-spin" />
+          Extracting...
+        </span>
+      );
+    case "done":
+      return (
+        <span className="flex items-center text-xs text-green-700">
+          <CheckCircle2 className="mr-1 h-3 w-3" />
+          {image.namesFound} names
+        </span>
+      );
+    case "failed":
+      return (
+        <span
+          className="flex items-center text-xs text-red-600"
+          title={image.error || undefined}
+        >
+          <XCircle className="mr-1 h-3 w-3 flex-shrink-0" />
+          <span className="truncate">{image.error || "Failed"}</span>
+        </span>
+      );
+    default:
+      return (
+        <span className="flex items-center text-xs text-gray-500">
+          <Clock className="mr-1 h-3 w-3" />
+          Waiting
+        </span>
+      );
+  }
+}
+
+export function ImageBatchList({
+  images,
+  disabled,
+  onRemove,
+}: ImageBatchListProps) {
+  if (images.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+      {images.map((image) => (
+        <div
+          key={image.id}
+          className="flex items-center gap-3 border rounded-lg p-2 bg-white"
+        >
+          {image.previewUrl ? (
+            <img
+              src={image.previewUrl}
+              alt={image.label}
+              className="h-14 w-14 flex-shrink-0 rounded object-cover bg-gray-100"
+            />
+          ) : (
+            <div className="flex h-14 w-14 flex-shrink-0 flex-col items-center justify-center rounded bg-gray-100 text-gray-500">
+              <FileText className="h-5 w-5" />
+              <span className="text-[10px]">Page {image.page}</span>
+            </div>
+          )}
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="text-sm font-medium truncate" title={image.label}>
+              {image.label}
+            </p>
+            <StatusLabel image={image} />
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onRemove(image.id)}
+            disabled={disabled}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Building2, Search } from "lucide-react";
+import type { EmailLog, ManagementCompany, Property } from "@/lib/types";
+
+// A company with its properties and their combined campaign results
+export interface CompanyPortfolio {
+  company: ManagementCompany;
+  properties: Property[];
+  emailsSent: number;
+  replies: number;
+}
+
+const MAX_ROWS = 50;
+
+export const replyRate = (portfolio: CompanyPortfolio) =>
+  portfolio.emailsSent > 0
+    ? Math.round((portfolio.replies / portfolio.emailsSent) * 1000) / 10
+    : 0;
+
+/**
+ * Companies that manage at least one property, largest portfolio first
+ */
+export function buildPortfolios(
+  companies: ManagementCompany[],
+  properties: Property[],
+  emailLogs: EmailLog[]
+): CompanyPortfolio[] {
+  const byCompany = new Map<string, CompanyPortfolio>(
+    companies.map((company) => [
+      company.id,
+      { company, properties: [], emailsSent: 0, replies: 0 },
+    ])
+  );
+  const companyOfProperty = new Map<string, CompanyPortfolio>();
+
+  for (const property of properties) {
+    const portfolio = property.management_company_id
+      ? byCompany.get(property.management_company_id)
+      : undefined;
+    if (!portfolio) continue;
+    portfolio.properties.push(property);
+    companyOfProperty.set(property.id, portfolio);
+  }
+
+  for (const log of emailLogs) {
+    const portfolio = companyOfProperty.get(log.property_id);
+    if (!portfolio) continue;
+    portfolio.emailsSent++;
+    if (log.replied) portfolio.replies++;
+  }
+
+  return [...byCompany.values()]
+    .filter((portfolio) => portfolio.properties.length > 0)
+    .sort(
+      (a, b) =>
+        b.properties.length - a.properties.length ||
+        a.company.name.localeCompare(b.company.name)
+    );
+}
+
+interface ManagementCompanyListProps {
+  portfolios: CompanyPortfolio[];
+  onSelect: (companyId: string) => void;
+}
+
+export function ManagementCompanyList({
+  portfolios,
+  onSelect,
+}: ManagementCompanyListProps) {
+  const [search, setSearch] = useState("");
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term
+      ? portfolios.filter(({ company }) =>
+          company.name.toLowerCase().includes(term)
+        )
+      : portfolios;
+  }, [portfolios, search]);
+
+  if (portfolios.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 md:pb-6">
+        <CardTitle className="flex items-center text-lg md:text-xl">
+          <Building2 className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+          Management Companies ({portfolios.length})
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Companies that run several of our properties, with their combined
+          campaign results. Open one to see its properties and set a
+          company-level contact.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search companies..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10 text-sm"
+          />
+        </div>
+        <div className="rounded-md border max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader className="sticky top-0 bg-white z-10">
+              <TableRow>
+                <TableHead>Company</TableHead>
+                <TableHead className="text-right">Properties</TableHead>
+                <TableHead className="text-right">Emails Sent</TableHead>
+                <TableHead className="text-right">Replies</TableHead>
+                <TableHead className="text-right">Reply Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.slice(0, MAX_ROWS).map((portfolio) => (
+                <TableRow key={portfolio.company.id}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => onSelect(portfolio.company.id)}
+                      className="text-left font-medium hover:underline"
+                    >
+                      {portfolio.company.name}
+                    </button>
+                    {portfolio.company.contact_email && (
+                      <p className="text-xs text-gray-500 truncate max-w-[280px]">
+                        {portfolio.company.contact_name
+                          ? `${portfolio.company.contact_name} • `
+                          : ""}
+                        {portfolio.company.contact_email}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {portfolio.properties.length}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {portfolio.emailsSent}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {portfolio.replies}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {replyRate(portfolio)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {visible.length > MAX_ROWS && (
+          <p className="text-xs text-gray-500">
+            Showing {MAX_ROWS} of {visible.length} companies, search to find
+            others.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
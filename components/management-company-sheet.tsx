@@ -0,0 +1,213 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { CompanyContact } from "@/hooks/use-management-companies";
+import {
+  replyRate,
+  type CompanyPortfolio,
+} from "@/components/management-company-list";
+import { RefreshCw, Save } from "lucide-react";
+import { validateContactInput } from "@/lib/property-validation";
+import { formatPhone } from "@/lib/phone";
+import type { ManagementCompany, Property } from "@/lib/types";
+
+type ContactErrors = Partial<Record<keyof CompanyContact, string>>;
+
+const CONTACT_FIELDS = [
+  { field: "name", label: "Contact Name" },
+  { field: "email", label: "Contact Email" },
+  { field: "phone", label: "Contact Phone" },
+] as const;
+
+const toForm = (company: ManagementCompany | null) => ({
+  name: company?.contact_name || "",
+  email: company?.contact_email || "",
+  phone: formatPhone(company?.contact_phone, company?.contact_phone_ext),
+});
+
+interface ManagementCompanySheetProps {
+  portfolio: CompanyPortfolio | null;
+  onClose: () => void;
+  // Resolve with field errors the server rejected, or null when saved
+  onSaveContact: (
+    companyId: string,
+    contact: CompanyContact
+  ) => Promise<ContactErrors | null>;
+  onSelectProperty: (property: Property) => void;
+}
+
+export function ManagementCompanySheet({
+  portfolio,
+  onClose,
+  onSaveContact,
+  onSelectProperty,
+}: ManagementCompanySheetProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState(toForm(null));
+  const [errors, setErrors] = useState<ContactErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const company = portfolio?.company ?? null;
+
+  // Reset the form whenever another company is opened or its contact saved
+  useEffect(() => {
+    setForm(toForm(company));
+    setErrors({});
+  }, [company]);
+
+  const handleSave = async () => {
+    if (!portfolio) return;
+
+    const validation = validateContactInput(form, { partial: true });
+    if (!validation.success) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fieldErrors = await onSaveContact(portfolio.company.id, {
+        name: validation.data.name ?? null,
+        email: validation.data.email ?? null,
+        phone: validation.data.phone ?? null,
+        phone_ext: validation.data.phone_ext ?? null,
+      });
+      if (fieldErrors) {
+        setErrors(fieldErrors);
+        if (Object.keys(fieldErrors).length === 0) {
+          toast({
+            title: "Contact Not Saved",
+            description: "The company contact could not be saved.",
+            variant: "destructive",
+          });
+        }
+      } else {
+        setErrors({});
+        toast({
+          title: "Contact Saved",
+          description: `Updated the contact for ${portfolio.company.name}.`,
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const stats = portfolio
+    ? [
+        { label: "Properties", value: portfolio.properties.length },
+        { label: "Emails Sent", value: portfolio.emailsSent },
+        { label: "Replies", value: portfolio.replies },
+        { label: "Reply Rate", value: `${replyRate(portfolio)}%` },
+      ]
+    : [];
+
+  return (
+    <Sheet
+      open={portfolio !== null}
+      onOpenChange={(isOpen) => !isOpen && onClose()}
+    >
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {portfolio && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-words pr-6">
+                {portfolio.company.name}
+              </SheetTitle>
+              <SheetDescription>
+                Combined results across every property this company manages.
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-2 gap-3">
+                {stats.map(({ label, value }) => (
+                  <div key={label} className="rounded-md border p-3">
+                    <p className="text-xs text-gray-500">{label}</p>
+                    <p className="text-lg font-semibold">{value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Company Contact</p>
+                {CONTACT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <Label htmlFor={`company-${field}`}>{label}</Label>
+                    <Input
+                      id={`company-${field}`}
+                      value={form[field]}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          [field]: e.target.value,
+                        }))
+                      }
+                      className="mt-1"
+                      disabled={isSaving}
+                    />
+                    {errors[field] && (
+                      <p className="mt-1 text-xs text-red-600">
+                        {errors[field]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? (
+                      <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save Contact
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Properties ({portfolio.properties.length})
+                </p>
+                <ul className="divide-y rounded-md border">
+                  {portfolio.properties.map((property) => (
+                    <li key={property.id}>
+                      <button
+                        type="button"
+                        onClick={() => onSelectProperty(property)}
+                        className="w-full px-3 py-2 text-left hover:bg-gray-50"
+                      >
+                        <p className="text-sm font-medium break-words">
+                          {property.property_address || "—"}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {[property.city, property.state]
+                            .filter(Boolean)
+                            .join(", ") || "No location"}
+                          {property.decision_maker_name
+                            ? ` • ${property.decision_maker_name}`
+                            : ""}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -85,6 +85,8 @@ export function Navbar({ children }: NavbarProps) {
   const isProtectedRoute = protectedRoutes.some((route) =>
     pathname.startsWith(route)
   );
+  // Pages for campaign contacts, who have no account here
+  const isContactRoute = pathname.startsWith("/unsubscribe");
 
   // Initialize sidebar state only
   useEffect(() => {
@@ -241,6 +243,10 @@ export function Navbar({ children }: NavbarProps) {
   }
   */
 
+  if (isContactRoute) {
+    return <>{children}</>;
+  }
+
   // For protected routes, only show authenticated layout
 
   if (isProtectedRoute) {
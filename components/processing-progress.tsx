@@ -0,0 +1,231 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity, RefreshCw, RotateCcw, X } from "lucide-react";
+import type {
+  ProcessingJobItemStatus,
+  ProcessingJobProgress,
+} from "@/lib/types";
+
+// A job with no heartbeat for this long has most likely lost its worker
+const STALLED_AFTER_MS = 10 * 60 * 1000;
+
+const ITEM_STATUS_STYLES: Record<ProcessingJobItemStatus, string> = {
+  queued: "bg-gray-100 text-gray-700",
+  processing: "bg-blue-100 text-blue-700",
+  processed: "bg-green-100 text-green-700",
+  skipped: "bg-yellow-100 text-yellow-800",
+  failed: "bg-red-100 text-red-700",
+};
+
+interface ProcessingProgressProps {
+  progress: ProcessingJobProgress | null;
+  loading: boolean;
+  error: string | null;
+  onDismiss: () => void;
+  onResume: () => void;
+}
+
+export function ProcessingProgress({
+  progress,
+  loading,
+  error,
+  onDismiss,
+  onResume,
+}: ProcessingProgressProps) {
+  if (!progress) {
+    return loading ? (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex items-center space-x-2 text-gray-600">
+            <RefreshCw className="h-4 w-4 animate-spin" />
+            <span className="text-sm">Loading processing progress...</span>
+          </div>
+        </CardContent>
+      </Card>
+    ) : null;
+  }
+
+  const { job, batches, items } = progress;
+  const done = job.processed_count + job.skipped_count + job.failed_count;
+  const percent =
+    job.total_items > 0 ? Math.round((done / job.total_items) * 100) : 0;
+  const isCompleted = job.status === "completed";
+  const isStalled =
+    !isCompleted &&
+    (!job.heartbeat_at ||
+      Date.now() - new Date(job.heartbeat_at).getTime() > STALLED_AFTER_MS);
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+          <div>
+            <CardTitle className="flex items-center space-x-2 text-lg">
+              <Activity className="h-5 w-5" />
+              <span>Processing Progress</span>
+              <Badge variant={isCompleted ? "default" : "secondary"}>
+                {isCompleted ? "Completed" : isStalled ? "Stalled" : "Running"}
+              </Badge>
+            </CardTitle>
+            <CardDescription className="text-sm">
+              {job.parent_address}
+              {job.filename ? ` • ${job.filename}` : ""} • Started{" "}
+              {new Date(job.created_at).toLocaleString()}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {isStalled && (
+              <Button size="sm" variant="outline" onClick={onResume}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Resume
+              </Button>
+            )}
+            {isCompleted && (
+              <Button size="sm" variant="outline" onClick={onDismiss}>
+                <X className="mr-2 h-4 w-4" />
+                Dismiss
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>
+              {done} / {job.total_items} properties
+            </span>
+            <span className="font-medium">{percent}%</span>
+          </div>
+          <Progress value={percent} className="h-2" />
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+            <span className="text-green-700">
+              Processed: {job.processed_count}
+            </span>
+            <span className="text-yellow-700">
+              Skipped: {job.skipped_count}
+            </span>
+            <span className="text-red-700">Failed: {job.failed_count}</span>
+            <span>Remaining: {job.total_items - done}</span>
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {job.last_error && !isCompleted && (
+          <p className="text-xs text-red-600">
+            Last worker error: {job.last_error}
+          </p>
+        )}
+
+        {/* Per-batch breakdown */}
+        {batches.length > 1 && (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead className="text-right">Processed</TableHead>
+                  <TableHead className="text-right">Skipped</TableHead>
+                  <TableHead className="text-right">Failed</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.batch}>
+                    <TableCell>
+                      {batch.batch} / {batches.length}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.processed}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.skipped}
+                    </TableCell>
+                    <TableCell className="text-right">{batch.failed}</TableCell>
+                    <TableCell className="text-right">
+                      {batch.queued + batch.processing}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Per-property status */}
+        <div className="rounded-md border max-h-72 overflow-y-auto">
+          <Table>
+            <TableHeader className="sticky top-0 bg-white z-10">
+              <TableRow>
+                <TableHead className="w-12 text-center">#</TableHead>
+                <TableHead>Property Name</TableHead>
+                <TableHead className="w-28">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell className="text-center text-gray-500">
+                    {item.position + 1}
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-medium">{item.property_name}</span>
+                    {item.status === "failed" && item.last_error && (
+                      <p className="text-xs text-red-600 truncate max-w-[480px]">
+                        {item.last_error}
+                      </p>
+                    )}
+                    {item.status === "skipped" && item.last_error && (
+                      <p className="text-xs text-gray-500 truncate max-w-[480px]">
+                        {item.last_error}
+                      </p>
+                    )}
+                    {item.status === "queued" && item.attempts > 0 && (
+                      <p className="text-xs text-orange-600 truncate max-w-[480px]">
+                        Retry {item.attempts + 1}
+                        {item.next_attempt_at
+                          ? ` at ${new Date(
+                              item.next_attempt_at
+                            ).toLocaleTimeString()}`
+                          : ""}
+                        {item.last_error ? ` • ${item.last_error}` : ""}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-block rounded px-2 py-0.5 text-xs font-medium capitalize ${
+                        ITEM_STATUS_STYLES[item.status]
+                      }`}
+                    >
+                      {item.status}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
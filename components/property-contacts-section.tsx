@@ -0,0 +1,272 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { EmailStatusBadge } from "@/components/email-status-badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  usePropertyContacts,
+  type ContactChangeResult,
+  type ContactFieldErrors,
+} from "@/hooks/use-property-contacts";
+import { Pencil, Plus, RefreshCw, Star, Trash2, Users } from "lucide-react";
+import { CONTACT_ROLES, validateContactInput } from "@/lib/property-validation";
+import { formatPhone } from "@/lib/phone";
+import type { ContactRole, Property, PropertyContact } from "@/lib/types";
+
+const roleLabel = (role: ContactRole) =>
+  CONTACT_ROLES.find((option) => option.role === role)?.label || role;
+
+interface ContactForm {
+  role: ContactRole;
+  name: string;
+  email: string;
+  phone: string;
+}
+
+const EMPTY_FORM: ContactForm = {
+  role: "board_president",
+  name: "",
+  email: "",
+  phone: "",
+};
+
+interface PropertyContactsSectionProps {
+  property: Property;
+  // The decision maker follows the primary contact, so the property changes
+  onPropertyChange: (property: Property) => void;
+}
+
+export function PropertyContactsSection({
+  property,
+  onPropertyChange,
+}: PropertyContactsSectionProps) {
+  const { contacts, loading, add, update, remove } = usePropertyContacts(
+    property.id
+  );
+  const { toast } = useToast();
+
+  // null: no form open, "new": adding, otherwise the contact being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = (contact: PropertyContact | null) => {
+    setEditing(contact ? contact.id : "new");
+    setForm(
+      contact
+        ? {
+            role: contact.role,
+            name: contact.name || "",
+            email: contact.email || "",
+            phone: formatPhone(contact.phone, contact.phone_ext),
+          }
+        : EMPTY_FORM
+    );
+    setErrors({});
+  };
+
+  const handleResult = (result: ContactChangeResult) => {
+    if (result.success) {
+      onPropertyChange(result.property);
+      return true;
+    }
+    if (result.fieldErrors) {
+      setErrors(result.fieldErrors);
+    } else {
+      toast({
+        title: "Contact Not Saved",
+        description: result.error,
+        variant: "destructive",
+      });
+    }
+    return false;
+  };
+
+  const handleSave = async () => {
+    const validation = validateContactInput(form);
+    if (!validation.success) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result =
+        editing === "new"
+          ? await add(validation.data)
+          : await update(editing!, validation.data);
+      if (handleResult(result)) setEditing(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAction = async (action: () => Promise<ContactChangeResult>) => {
+    setIsSaving(true);
+    try {
+      handleResult(await action());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-sm font-medium">
+          <Users className="mr-2 h-4 w-4" />
+          Contacts ({contacts.length})
+        </span>
+        {editing === null && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openForm(null)}
+            disabled={isSaving}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add Contact
+          </Button>
+        )}
+      </div>
+
+      {loading && contacts.length === 0 && (
+        <p className="text-xs text-gray-500">Loading contacts...</p>
+      )}
+      {!loading && contacts.length === 0 && editing === null && (
+        <p className="text-xs text-gray-500">No contacts recorded yet.</p>
+      )}
+
+      {contacts.map((contact) => (
+        <div
+          key={contact.id}
+          className="flex items-start justify-between gap-2 rounded-md border p-2"
+        >
+          <div className="min-w-0 space-y-0.5 text-sm">
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="font-medium">{contact.name || "—"}</span>
+              <Badge variant="outline" className="text-xs">
+                {roleLabel(contact.role)}
+              </Badge>
+              {contact.is_primary && (
+                <Badge className="text-xs bg-blue-100 text-blue-700 hover:bg-blue-100">
+                  Primary
+                </Badge>
+              )}
+            </div>
+            {contact.email && (
+              <div className="flex flex-wrap items-center gap-1">
+                <p className="text-xs text-gray-600 break-all">
+                  {contact.email}
+                </p>
+                <EmailStatusBadge status={contact.email_status} />
+              </div>
+            )}
+            {contact.phone && (
+              <p className="text-xs text-gray-600">
+                {formatPhone(contact.phone, contact.phone_ext)}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-shrink-0">
+            {!contact.is_primary && (
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Make primary contact"
+                onClick={() =>
+                  handleAction(() => update(contact.id, { is_primary: true }))
+                }
+                disabled={isSaving}
+              >
+                <Star className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Edit contact"
+              onClick={() => openForm(contact)}
+              disabled={isSaving}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Remove contact"
+              onClick={() => handleAction(() => remove(contact.id))}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {editing !== null && (
+        <div className="space-y-2 rounded-md border bg-gray-50 p-3">
+          <Select
+            value={form.role}
+            onValueChange={(role) =>
+              setForm((prev) => ({ ...prev, role: role as ContactRole }))
+            }
+            disabled={isSaving}
+          >
+            <SelectTrigger className="h-9 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTACT_ROLES.map(({ role, label }) => (
+                <SelectItem key={role} value={role}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {(["name", "email", "phone"] as const).map((field) => (
+            <div key={field}>
+              <Input
+                value={form[field]}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, [field]: e.target.value }))
+                }
+                placeholder={field.charAt(0).toUpperCase() + field.slice(1)}
+                className="h-9 bg-white"
+                disabled={isSaving}
+              />
+              {errors[field] && (
+                <p className="mt-1 text-xs text-red-600">{errors[field]}</p>
+              )}
+            </div>
+          ))}
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setEditing(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <RefreshCw className="mr-1 h-4 w-4 animate-spin" />}
+              {editing === "new" ? "Add" : "Save"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,471 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PropertyContactsSection } from "@/components/property-contacts-section";
+import { PropertySuppressionsSection } from "@/components/property-suppressions-section";
+import { EmailStatusBadge } from "@/components/email-status-badge";
+import {
+  AlertTriangle,
+  ExternalLink,
+  Info,
+  Pencil,
+  RefreshCw,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { validatePropertyInput } from "@/lib/property-validation";
+import { formatPhone } from "@/lib/phone";
+import type { SuppressionFieldErrors } from "@/hooks/use-suppressions";
+import type {
+  EditablePropertyField,
+  FieldConfidence,
+  GeoFlag,
+  Property,
+  PropertyInput,
+  Suppression,
+  SuppressionInput,
+} from "@/lib/types";
+
+// Enriched fields in the order reps usually check them
+const ENRICHED_FIELDS: Array<{
+  column: EditablePropertyField;
+  label: string;
+}> = [
+  { column: "hoa_or_management_company", label: "HOA/Management" },
+  { column: "decision_maker_name", label: "Decision Maker" },
+  { column: "decision_maker_email", label: "Email" },
+  { column: "decision_maker_phone", label: "Phone" },
+  { column: "city", label: "City" },
+  { column: "county", label: "County" },
+  { column: "state", label: "State" },
+  { column: "zip_code", label: "Zip" },
+];
+
+const CONFIDENCE_STYLES: Record<FieldConfidence, string> = {
+  high: "bg-green-100 text-green-700",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-red-100 text-red-700",
+};
+
+// Address problems found against the ZIP reference, see lib/geography.ts
+const GEO_FLAG_LABELS: Record<GeoFlag, string> = {
+  invalid_zip: "The ZIP code is not a US ZIP code",
+  unknown_zip: "The ZIP code is not in the reference",
+  unknown_state: "The state is not a US state",
+  unknown_county: "The county is not in this state",
+  zip_state_mismatch: "The ZIP code belongs to another state",
+  zip_county_mismatch: "The ZIP code belongs to another county",
+  zip_city_mismatch: "The city is in another county than the ZIP code",
+};
+
+// Grounding URIs are often redirects, the title holds the real domain
+const sourceLabel = (uri: string, title: string | null) => {
+  if (title) return title;
+  try {
+    return new URL(uri).hostname;
+  } catch {
+    return uri;
+  }
+};
+
+const FORM_FIELDS = [
+  { column: "property_address", label: "Property Name *" },
+  ...ENRICHED_FIELDS,
+] as const;
+
+const PLACEHOLDERS: Partial<Record<EditablePropertyField, string>> = {
+  decision_maker_email: "e.g. manager@example.com",
+  decision_maker_phone: "e.g. (512) 555-0100 ext. 12",
+  state: "e.g. Texas or TX",
+  zip_code: "e.g. 78701",
+};
+
+type FormValues = Record<EditablePropertyField, string>;
+export type PropertyFieldErrors = Partial<
+  Record<EditablePropertyField, string>
+>;
+
+// Phones are stored in E.164 with a separate extension, shown as one
+const fieldValue = (property: Property, column: EditablePropertyField) =>
+  column === "decision_maker_phone"
+    ? formatPhone(
+        property.decision_maker_phone,
+        property.decision_maker_phone_ext
+      )
+    : property[column];
+
+const toFormValues = (property: Property | null): FormValues => ({
+  property_address: property?.property_address || "",
+  hoa_or_management_company: property?.hoa_or_management_company || "",
+  decision_maker_name: property?.decision_maker_name || "",
+  decision_maker_email: property?.decision_maker_email || "",
+  decision_maker_phone: formatPhone(
+    property?.decision_maker_phone,
+    property?.decision_maker_phone_ext
+  ),
+  city: property?.city || "",
+  county: property?.county || "",
+  state: property?.state || "",
+  zip_code: property?.zip_code || "",
+  suspend_until:
+    property?.suspend_until || new Date().toISOString().split("T")[0],
+});
+
+interface PropertyDetailSheetProps {
+  property: Property | null;
+  isCreating?: boolean; // open an empty form for a new property
+  onClose: () => void;
+  // Resolve with field errors the server rejected, or null when saved
+  onSave: (
+    input: PropertyInput,
+    property: Property | null
+  ) => Promise<PropertyFieldErrors | null>;
+  onDelete: (property: Property) => Promise<void>;
+  onPropertyChange: (property: Property) => void; // saved outside the form
+  suppressions: Suppression[]; // every active suppression
+  onAddSuppression: (
+    input: SuppressionInput
+  ) => Promise<SuppressionFieldErrors | null>;
+  onLiftSuppression: (id: string) => Promise<boolean>;
+}
+
+export function PropertyDetailSheet({
+  property,
+  isCreating = false,
+  onClose,
+  onSave,
+  onDelete,
+  onPropertyChange,
+  suppressions,
+  onAddSuppression,
+  onLiftSuppression,
+}: PropertyDetailSheetProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<FormValues>(toFormValues(null));
+  const [errors, setErrors] = useState<PropertyFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const sources = property?.enrichment_sources || [];
+  const manualFields = new Set(property?.manual_fields || []);
+  const open = property !== null || isCreating;
+
+  // Reset the form whenever another property (or a new one) is opened
+  useEffect(() => {
+    setValues(toFormValues(property));
+    setErrors({});
+    setIsEditing(isCreating);
+  }, [property, isCreating]);
+
+  const handleCancelEdit = () => {
+    if (isCreating) {
+      onClose();
+      return;
+    }
+    setValues(toFormValues(property));
+    setErrors({});
+    setIsEditing(false);
+  };
+
+  const handleSave = async () => {
+    // Edits only send the fields that changed
+    const saved = toFormValues(property);
+    const input = isCreating
+      ? values
+      : Object.fromEntries(
+          Object.entries(values).filter(
+            ([column, value]) =>
+              value.trim() !== saved[column as EditablePropertyField]
+          )
+        );
+
+    const validation = validatePropertyInput(input, { partial: !isCreating });
+    if (!validation.success) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const fieldErrors = await onSave(validation.data, property);
+      if (fieldErrors) {
+        setErrors(fieldErrors);
+      } else {
+        setErrors({});
+        setIsEditing(false);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!property) return;
+    setIsDeleteDialogOpen(false);
+    setIsSaving(true);
+    try {
+      await onDelete(property);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {isEditing && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-words pr-6">
+                {isCreating
+                  ? "Add Property"
+                  : `Edit ${property?.property_address || "Property"}`}
+              </SheetTitle>
+              <SheetDescription>
+                Fields you fill in here are marked as edited manually and are
+                never overwritten by enrichment.
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-4">
+              {FORM_FIELDS.map(({ column, label }) => (
+                <div key={column}>
+                  <Label htmlFor={`property-${column}`}>{label}</Label>
+                  <Input
+                    id={`property-${column}`}
+                    value={values[column]}
+                    onChange={(e) =>
+                      setValues((prev) => ({
+                        ...prev,
+                        [column]: e.target.value,
+                      }))
+                    }
+                    placeholder={PLACEHOLDERS[column]}
+                    className="mt-1"
+                    disabled={isSaving}
+                  />
+                  {errors[column] && (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors[column]}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <div>
+                <Label htmlFor="property-suspend_until">Suspended Until</Label>
+                <Input
+                  id="property-suspend_until"
+                  type="date"
+                  value={values.suspend_until}
+                  onChange={(e) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      suspend_until: e.target.value,
+                    }))
+                  }
+                  className="mt-1"
+                  disabled={isSaving}
+                />
+                {errors.suspend_until && (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.suspend_until}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={handleCancelEdit}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={isSaving}>
+                  {isSaving ? (
+                    <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  {isCreating ? "Add Property" : "Save"}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {!isEditing && property && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-words pr-6">
+                {property.property_address || "—"}
+              </SheetTitle>
+              <SheetDescription>
+                {property.enriched_at
+                  ? `Enriched ${new Date(
+                      property.enriched_at
+                    ).toLocaleString()} by ${
+                      property.enrichment_model || "unknown model"
+                    }`
+                  : "No enrichment details recorded for this property"}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="mt-6 space-y-4">
+              {ENRICHED_FIELDS.map(({ column, label }) => {
+                const value = fieldValue(property, column) || null;
+                const confidence = property.field_confidence?.[column];
+                const fieldSources = sources.filter((source) =>
+                  source.fields.includes(column)
+                );
+
+                return (
+                  <div key={column} className="border-b pb-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs font-medium text-gray-500">
+                        {label}
+                      </span>
+                      <div className="flex gap-1">
+                        {column === "decision_maker_email" && value && (
+                          <EmailStatusBadge status={property.email_status} />
+                        )}
+                        {manualFields.has(column) && (
+                          <Badge variant="outline" className="text-xs">
+                            Edited manually
+                          </Badge>
+                        )}
+                        {value && confidence && (
+                          <span
+                            className={`inline-block rounded px-2 py-0.5 text-xs font-medium capitalize ${CONFIDENCE_STYLES[confidence]}`}
+                          >
+                            {confidence} confidence
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-sm break-words">{value || "—"}</p>
+                    {value && fieldSources.length > 0 && (
+                      <ul className="space-y-0.5">
+                        {fieldSources.map((source) => (
+                          <li key={source.uri}>
+                            <a
+                              href={source.uri}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center text-xs text-blue-600 hover:underline break-all"
+                            >
+                              <ExternalLink className="mr-1 h-3 w-3 flex-shrink-0" />
+                              {sourceLabel(source.uri, source.title)}
+                            </a>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+
+              {property.geo_flags?.length > 0 && (
+                <div className="flex items-start space-x-2 rounded-md bg-yellow-50 p-3 text-xs text-yellow-800">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium">Address check</p>
+                    <ul className="mt-1 list-disc pl-4">
+                      {property.geo_flags.map((flag) => (
+                        <li key={flag}>{GEO_FLAG_LABELS[flag] || flag}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              <PropertyContactsSection
+                property={property}
+                onPropertyChange={onPropertyChange}
+              />
+
+              <PropertySuppressionsSection
+                property={property}
+                suppressions={suppressions}
+                onAdd={onAddSuppression}
+                onLift={onLiftSuppression}
+              />
+
+              {sources.length === 0 && (
+                <div className="flex items-start space-x-2 rounded-md bg-gray-50 p-3 text-xs text-gray-600">
+                  <Info className="h-4 w-4 flex-shrink-0" />
+                  <span>
+                    No search sources were recorded. Verify this contact before
+                    emailing it.
+                  </span>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => setIsDeleteDialogOpen(true)}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+                <Button onClick={() => setIsEditing(true)} disabled={isSaving}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+              </div>
+            </div>
+
+            <AlertDialog
+              open={isDeleteDialogOpen}
+              onOpenChange={setIsDeleteDialogOpen}
+            >
+              <AlertDialogContent className="max-w-md">
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Property</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Delete "{property.property_address}"? It will no longer be
+                    listed or emailed; its email history is kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={handleDeleteConfirm}
+                    className="bg-red-600 hover:bg-red-700"
+                  >
+                    Delete Property
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import type React from "react";
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileSpreadsheet, RefreshCw, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { dataCache } from "@/lib/cache";
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  isFullyPopulated,
+  isSpreadsheetFile,
+  mapSpreadsheetRows,
+  parseSpreadsheet,
+  type ColumnMapping,
+  type ParsedSpreadsheet,
+} from "@/lib/property-import";
+import type { PropertyImportResult } from "@/lib/types";
+
+const PREVIEW_ROWS = 10;
+const NOT_MAPPED = "none";
+
+interface PropertyImportCardProps {
+  disabled: boolean;
+  // Names of rows without contact data, to be enriched like extracted names
+  onNamesImported: (names: string[], source: string) => void;
+}
+
+export function PropertyImportCard({
+  disabled,
+  onNamesImported,
+}: PropertyImportCardProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<ParsedSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { toast } = useToast();
+
+  const rows = useMemo(
+    () => (sheet && mapping ? mapSpreadsheetRows(sheet, mapping) : []),
+    [sheet, mapping]
+  );
+  const completeRows = rows.filter(isFullyPopulated);
+  const nameOnlyRows = rows.filter((row) => !isFullyPopulated(row));
+
+  const reset = () => {
+    setFileName(null);
+    setSheet(null);
+    setMapping(null);
+  };
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!isSpreadsheetFile(file)) {
+      toast({
+        title: "Unsupported File",
+        description: "Please select a CSV or XLSX file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsReading(true);
+    try {
+      const parsed = await parseSpreadsheet(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      console.error("Error reading spreadsheet:", error);
+      toast({
+        title: "Could Not Read File",
+        description:
+          error instanceof Error ? error.message : "Failed to read the file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+    setMapping((prev) =>
+      prev
+        ? { ...prev, [field]: value === NOT_MAPPED ? null : Number(value) }
+        : prev
+    );
+  };
+
+  const handleImport = async () => {
+    if (!fileName || rows.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      let result: PropertyImportResult | null = null;
+
+      if (completeRows.length > 0) {
+        const response = await fetch("/api/import-properties", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ rows: completeRows }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to import properties");
+        }
+
+        result = data;
+        dataCache.refreshProperties();
+      }
+
+      if (nameOnlyRows.length > 0) {
+        onNamesImported(
+          nameOnlyRows.map((row) => row.property_address),
+          fileName
+        );
+      }
+
+      const summary = [
+        result && `${result.inserted} properties imported`,
+        result?.duplicates.length &&
+          `${result.duplicates.length} already existed`,
+        result?.forReview.length &&
+          `${result.forReview.length} held for duplicate review`,
+        result?.invalid.length &&
+          `${result.invalid.length} invalid rows (first: row ${
+            result.invalid[0].row
+          }, ${result.invalid[0].error})`,
+        nameOnlyRows.length > 0 &&
+          `${nameOnlyRows.length} names added to the list for enrichment`,
+      ].filter(Boolean);
+
+      toast({
+        title: "Import Complete",
+        description: summary.join(", "),
+        variant: result?.invalid.length ? "destructive" : "default",
+      });
+
+      reset();
+    } catch (error) {
+      console.error("Error importing properties:", error);
+      toast({
+        title: "Import Failed",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to import properties",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <FileSpreadsheet className="h-5 w-5" />
+          <span>Or: Import a Spreadsheet</span>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Import a CSV or XLSX list. Rows with a decision-maker email are added
+          as they are; rows with only a name are added to the list below for
+          enrichment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-3 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFileSelect}
+            disabled={disabled || isReading || isImporting}
+            className="hidden"
+            id="spreadsheet-upload"
+          />
+          <Button
+            asChild
+            variant="outline"
+            className={`w-full sm:w-auto cursor-pointer ${
+              disabled || isReading || isImporting
+                ? "opacity-50 cursor-not-allowed"
+                : ""
+            }`}
+          >
+            <label htmlFor="spreadsheet-upload">
+              {isReading ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="mr-2 h-4 w-4" />
+              )}
+              Choose CSV/XLSX
+            </label>
+          </Button>
+          {fileName && (
+            <div className="flex items-center gap-2 text-sm text-gray-600 min-w-0">
+              <span className="truncate">{fileName}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={reset}
+                disabled={isImporting}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {sheet && mapping && (
+          <>
+            {/* Column mapping */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Select
+                    value={
+                      mapping[field] === null
+                        ? NOT_MAPPED
+                        : String(mapping[field])
+                    }
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                    disabled={isImporting}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            {/* Preview */}
+            <div className="rounded-md border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Property Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead className="w-24">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell className="text-gray-500">{row.row}</TableCell>
+                      <TableCell className="font-medium">
+                        {row.property_address}
+                      </TableCell>
+                      <TableCell>{row.decision_maker_email || "-"}</TableCell>
+                      <TableCell>{row.decision_maker_phone || "-"}</TableCell>
+                      <TableCell>
+                        {[row.city, row.state].filter(Boolean).join(", ") ||
+                          "-"}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={`inline-block rounded px-2 py-0.5 text-xs font-medium ${
+                            isFullyPopulated(row)
+                              ? "bg-green-100 text-green-700"
+                              : "bg-blue-100 text-blue-700"
+                          }`}
+                        >
+                          {isFullyPopulated(row) ? "Insert" : "Enrich"}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell
+                        colSpan={6}
+                        className="text-center text-sm text-gray-500"
+                      >
+                        No rows with a property name. Check the column mapping.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <p className="text-xs text-gray-600">
+                {rows.length} rows • {completeRows.length} to insert •{" "}
+                {nameOnlyRows.length} to enrich
+                {rows.length > PREVIEW_ROWS
+                  ? ` • showing first ${PREVIEW_ROWS}`
+                  : ""}
+              </p>
+              <Button
+                onClick={handleImport}
+                disabled={disabled || isImporting || rows.length === 0}
+                className="w-full sm:w-auto"
+              >
+                {isImporting ? (
+                  <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileSpreadsheet className="mr-2 h-4 w-4" />
+                )}
+                Import {rows.length} Rows
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
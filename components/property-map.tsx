@@ -0,0 +1,464 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { geoAlbersUsa, geoPath } from "d3-geo";
+import { feature, mesh } from "topojson-client";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Map as MapIcon, SquareDashedMousePointer, X } from "lucide-react";
+import {
+  SUBSCRIPTION_STATUSES,
+  SUBSCRIPTION_STATUS_LABELS,
+  subscriptionStatus,
+  type SubscriptionStatus,
+} from "@/lib/suppression-status";
+import type { EmailLog, Property, Suppression } from "@/lib/types";
+
+/**
+ * Properties plotted at their stored coordinates (the centroid of their ZIP
+ * code, see lib/geography.ts) over US counties. Clicking a county or drawing
+ * an area filters the dashboard table.
+ */
+
+type Topology = Parameters<typeof feature>[0];
+type MeshObject = Parameters<typeof mesh>[1];
+
+// Size and projection the pre-projected us-atlas files were built with
+const WIDTH = 975;
+const HEIGHT = 610;
+const projection = geoAlbersUsa()
+  .scale(1300)
+  .translate([WIDTH / 2, HEIGHT / 2]);
+
+type ColorBy = "subscription" | "reply" | "week";
+
+const COLOR_BY_OPTIONS: Array<{ value: ColorBy; label: string }> = [
+  { value: "subscription", label: "Subscription" },
+  { value: "reply", label: "Reply status" },
+  { value: "week", label: "Campaign week" },
+];
+
+const NOT_EMAILED = "#d1d5db";
+const STATUS_COLORS: Record<SubscriptionStatus, string> = {
+  subscribed: "#16a34a",
+  suspended: "#9ca3af",
+  suppressed: "#dc2626",
+};
+const WEEK_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#d97706",
+  "#9333ea",
+  "#dc2626",
+  "#0891b2",
+  "#db2777",
+  "#65a30d",
+];
+
+interface CountyShape {
+  id: string;
+  name: string;
+  state: string;
+  path: string;
+}
+
+interface Atlas {
+  counties: CountyShape[];
+  stateBorders: string;
+}
+
+interface PlottedProperty {
+  property: Property;
+  x: number;
+  y: number;
+  status: SubscriptionStatus;
+  replied: boolean;
+  lastWeek: number | null;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function toAtlas(topology: Topology): Atlas {
+  const path = geoPath();
+  const states = feature(topology, topology.objects.states);
+  const counties = feature(topology, topology.objects.counties);
+
+  const stateNames = new Map(
+    ("features" in states ? states.features : [states]).map((state) => [
+      String(state.id),
+      String(state.properties?.name || ""),
+    ])
+  );
+
+  return {
+    counties: ("features" in counties ? counties.features : [counties]).map(
+      (county) => {
+        const id = String(county.id);
+        return {
+          id,
+          name: String(county.properties?.name || ""),
+          state: stateNames.get(id.slice(0, 2)) || "",
+          path: path(county) || "",
+        };
+      }
+    ),
+    stateBorders:
+      path(
+        mesh(topology, topology.objects.states as MeshObject, (a, b) => a !== b)
+      ) || "",
+  };
+}
+
+function legendFor(
+  colorBy: ColorBy,
+  weeks: number[]
+): Array<{ label: string; color: string }> {
+  if (colorBy === "subscription") {
+    return SUBSCRIPTION_STATUSES.map((status) => ({
+      label: SUBSCRIPTION_STATUS_LABELS[status],
+      color: STATUS_COLORS[status],
+    }));
+  }
+  if (colorBy === "reply") {
+    return [
+      { label: "Replied", color: "#9333ea" },
+      { label: "No reply", color: "#2563eb" },
+      { label: "Not emailed", color: NOT_EMAILED },
+    ];
+  }
+  return [
+    ...weeks.map((week) => ({
+      label: `Week ${week}`,
+      color: WEEK_COLORS[(week - 1) % WEEK_COLORS.length],
+    })),
+    { label: "Not emailed", color: NOT_EMAILED },
+  ];
+}
+
+// Zoom to the plotted properties, keeping the map's proportions
+function fitBox(points: PlottedProperty[]): Box {
+  if (points.length === 0) return { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+
+  const width = Math.min(
+    WIDTH,
+    Math.max(spanX + 40, ((spanY + 40) * WIDTH) / HEIGHT, 120)
+  );
+  const height = (width * HEIGHT) / WIDTH;
+  return {
+    x: minX + spanX / 2 - width / 2,
+    y: minY + spanY / 2 - height / 2,
+    width,
+    height,
+  };
+}
+
+interface PropertyMapProps {
+  properties: Property[];
+  emailLogs: EmailLog[];
+  suppressions: Suppression[];
+  area: Set<string> | null; // ids of the properties in the drawn area
+  onSelectArea: (ids: Set<string> | null) => void;
+  onSelectCounty: (state: string, county: string) => void;
+  onSelectProperty: (property: Property) => void;
+}
+
+export function PropertyMap({
+  properties,
+  emailLogs,
+  suppressions,
+  area,
+  onSelectArea,
+  onSelectCounty,
+  onSelectProperty,
+}: PropertyMapProps) {
+  const [atlas, setAtlas] = useState<Atlas | null>(null);
+  const [colorBy, setColorBy] = useState<ColorBy>("subscription");
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [dragStart, setDragStart] = useState<DOMPoint | null>(null);
+  const [dragBox, setDragBox] = useState<Box | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // The county shapes are large, load them only when the map is opened
+  useEffect(() => {
+    let cancelled = false;
+    import("us-atlas/counties-albers-10m.json")
+      .then((module) => {
+        if (!cancelled)
+          setAtlas(toAtlas(module.default as unknown as Topology));
+      })
+      .catch((error) => console.error("Failed to load map:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const points = useMemo(() => {
+    const logsByProperty = new Map<string, EmailLog[]>();
+    for (const log of emailLogs) {
+      const logs = logsByProperty.get(log.property_id) || [];
+      logs.push(log);
+      logsByProperty.set(log.property_id, logs);
+    }
+
+    return properties.flatMap((property): PlottedProperty[] => {
+      if (property.latitude === null || property.longitude === null) {
+        return [];
+      }
+      const position = projection([property.longitude, property.latitude]);
+      if (!position) return [];
+
+      const logs = logsByProperty.get(property.id) || [];
+      return [
+        {
+          property,
+          x: position[0],
+          y: position[1],
+          status: subscriptionStatus(property, suppressions),
+          replied: logs.some((log) => log.replied),
+          lastWeek:
+            logs.length > 0
+              ? Math.max(...logs.map((log) => log.campaign_week))
+              : null,
+        },
+      ];
+    });
+  }, [properties, emailLogs, suppressions]);
+
+  const viewBox = useMemo(() => fitBox(points), [points]);
+  const radius = Math.max(viewBox.width / 250, 0.6);
+
+  const weeks = [
+    ...new Set(
+      points.flatMap((point) => (point.lastWeek ? [point.lastWeek] : []))
+    ),
+  ].sort((a, b) => a - b);
+
+  const colorOf = (point: PlottedProperty) => {
+    if (colorBy === "subscription") {
+      return STATUS_COLORS[point.status];
+    }
+    if (point.lastWeek === null) return NOT_EMAILED;
+    if (colorBy === "reply") return point.replied ? "#9333ea" : "#2563eb";
+    return WEEK_COLORS[(point.lastWeek - 1) % WEEK_COLORS.length];
+  };
+
+  const legend = legendFor(colorBy, weeks);
+
+  // Pointer position in map coordinates
+  const toMapPoint = (event: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current!;
+    const point = new DOMPoint(event.clientX, event.clientY);
+    return point.matrixTransform(svg.getScreenCTM()!.inverse());
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDrawing) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const start = toMapPoint(event);
+    setDragStart(start);
+    setDragBox({ x: start.x, y: start.y, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragStart) return;
+    const current = toMapPoint(event);
+    setDragBox({
+      x: Math.min(dragStart.x, current.x),
+      y: Math.min(dragStart.y, current.y),
+      width: Math.abs(current.x - dragStart.x),
+      height: Math.abs(current.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart || !dragBox) return;
+
+    const ids = new Set(
+      points
+        .filter(
+          (point) =>
+            point.x >= dragBox.x &&
+            point.x <= dragBox.x + dragBox.width &&
+            point.y >= dragBox.y &&
+            point.y <= dragBox.y + dragBox.height
+        )
+        .map((point) => point.property.id)
+    );
+
+    setDragStart(null);
+    setDragBox(null);
+    setIsDrawing(false);
+    if (ids.size > 0) onSelectArea(ids);
+  };
+
+  const unplotted = properties.length - points.length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 md:pb-6">
+        <CardTitle className="flex flex-col md:flex-row items-start md:items-center justify-between gap-2">
+          <div className="flex items-center">
+            <MapIcon className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+            <span className="text-lg md:text-xl">Map</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={colorBy}
+              onValueChange={(value) => setColorBy(value as ColorBy)}
+            >
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COLOR_BY_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={isDrawing ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsDrawing(!isDrawing)}
+              className="text-xs"
+            >
+              <SquareDashedMousePointer className="mr-1 h-3 w-3" />
+              Draw Area
+            </Button>
+            {area && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onSelectArea(null)}
+                className="text-xs"
+              >
+                <X className="mr-1 h-3 w-3" />
+                Clear Area ({area.size})
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+        <CardDescription className="text-sm">
+          {isDrawing
+            ? "Drag across the map to filter the table to that area"
+            : "Click a county to filter the table to it"}
+          {unplotted > 0 &&
+            ` · ${unplotted.toLocaleString()} properties without a known ZIP code or city are not shown`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {atlas ? (
+          <svg
+            ref={svgRef}
+            viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+            className={`w-full h-auto rounded-md border bg-white touch-none ${
+              isDrawing ? "cursor-crosshair" : ""
+            }`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <g>
+              {atlas.counties.map((county) => (
+                <path
+                  key={county.id}
+                  d={county.path}
+                  fill="#f8fafc"
+                  stroke="#e2e8f0"
+                  vectorEffect="non-scaling-stroke"
+                  className={
+                    isDrawing ? "" : "cursor-pointer hover:fill-blue-50"
+                  }
+                  onClick={() =>
+                    !isDrawing && onSelectCounty(county.state, county.name)
+                  }
+                >
+                  <title>{`${county.name}, ${county.state}`}</title>
+                </path>
+              ))}
+            </g>
+            <path
+              d={atlas.stateBorders}
+              fill="none"
+              stroke="#94a3b8"
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="none"
+            />
+            <g>
+              {points.map((point) => (
+                <circle
+                  key={point.property.id}
+                  cx={point.x}
+                  cy={point.y}
+                  r={radius}
+                  fill={colorOf(point)}
+                  fillOpacity={0.85}
+                  stroke="#ffffff"
+                  strokeWidth={0.5}
+                  vectorEffect="non-scaling-stroke"
+                  className={isDrawing ? "" : "cursor-pointer"}
+                  onClick={() => !isDrawing && onSelectProperty(point.property)}
+                >
+                  <title>{point.property.property_address || ""}</title>
+                </circle>
+              ))}
+            </g>
+            {dragBox && (
+              <rect
+                {...dragBox}
+                fill="#3b82f6"
+                fillOpacity={0.1}
+                stroke="#3b82f6"
+                strokeDasharray="4 2"
+                vectorEffect="non-scaling-stroke"
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+        ) : (
+          <div className="flex h-64 items-center justify-center text-sm text-gray-500">
+            Loading map...
+          </div>
+        )}
+
+        <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          {legend.map(({ label, color }) => (
+            <span key={label} className="flex items-center">
+              <span
+                className="mr-1 inline-block h-2.5 w-2.5 rounded-full"
+                style={{ backgroundColor: color }}
+              />
+              {label}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
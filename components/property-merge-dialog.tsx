@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { GitMerge, RefreshCw } from "lucide-react";
+import type { MergeableField, Property } from "@/lib/types";
+
+const MERGE_FIELDS: Array<{ column: MergeableField; label: string }> = [
+  { column: "property_address", label: "Property Address" },
+  { column: "hoa_or_management_company", label: "HOA/Management" },
+  { column: "decision_maker_name", label: "Decision Maker" },
+  { column: "decision_maker_email", label: "Email" },
+  { column: "decision_maker_phone", label: "Phone" },
+  { column: "city", label: "City" },
+  { column: "county", label: "County" },
+  { column: "state", label: "State" },
+  { column: "zip_code", label: "Zip" },
+];
+
+type FieldSources = Record<MergeableField, string>;
+
+// Survivor's own value where it has one, otherwise the first one filled in
+function defaultFieldSources(
+  properties: Property[],
+  survivorId: string
+): FieldSources {
+  const ordered = [
+    ...properties.filter((property) => property.id === survivorId),
+    ...properties.filter((property) => property.id !== survivorId),
+  ];
+
+  return Object.fromEntries(
+    MERGE_FIELDS.map(({ column }) => [
+      column,
+      (ordered.find((property) => property[column]) || ordered[0]).id,
+    ])
+  ) as FieldSources;
+}
+
+// The oldest record keeps its id (and opt-out link) by default
+const oldestId = (properties: Property[]) =>
+  [...properties].sort((a, b) => a.created_at.localeCompare(b.created_at))[0]
+    ?.id;
+
+interface PropertyMergeDialogProps {
+  properties: Property[]; // the selected rows, empty when closed
+  onClose: () => void;
+  onMerge: (survivorId: string, fieldSources: FieldSources) => Promise<void>;
+}
+
+export function PropertyMergeDialog({
+  properties,
+  onClose,
+  onMerge,
+}: PropertyMergeDialogProps) {
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [fieldSources, setFieldSources] = useState<FieldSources | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const open = properties.length >= 2;
+
+  // Start from the defaults every time a new selection is opened
+  useEffect(() => {
+    if (!open) return;
+    const id = oldestId(properties);
+    setSurvivorId(id);
+    setFieldSources(defaultFieldSources(properties, id));
+  }, [open, properties]);
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id);
+    setFieldSources(defaultFieldSources(properties, id));
+  };
+
+  const handleMerge = async () => {
+    if (!survivorId || !fieldSources) return;
+
+    setIsMerging(true);
+    try {
+      await onMerge(survivorId, fieldSources);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const latestSuspension = properties
+    .map((property) => property.suspend_until)
+    .sort()
+    .pop();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <GitMerge className="h-5 w-5" />
+            <span>Merge {properties.length} Properties</span>
+          </DialogTitle>
+          <DialogDescription>
+            Pick the record to keep and, for each field, the value it should end
+            up with. Email history moves to the kept record and the others are
+            deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {survivorId && fieldSources && (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[140px]">Field</TableHead>
+                  {properties.map((property) => (
+                    <TableHead key={property.id} className="min-w-[200px]">
+                      <label className="flex items-center gap-2 cursor-pointer py-2">
+                        <input
+                          type="radio"
+                          name="merge-survivor"
+                          checked={survivorId === property.id}
+                          onChange={() => handleSurvivorChange(property.id)}
+                          disabled={isMerging}
+                        />
+                        <span className="text-xs">
+                          Keep record
+                          <span className="block font-normal text-gray-500">
+                            Created{" "}
+                            {new Date(property.created_at).toLocaleDateString()}
+                          </span>
+                        </span>
+                      </label>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {MERGE_FIELDS.map(({ column, label }) => (
+                  <TableRow key={column}>
+                    <TableCell className="text-sm font-medium">
+                      {label}
+                    </TableCell>
+                    {properties.map((property) => (
+                      <TableCell key={property.id}>
+                        <label className="flex items-start gap-2 cursor-pointer text-sm">
+                          <input
+                            type="radio"
+                            name={`merge-${column}`}
+                            className="mt-1"
+                            checked={fieldSources[column] === property.id}
+                            onChange={() =>
+                              setFieldSources((prev) =>
+                                prev ? { ...prev, [column]: property.id } : prev
+                              )
+                            }
+                            disabled={isMerging}
+                          />
+                          <span className="break-words">
+                            {property[column] || (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </span>
+                        </label>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="text-sm font-medium">
+                    Suspended Until
+                  </TableCell>
+                  {properties.map((property) => (
+                    <TableCell key={property.id} className="text-sm">
+                      {new Date(property.suspend_until).toLocaleDateString()}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {latestSuspension && (
+          <p className="text-xs text-gray-600">
+            The merged property stays suspended until{" "}
+            {new Date(latestSuspension).toLocaleDateString()} (the latest of the
+            selected records).
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isMerging || !survivorId}>
+            {isMerging ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <GitMerge className="mr-2 h-4 w-4" />
+            )}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
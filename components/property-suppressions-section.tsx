@@ -0,0 +1,300 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import type { SuppressionFieldErrors } from "@/hooks/use-suppressions";
+import { Ban, Plus, RefreshCw, Trash2 } from "lucide-react";
+import {
+  SUPPRESSION_REASONS,
+  SUPPRESSION_SCOPES,
+  findSuppressions,
+  suppressionReasonLabel,
+} from "@/lib/suppression-status";
+import type {
+  Property,
+  Suppression,
+  SuppressionInput,
+  SuppressionReason,
+  SuppressionScope,
+} from "@/lib/types";
+
+interface SuppressionForm {
+  scope: SuppressionScope;
+  value: string;
+  reason: SuppressionReason;
+  expiresOn: string; // "YYYY-MM-DD", empty for a permanent suppression
+  note: string;
+}
+
+interface PropertySuppressionsSectionProps {
+  property: Property;
+  suppressions: Suppression[]; // every active suppression
+  onAdd: (input: SuppressionInput) => Promise<SuppressionFieldErrors | null>;
+  onLift: (id: string) => Promise<boolean>;
+}
+
+export function PropertySuppressionsSection({
+  property,
+  suppressions,
+  onAdd,
+  onLift,
+}: PropertySuppressionsSectionProps) {
+  const { isRootUser } = useAuth();
+  const { toast } = useToast();
+
+  const [form, setForm] = useState<SuppressionForm | null>(null);
+  const [errors, setErrors] = useState<SuppressionFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const email = property.decision_maker_email?.trim().toLowerCase() || "";
+  const matching = findSuppressions(suppressions, {
+    propertyId: property.id,
+    emails: [email],
+  });
+
+  // Email and domain suppressions start from the decision maker's address
+  const valueFor = (scope: SuppressionScope) => {
+    if (scope === "email") return email;
+    if (scope === "domain") return email.split("@")[1] || "";
+    return "";
+  };
+
+  const targetOf = (suppression: Suppression) => {
+    if (suppression.scope === "property") return "This property";
+    if (suppression.scope === "domain") return `@${suppression.value}`;
+    return suppression.value;
+  };
+
+  const openForm = () => {
+    setForm({
+      scope: "property",
+      value: "",
+      reason: "do_not_contact",
+      expiresOn: "",
+      note: "",
+    });
+    setErrors({});
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const fieldErrors = await onAdd({
+        scope: form.scope,
+        value: form.scope === "property" ? null : form.value,
+        property_id: form.scope === "property" ? property.id : null,
+        reason: form.reason,
+        note: form.note || null,
+        // Until the end of the chosen day
+        expires_at: form.expiresOn
+          ? new Date(`${form.expiresOn}T23:59:59`).toISOString()
+          : null,
+      });
+
+      if (!fieldErrors) {
+        setForm(null);
+      } else if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+      } else {
+        toast({
+          title: "Suppression Not Saved",
+          description: "Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLift = async (id: string) => {
+    setIsSaving(true);
+    try {
+      if (!(await onLift(id))) {
+        toast({
+          title: "Suppression Not Lifted",
+          description: "Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-sm font-medium">
+          <Ban className="mr-2 h-4 w-4" />
+          Suppressions ({matching.length})
+        </span>
+        {form === null && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openForm}
+            disabled={isSaving}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Suppress
+          </Button>
+        )}
+      </div>
+
+      {matching.length === 0 && form === null && (
+        <p className="text-xs text-gray-500">
+          Nothing stops emails to this property.
+        </p>
+      )}
+
+      {matching.map((suppression) => (
+        <div
+          key={suppression.id}
+          className="flex items-start justify-between gap-2 rounded-md border p-2"
+        >
+          <div className="min-w-0 space-y-0.5 text-sm">
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="font-medium break-all">
+                {targetOf(suppression)}
+              </span>
+              <Badge className="text-xs bg-red-100 text-red-700 hover:bg-red-100">
+                {suppressionReasonLabel(suppression.reason)}
+              </Badge>
+            </div>
+            <p className="text-xs text-gray-600">
+              {suppression.expires_at
+                ? `Until ${new Date(suppression.expires_at).toLocaleDateString()}`
+                : "Permanent"}
+              {` · since ${new Date(suppression.created_at).toLocaleDateString()}`}
+            </p>
+            {suppression.note && (
+              <p className="text-xs text-gray-600">{suppression.note}</p>
+            )}
+          </div>
+          {isRootUser && (
+            <Button
+              size="sm"
+              variant="ghost"
+              title="Lift suppression"
+              onClick={() => handleLift(suppression.id)}
+              disabled={isSaving}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {form !== null && (
+        <div className="space-y-2 rounded-md border bg-gray-50 p-3">
+          <Select
+            value={form.scope}
+            onValueChange={(scope) =>
+              setForm({
+                ...form,
+                scope: scope as SuppressionScope,
+                value: valueFor(scope as SuppressionScope),
+              })
+            }
+            disabled={isSaving}
+          >
+            <SelectTrigger className="h-9 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPRESSION_SCOPES.map(({ scope, label }) => (
+                <SelectItem key={scope} value={scope}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {form.scope !== "property" && (
+            <div>
+              <Input
+                value={form.value}
+                onChange={(e) => setForm({ ...form, value: e.target.value })}
+                placeholder={
+                  form.scope === "domain" ? "example.com" : "Email address"
+                }
+                className="h-9 bg-white"
+                disabled={isSaving}
+              />
+              {errors.value && (
+                <p className="mt-1 text-xs text-red-600">{errors.value}</p>
+              )}
+            </div>
+          )}
+          <Select
+            value={form.reason}
+            onValueChange={(reason) =>
+              setForm({ ...form, reason: reason as SuppressionReason })
+            }
+            disabled={isSaving}
+          >
+            <SelectTrigger className="h-9 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPRESSION_REASONS.map(({ reason, label }) => (
+                <SelectItem key={reason} value={reason}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div>
+            <label className="text-xs text-gray-600">
+              Expires (leave empty for a permanent suppression)
+            </label>
+            <Input
+              type="date"
+              value={form.expiresOn}
+              onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+              className="h-9 bg-white"
+              disabled={isSaving}
+            />
+            {errors.expires_at && (
+              <p className="mt-1 text-xs text-red-600">{errors.expires_at}</p>
+            )}
+          </div>
+          <Input
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            placeholder="Note"
+            className="h-9 bg-white"
+            disabled={isSaving}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving && <RefreshCw className="mr-1 h-4 w-4 animate-spin" />}
+              Suppress
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, X } from "lucide-react";
+import { normalizeKeywords } from "@/lib/inbox/replies";
+
+interface ReplyKeywordsEditorProps {
+  keywords: string[];
+  disabled?: boolean;
+  onChange: (keywords: string[]) => void;
+}
+
+/**
+ * Keywords that make a reply get the proposal PDF as an auto-reply
+ */
+export function ReplyKeywordsEditor({
+  keywords,
+  disabled,
+  onChange,
+}: ReplyKeywordsEditorProps) {
+  const [draft, setDraft] = useState("");
+
+  // Several keywords can be added at once, separated by commas
+  const addDraft = () => {
+    const added = normalizeKeywords(draft.split(","));
+    if (added.length === 0) return;
+
+    onChange(normalizeKeywords([...keywords, ...added]));
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {keywords.length === 0 && (
+          <span className="text-xs text-gray-500 italic">
+            No keywords, replies never get the PDF
+          </span>
+        )}
+        {keywords.map((keyword) => (
+          <Badge key={keyword} variant="secondary" className="text-xs">
+            {keyword}
+            <button
+              type="button"
+              className="ml-1 text-gray-500 hover:text-gray-900 disabled:opacity-50"
+              onClick={() => onChange(keywords.filter((k) => k !== keyword))}
+              disabled={disabled}
+              aria-label={`Remove ${keyword}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2 max-w-sm">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addDraft();
+            }
+          }}
+          placeholder="Add keywords, e.g. proposal, lease longer"
+          className="h-8 text-xs"
+          disabled={disabled}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={addDraft}
+          disabled={disabled || !draft.trim()}
+        >
+          <Plus className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
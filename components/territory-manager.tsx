@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import type { TerritoryFieldErrors } from "@/hooks/use-territories";
+import { MapPinned, Pencil, Plus, RefreshCw, Save, Trash2 } from "lucide-react";
+import type { Territory, TerritoryInput } from "@/lib/types";
+
+// A user territories can be assigned to
+export interface TerritoryOwner {
+  id: string;
+  email: string;
+}
+
+const UNASSIGNED = "unassigned";
+
+interface TerritoryForm {
+  name: string;
+  owner_id: string;
+  states: string;
+  counties: string;
+  zip_codes: string;
+}
+
+const toForm = (territory: Territory | null): TerritoryForm => ({
+  name: territory?.name || "",
+  owner_id: territory?.owner_id || UNASSIGNED,
+  states: territory?.states.join(", ") || "",
+  counties: territory?.counties.join("\n") || "",
+  zip_codes: territory?.zip_codes.join(", ") || "",
+});
+
+// Counties have a comma between county and state, so they go one per line
+const toInput = (form: TerritoryForm): TerritoryInput => ({
+  name: form.name,
+  owner_id: form.owner_id === UNASSIGNED ? null : form.owner_id,
+  states: form.states.split(/[,\n]/),
+  counties: form.counties.split(/[\n;]/),
+  zip_codes: form.zip_codes.split(/[\s,]+/),
+});
+
+const summary = (territory: Territory) =>
+  [...territory.states, ...territory.counties, ...territory.zip_codes].join(
+    " · "
+  ) || "—";
+
+interface TerritoryManagerProps {
+  territories: Territory[];
+  owners: TerritoryOwner[];
+  loading: boolean;
+  // Resolve with field errors the server rejected, or null when saved
+  onSave: (
+    id: string | null,
+    input: TerritoryInput
+  ) => Promise<TerritoryFieldErrors | null>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+export function TerritoryManager({
+  territories,
+  owners,
+  loading,
+  onSave,
+  onDelete,
+}: TerritoryManagerProps) {
+  const { toast } = useToast();
+  // Territory open in the form, null for a new one, undefined when closed
+  const [editing, setEditing] = useState<Territory | null | undefined>();
+  const [form, setForm] = useState<TerritoryForm>(toForm(null));
+  const [errors, setErrors] = useState<TerritoryFieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const ownerEmail = (ownerId: string | null) =>
+    owners.find((owner) => owner.id === ownerId)?.email || null;
+
+  const openForm = (territory: Territory | null) => {
+    setEditing(territory);
+    setForm(toForm(territory));
+    setErrors({});
+  };
+
+  const handleSave = async () => {
+    if (editing === undefined) return;
+
+    setIsSaving(true);
+    try {
+      const fieldErrors = await onSave(editing?.id ?? null, toInput(form));
+      if (fieldErrors) {
+        setErrors(fieldErrors);
+        toast({
+          title: "Territory not saved",
+          description:
+            Object.values(fieldErrors)[0] || "Please try again in a moment.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Territory saved",
+        description: "Properties were reassigned to their territory owners.",
+      });
+      setEditing(undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (territory: Territory) => {
+    if (!(await onDelete(territory.id))) {
+      toast({
+        title: "Territory not deleted",
+        description: "Please try again in a moment.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fields = [
+    {
+      field: "states",
+      label: "States",
+      placeholder: "e.g. Florida, GA",
+      rows: 2,
+    },
+    {
+      field: "counties",
+      label: "Counties (one per line)",
+      placeholder: "e.g. Palm Beach, FL",
+      rows: 3,
+    },
+    {
+      field: "zip_codes",
+      label: "ZIP Codes",
+      placeholder: "e.g. 33401, 33480",
+      rows: 2,
+    },
+  ] as const;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center space-y-3 sm:space-y-0">
+          <div>
+            <CardTitle className="flex items-center text-lg md:text-xl">
+              <MapPinned className="mr-2 h-4 w-4 md:h-5 md:w-5" />
+              Territories
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Properties are assigned to the owner of the territory they fall
+              in: a ZIP code wins over a county, and a county over a state
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Territory
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="px-4 md:px-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : territories.length === 0 ? (
+          <div className="text-center py-8">
+            <MapPinned className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600">
+              No territories yet, everyone works the whole property list
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Territory</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {territories.map((territory) => (
+                  <TableRow key={territory.id}>
+                    <TableCell className="font-medium">
+                      {territory.name}
+                    </TableCell>
+                    <TableCell>
+                      {ownerEmail(territory.owner_id) || (
+                        <span className="text-gray-400 italic text-sm">
+                          Unassigned
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-md text-sm text-gray-600">
+                      {summary(territory)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openForm(territory)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDelete(territory)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={editing !== undefined}
+        onOpenChange={(open) => !open && setEditing(undefined)}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? "Edit Territory" : "Add Territory"}
+            </DialogTitle>
+            <DialogDescription>
+              States by name or abbreviation, counties as &quot;County,
+              State&quot;.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="territory-name" className="text-xs">
+                Name *
+              </Label>
+              <Input
+                id="territory-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. South Florida"
+              />
+              {errors.name && (
+                <p className="text-xs text-red-600">{errors.name}</p>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs">Owner</Label>
+              <Select
+                value={form.owner_id}
+                onValueChange={(value) => setForm({ ...form, owner_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.owner_id && (
+                <p className="text-xs text-red-600">{errors.owner_id}</p>
+              )}
+            </div>
+
+            {fields.map(({ field, label, placeholder, rows }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`territory-${field}`} className="text-xs">
+                  {label}
+                </Label>
+                <Textarea
+                  id={`territory-${field}`}
+                  value={form[field]}
+                  onChange={(e) =>
+                    setForm({ ...form, [field]: e.target.value })
+                  }
+                  placeholder={placeholder}
+                  rows={rows}
+                  className="resize-none"
+                />
+                {errors[field] && (
+                  <p className="text-xs text-red-600">{errors[field]}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setEditing(undefined)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, MailX, XCircle } from "lucide-react";
+import type { UnsubscribeOutcome } from "@/lib/types";
+
+// Who the contact unsubscribed from, as signed on the campaign emails
+const SENDER = {
+  name: "Lyndon S.",
+  company: "Total Body Mobile Massage – Outreach Team",
+  email: "tbmmoutreach@gmail.com",
+  website: "www.totalbodymobilemassage.com",
+};
+
+const OUTCOMES: Record<
+  UnsubscribeOutcome,
+  {
+    icon: typeof CheckCircle2;
+    iconClassName: string;
+    title: string;
+    description: string;
+    message: string;
+  }
+> = {
+  unsubscribed: {
+    icon: CheckCircle2,
+    iconClassName: "text-green-600",
+    title: "Successfully Unsubscribed",
+    description: "You have unsubscribed from:",
+    message: "You will no longer receive communications from this service.",
+  },
+  already_unsubscribed: {
+    icon: AlertTriangle,
+    iconClassName: "text-amber-500",
+    title: "Already Unsubscribed",
+    description: "You have already unsubscribed from:",
+    message:
+      "You are already unsubscribed from this service. Contact the sender if you still receive emails.",
+  },
+  invalid: {
+    icon: XCircle,
+    iconClassName: "text-red-600",
+    title: "Invalid Unsubscribe Link",
+    description:
+      "The link has been modified, or the unsubscribe code is incorrect. To unsubscribe, contact the sender directly:",
+    message:
+      "For your protection, only use unsubscribe links from emails you trust and do not modify them.",
+  },
+};
+
+// Page layout shared by the confirmation and the result
+function UnsubscribeCard({
+  icon: Icon,
+  iconClassName,
+  title,
+  description,
+  children,
+}: {
+  icon: typeof CheckCircle2;
+  iconClassName: string;
+  title: string;
+  description: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100 flex items-center justify-center py-8 px-4">
+      <Card className="max-w-lg w-full shadow-xl border-0 ring-1 ring-gray-200/50">
+        <CardHeader className="text-center">
+          <Icon className={`h-16 w-16 mx-auto mb-2 ${iconClassName}`} />
+          <CardTitle className="text-2xl font-bold text-gray-900">
+            {title}
+          </CardTitle>
+          <CardDescription className="text-gray-600">
+            {description}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-lg bg-gray-50 p-4 text-sm space-y-1">
+            <p className="font-semibold text-gray-900">{SENDER.name}</p>
+            <p className="text-gray-600">{SENDER.company}</p>
+            <p>
+              <span className="text-gray-500">Email: </span>
+              <a
+                href={`mailto:${SENDER.email}`}
+                className="text-blue-600 hover:underline"
+              >
+                {SENDER.email}
+              </a>
+            </p>
+            <p>
+              <span className="text-gray-500">Website: </span>
+              <a
+                href={`https://${SENDER.website}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-600 hover:underline"
+              >
+                {SENDER.website}
+              </a>
+            </p>
+          </div>
+          {children}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Asks the contact to confirm, the button POSTs the form to `action`
+export function UnsubscribeConfirm({ action }: { action: string }) {
+  return (
+    <UnsubscribeCard
+      icon={MailX}
+      iconClassName="text-blue-600"
+      title="Unsubscribe"
+      description="Stop receiving emails from:"
+    >
+      <form method="post" action={action} className="text-center">
+        <Button type="submit" className="w-full">
+          Unsubscribe
+        </Button>
+      </form>
+    </UnsubscribeCard>
+  );
+}
+
+export function UnsubscribeResult({
+  outcome,
+}: {
+  outcome: UnsubscribeOutcome;
+}) {
+  const { message, ...card } = OUTCOMES[outcome];
+
+  return (
+    <UnsubscribeCard {...card}>
+      <p className="text-center text-sm text-gray-600">{message}</p>
+    </UnsubscribeCard>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from "react";
+import type { DeadLetterItem } from "@/lib/types";
+
+export function useDeadLetter() {
+  const [items, setItems] = useState<DeadLetterItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/process-properties/dead-letter");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch failed properties");
+      }
+
+      const data: { items: DeadLetterItem[] } = await response.json();
+      setItems(data.items || []);
+    } catch (err) {
+      console.error("Error fetching dead-letter items:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  // Re-queue the given items, or every failed item when none are given.
+  // Returns the ids of the jobs that were reopened, or null on failure.
+  const requeue = useCallback(
+    async (itemIds?: string[]) => {
+      try {
+        const response = await fetch("/api/process-properties/dead-letter", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ itemIds }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to re-queue properties");
+        }
+
+        const data: { jobIds: string[] } = await response.json();
+        await fetchItems();
+        return data.jobIds;
+      } catch (err) {
+        console.error("Error re-queuing dead-letter items:", err);
+        return null;
+      }
+    },
+    [fetchItems]
+  );
+
+  return {
+    items,
+    loading,
+    error,
+    requeue,
+    refresh: fetchItems,
+  };
+}
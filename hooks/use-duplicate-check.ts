@@ -0,0 +1,58 @@
+import { useState, useEffect } from "react";
+import type { NameDuplicate } from "@/lib/types";
+
+// Wait for typing to settle before asking the server again
+const CHECK_DELAY_MS = 800;
+
+/**
+ * Likely duplicates among the names on the upload page, against saved
+ * properties in the parent address' region and against each other
+ */
+export function useDuplicateCheck(names: string[], parentAddress: string) {
+  const [duplicates, setDuplicates] = useState<Map<string, NameDuplicate>>(
+    new Map()
+  );
+
+  const namesKey = JSON.stringify(names);
+
+  useEffect(() => {
+    const currentNames: string[] = JSON.parse(namesKey);
+    if (currentNames.length === 0) {
+      setDuplicates(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/property-duplicates/check", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            names: currentNames,
+            parentAddress: parentAddress.trim(),
+          }),
+        });
+        if (!response.ok) return;
+
+        const data: { duplicates: NameDuplicate[] } = await response.json();
+        if (!cancelled) {
+          setDuplicates(
+            new Map(data.duplicates.map((match) => [match.name, match]))
+          );
+        }
+      } catch (err) {
+        console.error("Error checking names for duplicates:", err);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [namesKey, parentAddress]);
+
+  return duplicates;
+}
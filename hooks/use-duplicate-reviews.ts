@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from "react";
+import type { DuplicateReview } from "@/lib/types";
+
+export function useDuplicateReviews() {
+  const [reviews, setReviews] = useState<DuplicateReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviews = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/property-duplicates");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch duplicate reviews");
+      }
+
+      const data: { reviews: DuplicateReview[] } = await response.json();
+      setReviews(data.reviews || []);
+    } catch (err) {
+      console.error("Error fetching duplicate reviews:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  // Insert the held-back property or confirm it is a duplicate.
+  // Returns false when the review could not be resolved.
+  const resolve = useCallback(
+    async (reviewId: string, action: "insert" | "dismiss") => {
+      try {
+        const response = await fetch("/api/property-duplicates", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ reviewId, action }),
+        });
+
+        await fetchReviews();
+        return response.ok;
+      } catch (err) {
+        console.error("Error resolving duplicate review:", err);
+        return false;
+      }
+    },
+    [fetchReviews]
+  );
+
+  return {
+    reviews,
+    loading,
+    error,
+    resolve,
+    refresh: fetchReviews,
+  };
+}
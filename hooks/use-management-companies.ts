@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ManagementCompany } from "@/lib/types";
+
+export type CompanyContact = {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  phone_ext: string | null;
+};
+
+export function useManagementCompanies() {
+  const [companies, setCompanies] = useState<ManagementCompany[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCompanies = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/management-companies");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch management companies");
+      }
+
+      const data: { companies: ManagementCompany[] } = await response.json();
+      setCompanies(data.companies || []);
+    } catch (err) {
+      console.error("Error fetching management companies:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCompanies();
+  }, [fetchCompanies]);
+
+  // Save the company-level contact, resolves with the field errors the
+  // server rejected (empty when it failed otherwise) or null when saved
+  const updateContact = useCallback(
+    async (
+      companyId: string,
+      contact: CompanyContact
+    ): Promise<Partial<Record<keyof CompanyContact, string>> | null> => {
+      try {
+        const response = await fetch(`/api/management-companies/${companyId}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(contact),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          return data.fieldErrors || {};
+        }
+
+        setCompanies((prev) =>
+          prev.map((company) =>
+            company.id === companyId ? data.company : company
+          )
+        );
+        return null;
+      } catch (err) {
+        console.error("Error updating management company:", err);
+        return {};
+      }
+    },
+    []
+  );
+
+  return {
+    companies,
+    loading,
+    error,
+    updateContact,
+    refresh: fetchCompanies,
+  };
+}
@@ -0,0 +1,130 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ProcessingJob, ProcessingJobProgress } from "@/lib/types";
+
+// Remember the job being watched so the panel survives page reloads
+const ACTIVE_JOB_STORAGE_KEY = "processing-job-id";
+const POLL_INTERVAL_MS = 3000;
+
+// Make the upload page's progress panel follow a job started elsewhere
+export function rememberProcessingJob(jobId: string) {
+  window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
+}
+
+export function useProcessingJob() {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProcessingJobProgress | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Pick up the stored job, or the user's latest unfinished job
+  useEffect(() => {
+    const restoreJob = async () => {
+      const storedJobId = window.localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+      if (storedJobId) {
+        setJobId(storedJobId);
+        return;
+      }
+
+      try {
+        const response = await fetch("/api/process-properties");
+        if (!response.ok) return;
+
+        const data: { jobs: ProcessingJob[] } = await response.json();
+        const activeJob = data.jobs?.find((job) => job.status !== "completed");
+        if (activeJob) {
+          window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, activeJob.id);
+          setJobId(activeJob.id);
+        }
+      } catch (err) {
+        console.error("Error restoring processing job:", err);
+      }
+    };
+
+    restoreJob();
+  }, []);
+
+  const fetchProgress = useCallback(async () => {
+    if (!jobId) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/process-properties/${jobId}`);
+
+      if (response.status === 404) {
+        // Job was deleted or belongs to someone else - stop watching it
+        window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+        setJobId(null);
+        setProgress(null);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch processing progress");
+      }
+
+      const data: ProcessingJobProgress = await response.json();
+      setProgress(data);
+    } catch (err) {
+      console.error("Error fetching processing progress:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  // Poll until the job is completed
+  const isCompleted = progress?.job.status === "completed";
+  useEffect(() => {
+    if (!jobId) return;
+
+    fetchProgress();
+    if (isCompleted) return;
+
+    const interval = setInterval(fetchProgress, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [jobId, isCompleted, fetchProgress]);
+
+  const trackJob = useCallback((newJobId: string) => {
+    window.localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, newJobId);
+    setLoading(true);
+    setProgress(null);
+    setJobId(newJobId);
+  }, []);
+
+  const dismiss = useCallback(() => {
+    window.localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setJobId(null);
+    setProgress(null);
+    setError(null);
+  }, []);
+
+  // Ask the worker to pick the job up again (e.g. after a timeout)
+  const resume = useCallback(async () => {
+    if (!jobId) return false;
+
+    try {
+      const response = await fetch("/api/process-properties/worker", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId }),
+      });
+      return response.ok;
+    } catch (err) {
+      console.error("Error resuming processing job:", err);
+      return false;
+    }
+  }, [jobId]);
+
+  return {
+    jobId,
+    progress,
+    loading,
+    error,
+    trackJob,
+    dismiss,
+    resume,
+    refresh: fetchProgress,
+  };
+}
@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from "react";
+import type {
+  Property,
+  PropertyContact,
+  PropertyContactInput,
+} from "@/lib/types";
+
+export type ContactFieldErrors = Partial<
+  Record<keyof PropertyContactInput, string>
+>;
+
+// The property comes back too since its decision maker follows the
+// primary contact
+export type ContactChangeResult =
+  | { success: true; property: Property }
+  | { success: false; error: string; fieldErrors?: ContactFieldErrors };
+
+export function usePropertyContacts(propertyId: string | null) {
+  const [contacts, setContacts] = useState<PropertyContact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchContacts = useCallback(async () => {
+    if (!propertyId) {
+      setContacts([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setError(null);
+      const response = await fetch(`/api/properties/${propertyId}/contacts`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch contacts");
+      }
+
+      const data: { contacts: PropertyContact[] } = await response.json();
+      setContacts(data.contacts || []);
+    } catch (err) {
+      console.error("Error fetching contacts:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const send = useCallback(
+    async (
+      path: string,
+      method: "POST" | "PATCH" | "DELETE",
+      body?: PropertyContactInput
+    ): Promise<ContactChangeResult> => {
+      try {
+        const response = await fetch(
+          `/api/properties/${propertyId}/contacts${path}`,
+          {
+            method,
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: body ? JSON.stringify(body) : undefined,
+          }
+        );
+
+        const data = await response.json();
+        if (!response.ok) {
+          return {
+            success: false,
+            error: data.error || "Failed to save contact",
+            fieldErrors: data.fieldErrors,
+          };
+        }
+
+        setContacts(data.contacts || []);
+        return { success: true, property: data.property };
+      } catch (err) {
+        console.error("Error saving contact:", err);
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : "Failed to save contact",
+        };
+      }
+    },
+    [propertyId]
+  );
+
+  const add = useCallback(
+    (input: PropertyContactInput) => send("", "POST", input),
+    [send]
+  );
+
+  const update = useCallback(
+    (contactId: string, changes: PropertyContactInput) =>
+      send(`/${contactId}`, "PATCH", changes),
+    [send]
+  );
+
+  const remove = useCallback(
+    (contactId: string) => send(`/${contactId}`, "DELETE"),
+    [send]
+  );
+
+  return {
+    contacts,
+    loading,
+    error,
+    add,
+    update,
+    remove,
+    refresh: fetchContacts,
+  };
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Suppression, SuppressionInput } from "@/lib/types";
+
+export type SuppressionFieldErrors = Partial<
+  Record<keyof SuppressionInput, string>
+>;
+
+export function useSuppressions() {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuppressions = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/suppressions");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch suppressions");
+      }
+
+      const data: { suppressions: Suppression[] } = await response.json();
+      setSuppressions(data.suppressions || []);
+    } catch (err) {
+      console.error("Error fetching suppressions:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  // Resolves with the field errors the server rejected (empty when it
+  // failed otherwise) or null when saved
+  const addSuppression = useCallback(
+    async (input: SuppressionInput): Promise<SuppressionFieldErrors | null> => {
+      try {
+        const response = await fetch("/api/suppressions", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(input),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          return data.fieldErrors || {};
+        }
+
+        setSuppressions((prev) => [data.suppression, ...prev]);
+        return null;
+      } catch (err) {
+        console.error("Error adding suppression:", err);
+        return {};
+      }
+    },
+    []
+  );
+
+  const liftSuppression = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/suppressions/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to lift suppression");
+      }
+
+      setSuppressions((prev) =>
+        prev.filter((suppression) => suppression.id !== id)
+      );
+      return true;
+    } catch (err) {
+      console.error("Error lifting suppression:", err);
+      return false;
+    }
+  }, []);
+
+  return {
+    suppressions,
+    loading,
+    error,
+    addSuppression,
+    liftSuppression,
+    refresh: fetchSuppressions,
+  };
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Territory, TerritoryInput } from "@/lib/types";
+
+export type TerritoryFieldErrors = Partial<
+  Record<keyof TerritoryInput, string>
+>;
+
+export function useTerritories() {
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTerritories = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch("/api/territories");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch territories");
+      }
+
+      const data: { territories: Territory[] } = await response.json();
+      setTerritories(data.territories || []);
+    } catch (err) {
+      console.error("Error fetching territories:", err);
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTerritories();
+  }, [fetchTerritories]);
+
+  // Create a territory (no id) or replace one, resolves with the field
+  // errors the server rejected (empty when it failed otherwise) or null
+  // when saved
+  const saveTerritory = useCallback(
+    async (
+      id: string | null,
+      input: TerritoryInput
+    ): Promise<TerritoryFieldErrors | null> => {
+      try {
+        const response = await fetch(
+          id ? `/api/territories/${id}` : "/api/territories",
+          {
+            method: id ? "PATCH" : "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(input),
+          }
+        );
+
+        const data = await response.json();
+        if (!response.ok) {
+          return data.fieldErrors || {};
+        }
+
+        setTerritories((prev) =>
+          [
+            ...prev.filter((territory) => territory.id !== data.territory.id),
+            data.territory,
+          ].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        return null;
+      } catch (err) {
+        console.error("Error saving territory:", err);
+        return {};
+      }
+    },
+    []
+  );
+
+  const deleteTerritory = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/territories/${id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete territory");
+      }
+
+      setTerritories((prev) => prev.filter((territory) => territory.id !== id));
+      return true;
+    } catch (err) {
+      console.error("Error deleting territory:", err);
+      return false;
+    }
+  }, []);
+
+  return {
+    territories,
+    loading,
+    error,
+    saveTerritory,
+    deleteTerritory,
+    refresh: fetchTerritories,
+  };
+}
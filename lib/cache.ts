@@ -5,6 +5,7 @@ import type {
   EmailTemplate,
   EmailLog,
   CampaignProgress,
+  ContactRole,
   DashboardStats,
   PDFProposal,
 } from "@/lib/types";
@@ -282,6 +283,7 @@ class DataCache {
         const { data, error } = await this.supabase
           .from("properties")
           .select("*")
+          .is("deleted_at", null)
           .order("created_at", { ascending: false });
 
         if (error) {
@@ -330,10 +332,12 @@ class DataCache {
               property_address,
               decision_maker_name,
               decision_maker_email,
+              decision_maker_phone,
               state,
               city,
               county,
-              zip_code
+              zip_code,
+              owner_id
             ),
             email_templates(
               id,
@@ -424,6 +428,7 @@ class DataCache {
             await this.supabase
               .from("properties")
               .select("id")
+              .is("deleted_at", null)
               .order("created_at", { ascending: false });
 
           if (!propertiesError && propertiesData) {
@@ -638,6 +643,67 @@ class DataCache {
     }
   }
 
+  // Contact roles the campaign is sent to
+  async updateRecipientRoles(roles: ContactRole[]): Promise<void> {
+    const userId = await this.ensureUserContext();
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const campaignProgress = await this.getCampaignProgress();
+    if (!campaignProgress) {
+      throw new Error("No campaign progress found");
+    }
+
+    const { error } = await this.supabase
+      .from("campaign_progress")
+      .update({ recipient_roles: roles })
+      .eq("id", campaignProgress.id);
+
+    if (error) {
+      throw new Error(`Failed to update recipient roles: ${error.message}`);
+    }
+
+    this.cache.campaignProgress = {
+      data: { ...campaignProgress, recipient_roles: roles },
+      timestamp: Date.now(),
+      userId,
+    };
+
+    // Notify React hooks about the change
+    this.notifyCacheChange();
+  }
+
+  async updateReplyKeywords(keywords: string[]): Promise<void> {
+    const userId = await this.ensureUserContext();
+    if (!userId) {
+      throw new Error("User not authenticated");
+    }
+
+    const campaignProgress = await this.getCampaignProgress();
+    if (!campaignProgress) {
+      throw new Error("No campaign progress found");
+    }
+
+    const { error } = await this.supabase
+      .from("campaign_progress")
+      .update({ reply_keywords: keywords })
+      .eq("id", campaignProgress.id);
+
+    if (error) {
+      throw new Error(`Failed to update reply keywords: ${error.message}`);
+    }
+
+    this.cache.campaignProgress = {
+      data: { ...campaignProgress, reply_keywords: keywords },
+      timestamp: Date.now(),
+      userId,
+    };
+
+    // Notify React hooks about the change
+    this.notifyCacheChange();
+  }
+
   // Get currently selected PDF URL
   async getSelectedPdfUrl(): Promise<string | null> {
     const userId = await this.ensureUserContext();
@@ -988,6 +1054,78 @@ class DataCache {
     }
   }
 
+  updatePropertyInCache(updatedProperty: Property): void {
+    try {
+      const entry = this.cache.properties;
+      if (entry && !this.isExpired(entry) && this.isSameUser(entry)) {
+        console.log(
+          `🔄 [CACHE UPDATE] Property updated: ${updatedProperty.id}`
+        );
+        const updatedData = entry.data.map((property) =>
+          property.id === updatedProperty.id ? updatedProperty : property
+        );
+        this.cache.properties = {
+          ...entry,
+          data: updatedData,
+          timestamp: Date.now(),
+        };
+      }
+
+      // Email logs embed their property, keep those in step too
+      const logsEntry = this.cache.emailLogs;
+      if (logsEntry && this.isValidCache(logsEntry)) {
+        this.cache.emailLogs = {
+          ...logsEntry,
+          data: logsEntry.data.map((log) =>
+            log.property_id === updatedProperty.id
+              ? { ...log, properties: updatedProperty }
+              : log
+          ),
+        };
+      }
+    } catch (error) {
+      console.error("Error updating property in cache:", error);
+    }
+  }
+
+  addPropertyToCache(newProperty: Property): void {
+    try {
+      const entry = this.cache.properties;
+      if (entry && !this.isExpired(entry) && this.isSameUser(entry)) {
+        console.log(`➕ [CACHE ADD] Property added: ${newProperty.id}`);
+        const updatedData = [newProperty, ...entry.data];
+        this.cache.properties = {
+          ...entry,
+          data: updatedData,
+          timestamp: Date.now(),
+        };
+      }
+      this.invalidateDashboardStats();
+    } catch (error) {
+      console.error("Error adding property to cache:", error);
+    }
+  }
+
+  removePropertyFromCache(propertyId: string): void {
+    try {
+      const entry = this.cache.properties;
+      if (entry && !this.isExpired(entry) && this.isSameUser(entry)) {
+        console.log(`🗑️ [CACHE REMOVE] Property removed: ${propertyId}`);
+        const updatedData = entry.data.filter(
+          (property) => property.id !== propertyId
+        );
+        this.cache.properties = {
+          ...entry,
+          data: updatedData,
+          timestamp: Date.now(),
+        };
+      }
+      this.invalidateDashboardStats();
+    } catch (error) {
+      console.error("Error removing property from cache:", error);
+    }
+  }
+
   // Private invalidate methods used only internally by refresh methods
   private invalidateProperties(): void {
     this.cache.properties = null;
@@ -0,0 +1,349 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectAll, selectPages } from "@/lib/supabase/paging";
+import { createSuppression } from "@/lib/suppressions";
+import {
+  getCampaignConfig,
+  getCampaignTransport,
+  mergeFieldValues,
+  renderCampaignEmail,
+  templateForWeek,
+  type CampaignRunResult,
+  type CampaignTransport,
+} from "@/lib/campaign";
+import type { CampaignProgress, EmailTemplate } from "@/lib/types";
+
+/**
+ * Sends the weekly campaign email (replaces the Send-Emails n8n workflow).
+ * Each run emails the contacts in the `campaign_recipients` view (which
+ * leaves out suppressed ones) whose property is not suspended, with the
+ * template of the current campaign week, and logs every email in
+ * `email_logs`. Contacts already logged for the week are skipped, so a run
+ * that stops half way (timeout, redeploy) is resumed by running it again;
+ * the week only moves on once the whole list has been sent without
+ * failures. Only one run sends at a time. Addresses the mail server
+ * rejects outright are suppressed as bounced.
+ */
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const today = () => new Date().toISOString().split("T")[0];
+
+interface CampaignRecipient {
+  property_id: string;
+  contact_id: string;
+  name: string | null;
+  email: string;
+  opt_out_code: string;
+  // Merge field values
+  property_address: string | null;
+  city: string | null;
+  county: string | null;
+  state: string | null;
+  hoa_or_management_company: string | null;
+}
+
+// The mail server refused the address itself (5xx to RCPT TO), as opposed
+// to a connection, authentication or temporary failure
+const isRejectedRecipient = (error: unknown) => {
+  const { command, responseCode } = (error || {}) as {
+    command?: string;
+    responseCode?: number;
+  };
+  return command === "RCPT TO" && !!responseCode && responseCode >= 500;
+};
+
+// Contacts (and, for emails logged before contacts existed, properties)
+// already emailed in a campaign week
+async function getSentThisWeek(week: number) {
+  const supabase = await createClient();
+  const contacts = new Set<string>();
+  const properties = new Set<string>();
+
+  for await (const logs of selectPages("email logs", () =>
+    supabase
+      .from("email_logs")
+      .select("id, property_id, contact_id")
+      .eq("campaign_week", week)
+  )) {
+    for (const log of logs) {
+      if (log.contact_id) contacts.add(log.contact_id);
+      else properties.add(log.property_id);
+    }
+  }
+
+  return { contacts, properties };
+}
+
+// Contacts the campaign goes to whose property is not suspended
+async function getEligibleRecipients(): Promise<CampaignRecipient[]> {
+  const supabase = await createClient();
+  return selectAll<CampaignRecipient>(
+    "campaign recipients",
+    () =>
+      supabase
+        .from("campaign_recipients")
+        .select(
+          "property_id, contact_id, name, email, opt_out_code, property_address, city, county, state, hoa_or_management_company"
+        )
+        .lte("suspend_until", today()),
+    "contact_id"
+  );
+}
+
+// A run holds campaign_progress.running_since while it sends; a lease
+// older than this belongs to a run that died
+const RUN_LEASE_MS = 10 * 60 * 1000; // 10 minutes
+
+// Claim the campaign for this run, null when another run holds it
+async function claimCampaignRun(progressId: number): Promise<string | null> {
+  const supabase = await createClient();
+  const lease = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - RUN_LEASE_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("campaign_progress")
+    .update({ running_since: lease })
+    .eq("id", progressId)
+    .or(`running_since.is.null,running_since.lt.${staleBefore}`)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to claim campaign run: ${error.message}`);
+  }
+  return (data || []).length > 0 ? lease : null;
+}
+
+// Extend a run's lease, null when it was lost
+async function renewCampaignRun(
+  progressId: number,
+  lease: string
+): Promise<string | null> {
+  const supabase = await createClient();
+  const renewed = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("campaign_progress")
+    .update({ running_since: renewed })
+    .eq("id", progressId)
+    .eq("running_since", lease)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to renew campaign run: ${error.message}`);
+  }
+  return (data || []).length > 0 ? renewed : null;
+}
+
+async function releaseCampaignRun(progressId: number, lease: string) {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("campaign_progress")
+    .update({ running_since: null })
+    .eq("id", progressId)
+    .eq("running_since", lease);
+
+  if (error) {
+    console.error("Failed to release campaign run:", error);
+  }
+}
+
+/**
+ * Send the current campaign week to every eligible contact not emailed yet,
+ * until the deadline. Scheduled runs only start a new week once
+ * CAMPAIGN_INTERVAL_DAYS have passed since the last one finished; a week
+ * already under way is always resumed.
+ */
+export async function runCampaign({
+  deadline = Infinity,
+  scheduled = false,
+  transport = getCampaignTransport(),
+}: {
+  deadline?: number;
+  scheduled?: boolean;
+  transport?: CampaignTransport;
+} = {}): Promise<CampaignRunResult> {
+  const supabase = await createClient();
+  const config = getCampaignConfig();
+
+  // Unsubscribe links must be absolute
+  if (!config.appUrl) {
+    throw new Error("NEXT_PUBLIC_APP_URL environment variable is not set");
+  }
+
+  const [progressResult, templatesResult] = await Promise.all([
+    supabase
+      .from("campaign_progress")
+      .select("*")
+      .order("id", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase.from("email_templates").select("*").eq("is_active", true),
+  ]);
+
+  if (progressResult.error || templatesResult.error) {
+    throw new Error(
+      `Failed to load campaign: ${
+        progressResult.error?.message || templatesResult.error?.message
+      }`
+    );
+  }
+
+  const progress = progressResult.data as CampaignProgress | null;
+  const week = progress?.current_week || 1;
+  const template = templateForWeek(
+    (templatesResult.data || []) as EmailTemplate[],
+    week
+  );
+  const result: CampaignRunResult = {
+    week,
+    templateId: template?.id ?? null,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    remaining: 0,
+    advanced: false,
+  };
+
+  if (!progress) {
+    return { ...result, reason: "No campaign progress row" };
+  }
+  if (!template) {
+    return { ...result, reason: "No active email template" };
+  }
+
+  // One run at a time, two would both email the contacts not logged yet
+  let lease = await claimCampaignRun(progress.id);
+  if (!lease) {
+    return { ...result, reason: "Another campaign run is under way" };
+  }
+
+  try {
+    const sentThisWeek = await getSentThisWeek(week);
+    const underWay =
+      sentThisWeek.contacts.size > 0 || sentThisWeek.properties.size > 0;
+    const nextWeekAt =
+      new Date(progress.last_sent_at).getTime() +
+      config.intervalDays * 24 * 60 * 60 * 1000;
+
+    if (scheduled && !underWay && Date.now() < nextWeekAt) {
+      return { ...result, reason: "The next campaign week is not due yet" };
+    }
+
+    const recipients = (await getEligibleRecipients()).filter((recipient) => {
+      const sent =
+        sentThisWeek.contacts.has(recipient.contact_id) ||
+        sentThisWeek.properties.has(recipient.property_id);
+      if (sent) result.skipped++;
+      return !sent;
+    });
+
+    // Failures other than rejected addresses (server down, bad credentials)
+    let retryable = 0;
+
+    console.log(
+      `📨 Sending campaign week ${week} ("${template.template_name}") to ${recipients.length} contacts through ${transport.name}`
+    );
+
+    for (let i = 0; i < recipients.length; i += config.batchSize) {
+      if (i > 0) {
+        // Stop early rather than wake up after the deadline
+        if (Date.now() + config.batchDelayMs >= deadline) {
+          result.remaining = recipients.length - i;
+          break;
+        }
+        await delay(config.batchDelayMs);
+
+        lease = await renewCampaignRun(progress.id, lease);
+        if (!lease) {
+          throw new Error("Lost the campaign run to another run");
+        }
+      }
+
+      for (const recipient of recipients.slice(i, i + config.batchSize)) {
+        const { subject, html } = renderCampaignEmail(template, {
+          unsubscribeUrl: `${config.appUrl}/unsubscribe/${recipient.opt_out_code}`,
+          values: mergeFieldValues(recipient, recipient.name),
+        });
+
+        let messageId: string;
+        try {
+          ({ messageId } = await transport.send({
+            to: recipient.email,
+            subject,
+            html,
+            // One-click unsubscribe from the mail client (RFC 8058)
+            headers: {
+              "List-Unsubscribe": `<${config.appUrl}/api/unsubscribe/${recipient.opt_out_code}>`,
+              "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+            },
+          }));
+        } catch (error) {
+          console.error(`❌ Failed to send to ${recipient.email}:`, error);
+          result.failed++;
+
+          if (!isRejectedRecipient(error)) {
+            retryable++;
+          } else {
+            await createSuppression({
+              scope: "email",
+              value: recipient.email.toLowerCase(),
+              property_id: null,
+              reason: "bounced",
+              note:
+                error instanceof Error ? error.message.slice(0, 1000) : null,
+              expires_at: null,
+            });
+          }
+          continue;
+        }
+
+        // The Message-ID doubles as the thread id replies are matched on
+        const { error } = await supabase.from("email_logs").insert({
+          property_id: recipient.property_id,
+          contact_id: recipient.contact_id,
+          template_id: template.id,
+          campaign_week: week,
+          email_id: messageId,
+          thread_id: messageId,
+        });
+
+        // Without the log the contact would be emailed again on the next run
+        if (error) {
+          throw new Error(
+            `Failed to log email to ${recipient.email}: ${error.message}`
+          );
+        }
+
+        result.sent++;
+      }
+    }
+
+    if (retryable > 0) {
+      // Contacts without a log are sent again by the next run
+      result.reason = `${retryable} emails failed, the week stays open`;
+    } else if (result.remaining === 0) {
+      // Only the run that finishes the week moves it on
+      const { data, error } = await supabase
+        .from("campaign_progress")
+        .update({
+          current_week: week + 1,
+          last_sent_at: new Date().toISOString(),
+        })
+        .eq("id", progress.id)
+        .eq("current_week", week)
+        .select("id");
+
+      if (error) {
+        throw new Error(`Failed to advance campaign week: ${error.message}`);
+      }
+      result.advanced = (data || []).length > 0;
+    }
+  } finally {
+    if (lease) await releaseCampaignRun(progress.id, lease);
+  }
+
+  console.log(
+    `✅ Campaign week ${week}: ${result.sent} sent, ${result.failed} failed, ${result.skipped} already sent, ${result.remaining} left`
+  );
+  return result;
+}
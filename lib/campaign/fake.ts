@@ -0,0 +1,31 @@
+import { randomUUID } from "node:crypto";
+import type { CampaignMessage, CampaignTransport } from "@/lib/campaign/types";
+
+/**
+ * Offline transport for development and tests. Nothing leaves the server:
+ * messages are kept in `sent` and logged, and addresses at the reserved
+ * `.invalid` TLD fail like a rejected recipient.
+ */
+export function createFakeTransport(): CampaignTransport & {
+  sent: CampaignMessage[];
+} {
+  const sent: CampaignMessage[] = [];
+
+  return {
+    name: "fake",
+    sent,
+    async send(message) {
+      if (message.to.toLowerCase().endsWith(".invalid")) {
+        // Shaped like nodemailer's SMTP errors
+        throw Object.assign(new Error(`Recipient ${message.to} rejected`), {
+          command: "RCPT TO",
+          responseCode: 550,
+        });
+      }
+
+      sent.push(message);
+      console.log(`📭 [FAKE] "${message.subject}" to ${message.to}`);
+      return { messageId: `<${randomUUID()}@fake.localhost>` };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { createFakeTransport } from "@/lib/campaign/fake";
+import { createSmtpTransport } from "@/lib/campaign/smtp";
+import type { CampaignTransport } from "@/lib/campaign/types";
+
+export type {
+  CampaignMessage,
+  CampaignRunResult,
+  CampaignTransport,
+} from "@/lib/campaign/types";
+export { renderCampaignEmail, templateForWeek } from "@/lib/campaign/template";
+export {
+  mergeFieldValues,
+  type MergeFieldValues,
+} from "@/lib/campaign/merge-fields";
+
+/**
+ * Campaign configuration from the environment:
+ * - CAMPAIGN_TRANSPORT: "smtp" (default) or "fake" for offline runs
+ * - CAMPAIGN_SENDER_NAME: display name on the From header
+ * - NEXT_PUBLIC_APP_URL: where the unsubscribe links in emails point
+ * - CAMPAIGN_BATCH_SIZE / CAMPAIGN_BATCH_DELAY_MS: emails sent together
+ *   and the pause between batches, to stay under the provider's limits
+ * - CAMPAIGN_INTERVAL_DAYS: days between campaign weeks on scheduled runs
+ */
+export function getCampaignConfig() {
+  return {
+    transport: (process.env.CAMPAIGN_TRANSPORT || "smtp").toLowerCase(),
+    senderName: process.env.CAMPAIGN_SENDER_NAME || "",
+    appUrl: process.env.NEXT_PUBLIC_APP_URL || "",
+    batchSize: Number(process.env.CAMPAIGN_BATCH_SIZE) || 10,
+    batchDelayMs: Number(process.env.CAMPAIGN_BATCH_DELAY_MS ?? 30000),
+    intervalDays: Number(process.env.CAMPAIGN_INTERVAL_DAYS) || 7,
+  };
+}
+
+let transport: CampaignTransport | null = null;
+
+/**
+ * Get the configured transport, like getLLMProvider()
+ */
+export function getCampaignTransport(): CampaignTransport {
+  if (transport) return transport;
+
+  const config = getCampaignConfig();
+
+  switch (config.transport) {
+    case "fake":
+      transport = createFakeTransport();
+      break;
+    case "smtp":
+      transport = createSmtpTransport({ senderName: config.senderName });
+      break;
+    default:
+      throw new Error(`Unknown CAMPAIGN_TRANSPORT "${config.transport}"`);
+  }
+
+  console.log(`✉️ Using ${transport.name} campaign transport`);
+  return transport;
+}
@@ -0,0 +1,147 @@
+import type { EmailTemplate, Property } from "@/lib/types";
+
+/**
+ * Merge fields personalize campaign templates: `{{city}}` is replaced with
+ * the recipient's value, or when it is missing with the field's default
+ * fallback, or the one written after a bar: `{{city|your area}}`. Shared
+ * by the campaign sender and the template editor, which validates
+ * templates and previews them against a real property.
+ */
+
+export type MergeField =
+  | "decision_maker_name"
+  | "first_name"
+  | "property_name"
+  | "city"
+  | "county"
+  | "state"
+  | "management_company";
+
+export const MERGE_FIELDS: {
+  field: MergeField;
+  label: string;
+  fallback: string;
+}[] = [
+  {
+    field: "decision_maker_name",
+    label: "Contact's name",
+    fallback: "there",
+  },
+  { field: "first_name", label: "Contact's first name", fallback: "there" },
+  {
+    field: "property_name",
+    label: "Property name",
+    fallback: "your community",
+  },
+  { field: "city", label: "City", fallback: "your area" },
+  { field: "county", label: "County", fallback: "your county" },
+  { field: "state", label: "State", fallback: "your state" },
+  {
+    field: "management_company",
+    label: "HOA / management company",
+    fallback: "your management company",
+  },
+];
+
+export type MergeFieldValues = Partial<Record<MergeField, string | null>>;
+
+// The template parts merge fields can be used in
+export type MergeFieldPart = "subject" | "hook" | "body" | "signature";
+
+const MERGE_FIELD_PARTS: MergeFieldPart[] = [
+  "subject",
+  "hook",
+  "body",
+  "signature",
+];
+
+// {{ field }} or {{ field | fallback }}
+const TAG = /\{\{\s*([^{}|]*?)\s*(?:\|([^{}]*))?\}\}/g;
+
+const isMergeField = (name: string): name is MergeField =>
+  MERGE_FIELDS.some(({ field }) => field === name);
+
+const defaultFallback = (name: MergeField) =>
+  MERGE_FIELDS.find(({ field }) => field === name)!.fallback;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Merge field values of a property, addressed to the contact named
+ */
+export function mergeFieldValues(
+  property: Pick<
+    Property,
+    | "property_address"
+    | "city"
+    | "county"
+    | "state"
+    | "hoa_or_management_company"
+  >,
+  contactName: string | null
+): MergeFieldValues {
+  return {
+    decision_maker_name: contactName,
+    first_name: contactName?.trim().split(/\s+/)[0] || null,
+    property_name: property.property_address,
+    city: property.city,
+    county: property.county,
+    state: property.state,
+    management_company: property.hoa_or_management_company,
+  };
+}
+
+/**
+ * Replace the merge fields of a template part. Values (and fallbacks) are
+ * HTML-escaped for parts that are sent as HTML; unknown fields are left as
+ * written.
+ */
+export function renderMergeFields(
+  text: string,
+  values: MergeFieldValues,
+  { html = false }: { html?: boolean } = {}
+): string {
+  return text.replace(TAG, (tag, name: string, fallback?: string) => {
+    if (!isMergeField(name)) return tag;
+
+    const value =
+      values[name]?.trim() || (fallback ?? defaultFallback(name)).trim();
+    return html ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * What is wrong with the merge fields of a text, null when nothing is
+ */
+export function findMergeFieldError(text: string): string | null {
+  for (const [, name] of text.matchAll(TAG)) {
+    if (!isMergeField(name)) {
+      return `Unknown merge field {{${name}}}`;
+    }
+  }
+
+  const rest = text.replace(TAG, "");
+  if (rest.includes("{{") || rest.includes("}}")) {
+    return "A merge field is not closed, write it as {{field}} or {{field|fallback}}";
+  }
+  return null;
+}
+
+/**
+ * Check the merge fields of every part of a template
+ */
+export function validateTemplateMergeFields(
+  template: Partial<Pick<EmailTemplate, MergeFieldPart>>
+): Partial<Record<MergeFieldPart, string>> {
+  const errors: Partial<Record<MergeFieldPart, string>> = {};
+  for (const part of MERGE_FIELD_PARTS) {
+    const error = findMergeFieldError(template[part] || "");
+    if (error) errors[part] = error;
+  }
+  return errors;
+}
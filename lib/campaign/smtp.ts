@@ -0,0 +1,45 @@
+import { createSmtpTransporter } from "@/lib/email";
+import type { CampaignTransport } from "@/lib/campaign/types";
+
+/**
+ * Campaign emails through the app's SMTP account (see lib/email.ts).
+ * Replies go back to the sending address.
+ */
+export function createSmtpTransport({
+  senderName,
+}: {
+  senderName: string;
+}): CampaignTransport {
+  const transporter = createSmtpTransporter();
+  const address = process.env.EMAIL_USER || "";
+
+  return {
+    name: "smtp",
+    async send({
+      to,
+      subject,
+      html,
+      inReplyTo,
+      references,
+      attachments,
+      headers,
+    }) {
+      const info = await transporter.sendMail({
+        from: senderName ? { name: senderName, address } : address,
+        replyTo: address,
+        to,
+        subject,
+        html,
+        inReplyTo,
+        references,
+        attachments: attachments?.map(({ filename, url }) => ({
+          filename,
+          path: url,
+        })),
+        headers,
+      });
+
+      return { messageId: info.messageId };
+    },
+  };
+}
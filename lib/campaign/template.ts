@@ -0,0 +1,55 @@
+import {
+  renderMergeFields,
+  type MergeFieldValues,
+} from "@/lib/campaign/merge-fields";
+import type { EmailTemplate } from "@/lib/types";
+
+/**
+ * Template for a campaign week: active templates take turns in id order,
+ * the same rotation the dashboard shows as the current template
+ */
+export function templateForWeek(
+  templates: EmailTemplate[],
+  week: number
+): EmailTemplate | null {
+  const active = templates
+    .filter((template) => template.is_active)
+    .sort((a, b) => a.id - b.id);
+  if (active.length === 0) return null;
+
+  return active[(Math.max(week, 1) - 1) % active.length];
+}
+
+/**
+ * Campaign email HTML: the hook in bold, the body, the signature with its
+ * line breaks kept, and the contact's unsubscribe link, with the merge
+ * fields filled in for the recipient
+ */
+export function renderCampaignEmail(
+  template: EmailTemplate,
+  {
+    unsubscribeUrl,
+    values = {},
+  }: { unsubscribeUrl: string; values?: MergeFieldValues }
+): { subject: string; html: string } {
+  const merge = (text: string) =>
+    renderMergeFields(text, values, { html: true });
+
+  // Signatures saved by the old workflow hold escaped "\n" sequences
+  const signature = merge(template.signature || "")
+    .replace(/\\n/g, "<br>")
+    .replace(/\n/g, "<br>");
+
+  let html = "";
+  if (template.hook) {
+    html += `<p style="font-weight:bold; font-size:1.1em; margin-bottom:12px;">${merge(template.hook)}</p>`;
+  }
+  html += `<p style="margin-bottom:18px; font-size:1.05em;">${merge(template.body)}</p>`;
+  html += `<p style="color:#444; font-size:0.98em; white-space:pre-line; margin-top:24px;">${signature}</p>`;
+  html += `<br><br>\n<a href="${unsubscribeUrl}">Click Here to Unsubscribe</a>`;
+
+  return {
+    subject: renderMergeFields(template.subject || "", values),
+    html,
+  };
+}
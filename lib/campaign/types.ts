@@ -0,0 +1,37 @@
+/**
+ * One campaign email, rendered and addressed to a single contact
+ */
+export interface CampaignMessage {
+  to: string;
+  subject: string;
+  html: string;
+  // Threading of an answer to a contact's reply
+  inReplyTo?: string;
+  references?: string[];
+  // Files attached by URL, fetched when the email is sent
+  attachments?: Array<{ filename: string; url: string }>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Delivers campaign emails. Implementations throw when a message cannot be
+ * sent, so the sender can count it as failed and carry on.
+ */
+export interface CampaignTransport {
+  name: string;
+  // Resolves with the Message-ID of the sent email, which is stored on the
+  // email log so replies can be matched to it
+  send(message: CampaignMessage): Promise<{ messageId: string }>;
+}
+
+// Outcome of one campaign run
+export interface CampaignRunResult {
+  week: number;
+  templateId: number | null;
+  sent: number;
+  failed: number;
+  skipped: number; // already emailed this week by an earlier run
+  remaining: number; // left for the next run when the time ran out
+  advanced: boolean; // the whole list was sent and the week moved on
+  reason?: string; // why nothing was sent, or why the week did not move on
+}
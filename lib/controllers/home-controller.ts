@@ -53,7 +53,7 @@ export class HomeController {
     return {
       title: "Powerful Automation Features",
       description:
-        "Everything you need to streamline your real estate outreach process with n8n workflows",
+        "Everything you need to streamline your real estate outreach process",
     };
   }
 
@@ -61,7 +61,7 @@ export class HomeController {
     return {
       title: "Ready to Start?",
       description:
-        "Automated email sending powered by n8n workflows. Contact your administrator for access to the platform.",
+        "Automated weekly email campaigns with reply tracking. Contact your administrator for access to the platform.",
       cta: {
         text: "Login to Your Account",
         href: "/login",
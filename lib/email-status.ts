@@ -0,0 +1,162 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectPages } from "@/lib/supabase/paging";
+import { verifyEmails } from "@/lib/email-verification";
+import type { EmailStatus } from "@/lib/types";
+
+/**
+ * Verification status of the emails saved on properties (decision maker)
+ * and their contacts. Only contacts with a valid address are campaign
+ * recipients; a database trigger resets the status whenever an address
+ * changes, and the code that writes addresses verifies them right after.
+ */
+
+const ID_CHUNK_SIZE = 200;
+
+type EmailTable = "properties" | "property_contacts";
+
+// Store one status per row, grouped so each status is a single update
+async function saveStatuses(
+  table: EmailTable,
+  rows: Array<{ id: string; email: string }>,
+  statuses: Map<string, EmailStatus>
+): Promise<void> {
+  const supabase = await createClient();
+  const verifiedAt = new Date().toISOString();
+  const idsByStatus = new Map<EmailStatus, string[]>();
+
+  for (const row of rows) {
+    const status = statuses.get(row.email);
+    if (!status) continue;
+    idsByStatus.set(status, [...(idsByStatus.get(status) || []), row.id]);
+  }
+
+  for (const [status, ids] of idsByStatus) {
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from(table)
+        .update({ email_status: status, email_verified_at: verifiedAt })
+        .in("id", ids.slice(i, i + ID_CHUNK_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to save email status: ${error.message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Verify the decision maker and contact emails of the given properties.
+ * Failures are logged and never fail the write that triggered them; the
+ * addresses stay unknown and are picked up by verifyPendingEmails.
+ */
+export async function verifyPropertyEmails(
+  propertyIds: string[]
+): Promise<void> {
+  if (propertyIds.length === 0) return;
+
+  try {
+    const supabase = await createClient();
+    const properties: Array<{ id: string; email: string }> = [];
+    const contacts: Array<{ id: string; email: string }> = [];
+
+    for (let i = 0; i < propertyIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = propertyIds.slice(i, i + ID_CHUNK_SIZE);
+
+      const [propertyResult, contactResult] = await Promise.all([
+        supabase
+          .from("properties")
+          .select("id, decision_maker_email")
+          .in("id", chunk)
+          .not("decision_maker_email", "is", null),
+        supabase
+          .from("property_contacts")
+          .select("id, email")
+          .in("property_id", chunk)
+          .not("email", "is", null),
+      ]);
+
+      if (propertyResult.error || contactResult.error) {
+        throw new Error(
+          `Failed to load emails: ${
+            (propertyResult.error || contactResult.error)!.message
+          }`
+        );
+      }
+
+      (propertyResult.data || []).forEach((row) =>
+        properties.push({ id: row.id, email: row.decision_maker_email })
+      );
+      (contactResult.data || []).forEach((row) =>
+        contacts.push({ id: row.id, email: row.email })
+      );
+    }
+
+    const rows = [...properties, ...contacts].filter((row) => row.email.trim());
+    if (rows.length === 0) return;
+
+    const verifications = await verifyEmails(rows.map((row) => row.email));
+    const statuses = new Map(
+      [...verifications].map(([email, result]) => [email, result.status])
+    );
+
+    await saveStatuses("properties", properties, statuses);
+    await saveStatuses("property_contacts", contacts, statuses);
+
+    const counts = [...verifications.values()].reduce(
+      (acc, { status }) => ({ ...acc, [status]: (acc[status] || 0) + 1 }),
+      {} as Partial<Record<EmailStatus, number>>
+    );
+    console.log(
+      `📧 Verified ${verifications.size} emails of ${propertyIds.length} properties:`,
+      counts
+    );
+  } catch (error) {
+    console.error("💥 Error verifying emails:", error);
+  }
+}
+
+// Properties that have an address in the table still waiting for a status
+async function verifyPendingIn(
+  table: EmailTable,
+  emailColumn: string,
+  propertyColumn: string
+): Promise<number> {
+  const supabase = await createClient();
+  let checked = 0;
+
+  for await (const page of selectPages("unverified emails", () => {
+    const query = supabase
+      .from(table)
+      .select(`id, ${propertyColumn}`)
+      .eq("email_status", "unknown")
+      .not(emailColumn, "is", null);
+    return table === "properties" ? query.is("deleted_at", null) : query;
+  })) {
+    const rows = page as unknown as Array<Record<string, string>>;
+    await verifyPropertyEmails([
+      ...new Set(rows.map((row) => row[propertyColumn])),
+    ]);
+    checked += rows.length;
+  }
+
+  return checked;
+}
+
+/**
+ * Verify every address whose status is still unknown, e.g. addresses saved
+ * before verification existed or whose MX lookup failed. Returns how many
+ * addresses were checked.
+ */
+export async function verifyPendingEmails(): Promise<number> {
+  const properties = await verifyPendingIn(
+    "properties",
+    "decision_maker_email",
+    "id"
+  );
+  const contacts = await verifyPendingIn(
+    "property_contacts",
+    "email",
+    "property_id"
+  );
+  return properties + contacts;
+}
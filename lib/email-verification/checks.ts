@@ -0,0 +1,114 @@
+/**
+ * Checks that need no network: address syntax, throwaway mailbox
+ * providers and shared role mailboxes.
+ */
+
+// Throwaway inbox providers, nobody reads these after a few minutes
+const DISPOSABLE_DOMAINS = new Set([
+  "10minutemail.com",
+  "burnermail.io",
+  "discard.email",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getnada.com",
+  "grr.la",
+  "guerrillamail.com",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "inboxkitten.com",
+  "mailcatch.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mintemail.com",
+  "moakt.com",
+  "mohmal.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "tempail.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+// Shared mailboxes: they exist, but the message rarely reaches a decision
+// maker, and they are what a model guesses when it has no real contact
+const ROLE_ACCOUNTS = new Set([
+  "accounts",
+  "admin",
+  "administrator",
+  "billing",
+  "contact",
+  "contactus",
+  "enquiries",
+  "frontdesk",
+  "hello",
+  "help",
+  "info",
+  "inquiries",
+  "leasing",
+  "mail",
+  "marketing",
+  "office",
+  "reception",
+  "sales",
+  "support",
+  "team",
+  "webmaster",
+]);
+
+// Mailboxes that never accept replies
+const NO_REPLY_ACCOUNTS = new Set([
+  "abuse",
+  "donotreply",
+  "do-not-reply",
+  "hostmaster",
+  "noreply",
+  "no-reply",
+  "postmaster",
+]);
+
+const LOCAL_PART =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+/**
+ * Split an address into its mailbox and domain, or null when it is not a
+ * plausible internet address
+ */
+export function parseEmail(
+  email: string
+): { local: string; domain: string } | null {
+  const address = email.trim().toLowerCase();
+  const at = address.lastIndexOf("@");
+  if (at <= 0 || address.length > 254) return null;
+
+  const local = address.slice(0, at);
+  const domain = address.slice(at + 1);
+  const labels = domain.split(".");
+
+  if (local.length > 64 || !LOCAL_PART.test(local)) return null;
+  if (labels.length < 2 || !labels.every((label) => DOMAIN_LABEL.test(label))) {
+    return null;
+  }
+  if (!/^[a-z]{2,}$/.test(labels[labels.length - 1])) return null;
+
+  return { local, domain };
+}
+
+// Plus addressing (name+tag@) still reaches the same mailbox
+const mailbox = (local: string) => local.split("+")[0];
+
+export const isDisposableDomain = (domain: string) =>
+  DISPOSABLE_DOMAINS.has(domain);
+
+export const isRoleAccount = (local: string) =>
+  ROLE_ACCOUNTS.has(mailbox(local));
+
+export const isNoReplyAccount = (local: string) =>
+  NO_REPLY_ACCOUNTS.has(mailbox(local));
@@ -0,0 +1,34 @@
+import { Resolver } from "node:dns/promises";
+import type { MxResolver } from "@/lib/email-verification/types";
+
+// The domain does not exist or has no MX records
+const NO_RECORD_CODES = new Set(["ENOTFOUND", "ENODATA"]);
+
+/**
+ * MX lookups through the system's DNS servers
+ */
+export function createDnsResolver({
+  timeoutMs,
+}: {
+  timeoutMs: number;
+}): MxResolver {
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 2 });
+
+  return {
+    name: "dns",
+    async resolveMx(domain) {
+      try {
+        const records = await resolver.resolveMx(domain);
+        // A null MX (RFC 7505) has an empty exchange: no email accepted
+        return records
+          .filter((record) => record.exchange && record.exchange !== ".")
+          .sort((a, b) => a.priority - b.priority)
+          .map((record) => record.exchange);
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code && NO_RECORD_CODES.has(code)) return [];
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import type { MxResolver } from "@/lib/email-verification/types";
+
+/**
+ * Offline resolver for development and tests. Every domain has a mail
+ * server `mx.<domain>`, except the reserved `.invalid` TLD and the domains
+ * listed in `noMxDomains`, which have none.
+ */
+export function createFakeResolver({
+  noMxDomains = [],
+}: {
+  noMxDomains?: string[];
+} = {}): MxResolver {
+  const withoutMx = new Set(noMxDomains.map((domain) => domain.toLowerCase()));
+
+  return {
+    name: "fake",
+    async resolveMx(domain) {
+      const normalized = domain.toLowerCase();
+      if (normalized.endsWith(".invalid") || withoutMx.has(normalized)) {
+        return [];
+      }
+      return [`mx.${normalized}`];
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import {
+  isDisposableDomain,
+  isNoReplyAccount,
+  isRoleAccount,
+  parseEmail,
+} from "@/lib/email-verification/checks";
+import { createDnsResolver } from "@/lib/email-verification/dns";
+import { createFakeResolver } from "@/lib/email-verification/fake";
+import { probeMailbox } from "@/lib/email-verification/smtp";
+import type {
+  EmailVerification,
+  MxResolver,
+} from "@/lib/email-verification/types";
+
+export type {
+  EmailVerification,
+  MxResolver,
+} from "@/lib/email-verification/types";
+
+// Domains looked up at the same time
+const LOOKUP_CONCURRENCY = 10;
+
+/**
+ * Email verification configuration from the environment:
+ * - EMAIL_MX_RESOLVER: "dns" (default) or "fake" for offline runs
+ * - EMAIL_FAKE_NO_MX_DOMAINS: comma separated domains the fake resolver
+ *   treats as having no mail server
+ * - EMAIL_SMTP_PROBE: "true" to ask each mail server about the mailbox
+ * - EMAIL_SMTP_PROBE_FROM / EMAIL_SMTP_PROBE_HELO: sender and host name
+ *   the probe announces
+ * - EMAIL_VERIFICATION_TIMEOUT_MS: limit for each lookup and probe
+ */
+export function getEmailVerificationConfig() {
+  return {
+    resolver: (process.env.EMAIL_MX_RESOLVER || "dns").toLowerCase(),
+    fakeNoMxDomains: (process.env.EMAIL_FAKE_NO_MX_DOMAINS || "")
+      .split(",")
+      .map((domain) => domain.trim())
+      .filter(Boolean),
+    smtpProbe: process.env.EMAIL_SMTP_PROBE === "true",
+    smtpFrom: process.env.EMAIL_SMTP_PROBE_FROM || "verify@localhost",
+    smtpHelo: process.env.EMAIL_SMTP_PROBE_HELO || "localhost",
+    timeoutMs: Number(process.env.EMAIL_VERIFICATION_TIMEOUT_MS) || 5000,
+  };
+}
+
+let resolver: MxResolver | null = null;
+
+/**
+ * Get the configured resolver, like getLLMProvider()
+ */
+export function getMxResolver(): MxResolver {
+  if (resolver) return resolver;
+
+  const config = getEmailVerificationConfig();
+
+  switch (config.resolver) {
+    case "fake":
+      resolver = createFakeResolver({ noMxDomains: config.fakeNoMxDomains });
+      break;
+    case "dns":
+      resolver = createDnsResolver({ timeoutMs: config.timeoutMs });
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_MX_RESOLVER "${config.resolver}"`);
+  }
+
+  console.log(`📮 Using ${resolver.name} MX resolver`);
+  return resolver;
+}
+
+/**
+ * Verify addresses, looking each domain up once. Results are keyed by the
+ * address as given.
+ * - invalid: malformed, disposable, no-reply, no mail server, or the mail
+ *   server rejected the mailbox
+ * - unknown: the MX lookup failed, try again later
+ * - risky: deliverable but a shared role mailbox such as info@
+ * - valid: everything else
+ */
+export async function verifyEmails(
+  emails: string[],
+  mxResolver: MxResolver = getMxResolver()
+): Promise<Map<string, EmailVerification>> {
+  const config = getEmailVerificationConfig();
+  const results = new Map<string, EmailVerification>();
+  const parsed = new Map<string, { local: string; domain: string }>();
+
+  for (const email of new Set(emails)) {
+    const address = parseEmail(email);
+    if (!address) {
+      results.set(email, { status: "invalid", reasons: ["malformed"] });
+    } else if (isDisposableDomain(address.domain)) {
+      results.set(email, { status: "invalid", reasons: ["disposable"] });
+    } else if (isNoReplyAccount(address.local)) {
+      results.set(email, { status: "invalid", reasons: ["no-reply"] });
+    } else {
+      parsed.set(email, address);
+    }
+  }
+
+  // null: the lookup failed
+  const mailServers = new Map<string, string[] | null>();
+  const domains = [...new Set([...parsed.values()].map((a) => a.domain))];
+  for (let i = 0; i < domains.length; i += LOOKUP_CONCURRENCY) {
+    await Promise.all(
+      domains.slice(i, i + LOOKUP_CONCURRENCY).map(async (domain) => {
+        try {
+          mailServers.set(domain, await mxResolver.resolveMx(domain));
+        } catch (error) {
+          console.warn(`📮 MX lookup for ${domain} failed:`, error);
+          mailServers.set(domain, null);
+        }
+      })
+    );
+  }
+
+  for (const [email, { local, domain }] of parsed) {
+    const hosts = mailServers.get(domain);
+    if (!hosts) {
+      results.set(email, { status: "unknown", reasons: ["mx lookup failed"] });
+      continue;
+    }
+    if (hosts.length === 0) {
+      results.set(email, { status: "invalid", reasons: ["no mail server"] });
+      continue;
+    }
+
+    if (config.smtpProbe) {
+      const probe = await probeMailbox(hosts[0], email.trim(), {
+        from: config.smtpFrom,
+        heloName: config.smtpHelo,
+        timeoutMs: config.timeoutMs,
+      });
+      if (probe === "rejected") {
+        results.set(email, {
+          status: "invalid",
+          reasons: ["mailbox rejected"],
+        });
+        continue;
+      }
+    }
+
+    results.set(
+      email,
+      isRoleAccount(local)
+        ? { status: "risky", reasons: ["role account"] }
+        : { status: "valid", reasons: [] }
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,73 @@
+import { createConnection } from "node:net";
+
+export type SmtpProbeResult = "accepted" | "rejected" | "unknown";
+
+export interface SmtpProbeOptions {
+  from: string; // envelope sender of the probe
+  heloName: string; // host name announced in EHLO
+  timeoutMs: number;
+}
+
+/**
+ * Ask a mail server whether it accepts mail for an address, without
+ * sending any: the conversation stops after RCPT TO. Servers that refuse
+ * the probe itself (greylisting, blocked port 25, timeouts) give "unknown".
+ */
+export function probeMailbox(
+  host: string,
+  email: string,
+  options: SmtpProbeOptions
+): Promise<SmtpProbeResult> {
+  return new Promise((resolve) => {
+    const socket = createConnection({ host, port: 25 });
+    const commands = [
+      `EHLO ${options.heloName}`,
+      `MAIL FROM:<${options.from}>`,
+      `RCPT TO:<${email}>`,
+    ];
+    let sent = 0;
+    let buffer = "";
+    let settled = false;
+
+    const finish = (result: SmtpProbeResult) => {
+      if (settled) return;
+      settled = true;
+      resolve(result);
+      if (!socket.destroyed) socket.end("QUIT\r\n");
+    };
+
+    const handleReply = (code: number) => {
+      // Every command but the last must succeed for the answer to count
+      if (sent === commands.length) {
+        if (code >= 200 && code < 300) finish("accepted");
+        else if (code >= 500) finish("rejected");
+        else finish("unknown");
+        return;
+      }
+      if (code < 200 || code >= 400) {
+        finish("unknown");
+        return;
+      }
+      socket.write(`${commands[sent++]}\r\n`);
+    };
+
+    socket.setTimeout(options.timeoutMs, () => {
+      finish("unknown");
+      socket.destroy();
+    });
+    socket.on("error", () => finish("unknown"));
+    socket.on("close", () => finish("unknown"));
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1 && !settled) {
+        const line = buffer.slice(0, newline).trimEnd();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+
+        // "250-..." continues a multi-line reply, "250 ..." ends it
+        if (line.charAt(3) !== "-") handleReply(Number(line.slice(0, 3)));
+      }
+    });
+  });
+}
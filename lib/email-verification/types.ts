@@ -0,0 +1,18 @@
+import type { EmailStatus } from "@/lib/types";
+
+/**
+ * Where mail for a domain is delivered. Implementations throw when the
+ * lookup itself fails, so callers can tell "no mail servers" from "could
+ * not check".
+ */
+export interface MxResolver {
+  name: string;
+  // Mail server hosts of the domain, most preferred first; empty when the
+  // domain does not exist or does not accept email
+  resolveMx(domain: string): Promise<string[]>;
+}
+
+export interface EmailVerification {
+  status: EmailStatus;
+  reasons: string[]; // why the address is not valid, for logs
+}
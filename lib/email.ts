@@ -1,14 +1,22 @@
 import nodemailer from "nodemailer";
 
-const transporter = nodemailer.createTransport({
-  host: "smtp.hostinger.com",
-  port: 587,
-  secure: false,
-  auth: {
-    user: process.env.EMAIL_USER,
-    pass: process.env.EMAIL_PASSWORD,
-  },
-});
+/**
+ * SMTP transporter for the account in EMAIL_USER / EMAIL_PASSWORD. The
+ * server can be changed with EMAIL_SMTP_HOST, EMAIL_SMTP_PORT and
+ * EMAIL_SMTP_SECURE, e.g. to a local SMTP sink during development.
+ */
+export function createSmtpTransporter() {
+  const user = process.env.EMAIL_USER;
+
+  return nodemailer.createTransport({
+    host: process.env.EMAIL_SMTP_HOST || "smtp.hostinger.com",
+    port: Number(process.env.EMAIL_SMTP_PORT) || 587,
+    secure: process.env.EMAIL_SMTP_SECURE === "true",
+    auth: user ? { user, pass: process.env.EMAIL_PASSWORD } : undefined,
+  });
+}
+
+const transporter = createSmtpTransporter();
 
 export async function sendEmail(to: string, subject: string, html: string) {
   try {
@@ -1,9 +1,19 @@
 import * as ExcelJS from "exceljs";
-import type { Property, EmailLog } from "./types";
+import { CONTACT_ROLES } from "./property-validation";
+import { formatPhone } from "./phone";
+import {
+  SUBSCRIPTION_STATUS_LABELS,
+  findSuppressions,
+  subscriptionStatus,
+  suppressionReasonLabel,
+} from "./suppression-status";
+import type { Property, EmailLog, PropertyContact, Suppression } from "./types";
 
 export async function exportToExcel(
   data: Property[] | EmailLog[],
-  filename: string
+  filename: string,
+  contacts: PropertyContact[] = [],
+  suppressions: Suppression[] = []
 ) {
   // Create workbook and worksheet
   const workbook = new ExcelJS.Workbook();
@@ -53,7 +63,7 @@ export async function exportToExcel(
       { header: "HOA/Management Company", key: "hoaManagement", width: 25 },
       { header: "Decision Maker", key: "decisionMaker", width: 20 },
       { header: "Email", key: "email", width: 25 },
-      { header: "Phone", key: "phone", width: 15 },
+      { header: "Phone", key: "phone", width: 22 },
       { header: "State", key: "state", width: 10 },
       { header: "County", key: "county", width: 15 },
       { header: "City", key: "city", width: 15 },
@@ -69,28 +79,77 @@ export async function exportToExcel(
         hoaManagement: property.hoa_or_management_company || "",
         decisionMaker: property.decision_maker_name || "",
         email: property.decision_maker_email || "",
-        phone: property.decision_maker_phone || "",
+        phone: formatPhone(
+          property.decision_maker_phone,
+          property.decision_maker_phone_ext
+        ),
         state: property.state || "",
         county: property.county || "",
         city: property.city || "",
         zipCode: property.zip_code || "",
         status:
-          new Date(property.suspend_until) <= new Date()
-            ? "Unsubscribed"
-            : "Subscribed",
+          SUBSCRIPTION_STATUS_LABELS[
+            subscriptionStatus(property, suppressions)
+          ],
         createdAt: new Date(property.created_at).toLocaleDateString(),
       });
     });
+
+    // Every contact of the exported properties on its own sheet
+    const propertyNames = new Map(
+      (data as Property[]).map((property) => [
+        property.id,
+        property.property_address || "",
+      ])
+    );
+    const exportedContacts = contacts.filter((contact) =>
+      propertyNames.has(contact.property_id)
+    );
+
+    if (exportedContacts.length > 0) {
+      const contactsSheet = workbook.addWorksheet("Contacts");
+      contactsSheet.columns = [
+        { header: "Property Name", key: "propertyName", width: 25 },
+        { header: "Role", key: "role", width: 25 },
+        { header: "Name", key: "name", width: 20 },
+        { header: "Email", key: "email", width: 25 },
+        { header: "Phone", key: "phone", width: 22 },
+        { header: "Primary", key: "primary", width: 10 },
+        { header: "Suppressed", key: "suppressed", width: 15 },
+      ];
+
+      exportedContacts.forEach((contact) => {
+        const [suppression] = findSuppressions(suppressions, {
+          propertyId: contact.property_id,
+          emails: [contact.email],
+        });
+        contactsSheet.addRow({
+          propertyName: propertyNames.get(contact.property_id),
+          role:
+            CONTACT_ROLES.find(({ role }) => role === contact.role)?.label ||
+            contact.role,
+          name: contact.name || "",
+          email: contact.email || "",
+          phone: formatPhone(contact.phone, contact.phone_ext),
+          primary: contact.is_primary ? "Yes" : "No",
+          suppressed: suppression
+            ? suppressionReasonLabel(suppression.reason)
+            : "",
+        });
+      });
+    }
   }
 
-  // Style the header row
-  const headerRow = worksheet.getRow(1);
-  headerRow.font = { bold: true };
-  headerRow.fill = {
-    type: "pattern",
-    pattern: "solid",
-    fgColor: { argb: "FFE0E0E0" },
-  };
+  // Style the header rows
+  workbook.eachSheet((sheet) => {
+    const headerRow = sheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFE0E0E0" },
+    };
+  });
 
   // Generate buffer and download file (browser-compatible)
   const buffer = await workbook.xlsx.writeBuffer();
@@ -0,0 +1,79 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectPages } from "@/lib/supabase/paging";
+import { GEOGRAPHY_FIELDS, normalizeGeography } from "@/lib/geography";
+import type { GeoFlag, Property } from "@/lib/types";
+
+/**
+ * Check addresses saved before normalization against the ZIP reference,
+ * the same way new and edited properties are (lib/geography.ts), and
+ * place them on the dashboard map.
+ */
+
+type AddressRow = Pick<
+  Property,
+  | "id"
+  | "city"
+  | "county"
+  | "state"
+  | "zip_code"
+  | "latitude"
+  | "longitude"
+  | "geo_flags"
+>;
+
+export interface GeographyNormalizationResult {
+  checked: number;
+  updated: number;
+  flagged: number;
+}
+
+const sameFlags = (a: GeoFlag[], b: GeoFlag[]) =>
+  a.length === b.length && a.every((flag) => b.includes(flag));
+
+/**
+ * Normalize the address of every saved property, updating the rows whose
+ * values or flags change
+ */
+export async function normalizeSavedGeography(): Promise<GeographyNormalizationResult> {
+  const supabase = await createClient();
+  const result: GeographyNormalizationResult = {
+    checked: 0,
+    updated: 0,
+    flagged: 0,
+  };
+  for await (const rows of selectPages<AddressRow>("addresses", () =>
+    supabase
+      .from("properties")
+      .select(
+        "id, city, county, state, zip_code, latitude, longitude, geo_flags"
+      )
+  )) {
+    for (const row of rows) {
+      const { geography, coordinates, flags } = normalizeGeography(row);
+      if (flags.length > 0) result.flagged++;
+
+      const changed =
+        GEOGRAPHY_FIELDS.some((field) => geography[field] !== row[field]) ||
+        coordinates.latitude !== row.latitude ||
+        coordinates.longitude !== row.longitude;
+      if (!changed && sameFlags(flags, row.geo_flags || [])) continue;
+
+      const { error: updateError } = await supabase
+        .from("properties")
+        .update({ ...geography, ...coordinates, geo_flags: flags })
+        .eq("id", row.id);
+
+      if (updateError) {
+        throw new Error(`Failed to update address: ${updateError.message}`);
+      }
+      result.updated++;
+    }
+
+    result.checked += rows.length;
+  }
+
+  console.log(
+    `🗺️ Normalized ${result.updated} of ${result.checked} addresses (${result.flagged} flagged for review)`
+  );
+  return result;
+}
@@ -0,0 +1,161 @@
+import { find, findByCity, findByCounty, getStates } from "zipcodes-us";
+import { normalizeState } from "@/lib/property-validation";
+import type { GeoFlag, Property } from "@/lib/types";
+
+/**
+ * US addresses checked against an offline reference of ZIP codes with their
+ * postal city, county and state (GeoNames data, via zipcodes-us). States
+ * are stored by full name, counties without the "County" suffix and ZIP
+ * codes as five digits. Blanks are filled in from the ZIP; values that
+ * contradict it are kept and flagged. The reference is several megabytes,
+ * so this module is server-only.
+ */
+
+export type Geography = Pick<
+  Property,
+  "city" | "county" | "state" | "zip_code"
+>;
+
+// Where a property is plotted on the dashboard map
+export type Coordinates = Pick<Property, "latitude" | "longitude">;
+
+export const GEOGRAPHY_FIELDS: Array<keyof Geography> = [
+  "city",
+  "county",
+  "state",
+  "zip_code",
+];
+
+// Suffixes the reference leaves off. Alaska's "Municipality" and Virginia's
+// "City of" are part of its county names, so a value is tried as it is first.
+const COUNTY_SUFFIX = /\s+(?:county|parish|borough)$/i;
+
+let stateCodes: Map<string, string> | null = null;
+
+// Two-letter code for a full state name, as the reference looks them up
+function getStateCode(state: string): string | null {
+  if (!stateCodes) {
+    stateCodes = new Map(getStates().map(({ code, name }) => [name, code]));
+  }
+  return stateCodes.get(state) || null;
+}
+
+// Five-digit ZIP from "33401", "33401-1234" or "334011234". Spreadsheets
+// drop the leading zero of New England ZIP codes, so four digits are padded.
+function normalizeZip(value: string): string | null {
+  const match = value.match(/^(\d{5})(?:[\s-]?\d{4})?$/);
+  if (match) return match[1];
+  return /^\d{4}$/.test(value) ? `0${value}` : null;
+}
+
+// County name as the reference writes it, null when the state has none
+function matchCounty(county: string, stateCode: string): string | null {
+  for (const name of [county, county.replace(COUNTY_SUFFIX, "")]) {
+    const [match] = findByCounty(name, stateCode);
+    if (match) return match.countyName;
+  }
+  return null;
+}
+
+const clean = (value: string | null | undefined) => value?.trim() || null;
+
+/**
+ * Normalize a property's city, county, state and ZIP, filling blanks from
+ * the ZIP. Cities the reference does not know are kept without a flag,
+ * since it only lists postal place names. ZIPs near a boundary can belong
+ * to more than one city or county, so those mismatches are only flagged.
+ * Coordinates are the centroid of the ZIP, or of the city without one.
+ */
+export function normalizeGeography(address: Partial<Geography>): {
+  geography: Geography;
+  coordinates: Coordinates;
+  flags: GeoFlag[];
+} {
+  const flags: GeoFlag[] = [];
+  let city = clean(address.city);
+  let county = clean(address.county);
+  let state = clean(address.state);
+  let zip = clean(address.zip_code);
+
+  if (state) {
+    const normalized = normalizeState(state);
+    if (normalized) {
+      state = normalized;
+    } else {
+      flags.push("unknown_state");
+    }
+  }
+
+  let reference: ReturnType<typeof find> | null = null;
+  if (zip) {
+    const normalized = normalizeZip(zip);
+    if (!normalized) {
+      flags.push("invalid_zip");
+    } else {
+      zip = normalized;
+      const found = find(zip);
+      if (found.isValid) {
+        reference = found;
+      } else {
+        flags.push("unknown_zip");
+      }
+    }
+  }
+
+  if (reference) {
+    if (!state) {
+      state = reference.state;
+    } else if (state !== reference.state) {
+      flags.push("zip_state_mismatch");
+      reference = null;
+    }
+  }
+
+  const stateCode = state ? getStateCode(state) : null;
+  if (county && stateCode) {
+    const match = matchCounty(county, stateCode);
+    if (match) {
+      county = match;
+    } else {
+      flags.push("unknown_county");
+    }
+  } else if (county) {
+    county = county.replace(COUNTY_SUFFIX, "");
+  }
+
+  const cityZips = city && stateCode ? findByCity(city, stateCode) : [];
+  if (cityZips.length > 0) city = cityZips[0].placeName;
+
+  if (reference) {
+    if (!county) {
+      county = reference.county;
+    } else if (
+      county !== reference.county &&
+      !flags.includes("unknown_county")
+    ) {
+      flags.push("zip_county_mismatch");
+    }
+
+    // The reference has one place name per ZIP, so a neighborhood or
+    // suburb of it is only a mismatch when it lies in another county
+    const zipCounty = reference.county;
+    if (!city) {
+      city = reference.city;
+    } else if (
+      cityZips.length > 0 &&
+      !cityZips.some((info) => info.countyName === zipCounty)
+    ) {
+      flags.push("zip_city_mismatch");
+    }
+  }
+
+  const centroid = reference || cityZips[0];
+  return {
+    geography: { city, county, state, zip_code: zip },
+    coordinates: {
+      latitude: centroid?.latitude ?? null,
+      longitude: centroid?.longitude ?? null,
+    },
+    flags,
+  };
+}
@@ -0,0 +1,231 @@
+import type { ExtractedProperty } from "@/lib/types";
+
+/**
+ * Helpers for batch uploads: expand ZIP archives and split PDFs into the
+ * single images / pages sent to /api/extract-names, and merge the names
+ * extracted from them into one deduplicated list.
+ */
+
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB, same as /api/extract-names
+
+// Plat books can be huge; pages past this limit are reported, not extracted
+export const MAX_PDF_PAGES = 100;
+
+const PDF_TYPE = "application/pdf";
+
+// ZIP entries carry no MIME type, so it is derived from the extension
+const FILE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  heic: "image/heic",
+  heif: "image/heif",
+  pdf: PDF_TYPE,
+};
+
+export interface RejectedUpload {
+  name: string;
+  reason: string;
+}
+
+// A single image or PDF page ready for extraction
+export interface UploadItem {
+  file: File;
+  label: string; // shown in the status list and recorded as the name's source
+  page: number | null; // 1-based page number for PDF pages
+}
+
+interface ExpandedUpload {
+  items: UploadItem[];
+  rejected: RejectedUpload[];
+}
+
+const isZipFile = (file: File) =>
+  file.type === "application/zip" ||
+  file.type === "application/x-zip-compressed" ||
+  /\.zip$/i.test(file.name);
+
+const isPdfFile = (file: File) =>
+  file.type === PDF_TYPE || /\.pdf$/i.test(file.name);
+
+const fileTypeFor = (name: string) =>
+  FILE_TYPES[name.split(".").pop()?.toLowerCase() || ""] || null;
+
+// Split a PDF into one single-page PDF per page
+async function splitPdf(
+  file: File,
+  label: string,
+  result: ExpandedUpload
+): Promise<void> {
+  const { PDFDocument } = await import("pdf-lib");
+  const source = await PDFDocument.load(await file.arrayBuffer(), {
+    ignoreEncryption: true,
+  });
+  const pageCount = source.getPageCount();
+
+  if (pageCount > MAX_PDF_PAGES) {
+    result.rejected.push({
+      name: label,
+      reason: `pages ${MAX_PDF_PAGES + 1}-${pageCount} skipped (limit ${MAX_PDF_PAGES})`,
+    });
+  }
+
+  for (let index = 0; index < Math.min(pageCount, MAX_PDF_PAGES); index++) {
+    const page = index + 1;
+    const pageLabel = `${label} (page ${page})`;
+
+    const single = await PDFDocument.create();
+    const [copied] = await single.copyPages(source, [index]);
+    single.addPage(copied);
+    const bytes = await single.save();
+
+    if (bytes.byteLength > MAX_IMAGE_SIZE) {
+      result.rejected.push({
+        name: pageLabel,
+        reason: "page larger than 10MB",
+      });
+      continue;
+    }
+
+    result.items.push({
+      file: new File(
+        [bytes as BlobPart],
+        `${file.name.replace(/\.pdf$/i, "")}-page-${page}.pdf`,
+        {
+          type: PDF_TYPE,
+        }
+      ),
+      label: pageLabel,
+      page,
+    });
+  }
+}
+
+// Queue an image as is, or split a PDF into pages
+async function expandFile(
+  file: File,
+  label: string,
+  result: ExpandedUpload
+): Promise<void> {
+  if (isPdfFile(file)) {
+    try {
+      await splitPdf(file, label, result);
+    } catch (error) {
+      console.error(`Error reading PDF ${label}:`, error);
+      result.rejected.push({ name: label, reason: "could not read PDF" });
+    }
+    return;
+  }
+
+  if (!file.type.startsWith("image/")) {
+    result.rejected.push({
+      name: label,
+      reason: "not an image, PDF or ZIP archive",
+    });
+    return;
+  }
+
+  if (file.size > MAX_IMAGE_SIZE) {
+    result.rejected.push({ name: label, reason: "larger than 10MB" });
+    return;
+  }
+
+  result.items.push({ file, label, page: null });
+}
+
+async function expandZip(archive: File, result: ExpandedUpload): Promise<void> {
+  const { default: JSZip } = await import("jszip");
+  const zip = await JSZip.loadAsync(archive);
+
+  for (const entry of Object.values(zip.files)) {
+    const baseName = entry.name.split("/").pop() || entry.name;
+    // Skip folders and macOS metadata (__MACOSX/, ._photo.jpg)
+    if (
+      entry.dir ||
+      entry.name.startsWith("__MACOSX/") ||
+      baseName.startsWith(".")
+    ) {
+      continue;
+    }
+
+    const label = `${archive.name}/${entry.name}`;
+    const type = fileTypeFor(baseName);
+    if (!type) {
+      result.rejected.push({ name: label, reason: "not an image or PDF" });
+      continue;
+    }
+
+    const blob = await entry.async("blob");
+    await expandFile(new File([blob], baseName, { type }), label, result);
+  }
+}
+
+/**
+ * Turn dropped or selected files into a flat list of images and PDF pages.
+ * ZIP archives are unpacked and PDFs split page by page; anything that
+ * cannot be extracted is reported in `rejected`.
+ */
+export async function expandUploadFiles(
+  files: File[]
+): Promise<ExpandedUpload> {
+  const result: ExpandedUpload = { items: [], rejected: [] };
+
+  for (const file of files) {
+    if (!isZipFile(file)) {
+      await expandFile(file, file.name, result);
+      continue;
+    }
+
+    try {
+      await expandZip(file, result);
+    } catch (error) {
+      console.error(`Error reading ZIP archive ${file.name}:`, error);
+      result.rejected.push({
+        name: file.name,
+        reason: "could not read ZIP archive",
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add names found in one image or page to the list. Names are compared
+ * case-insensitively; a repeated name only gains the new source.
+ */
+export function mergeExtractedNames(
+  properties: ExtractedProperty[],
+  names: string[],
+  source: string
+): ExtractedProperty[] {
+  const merged = properties.map((property) => ({ ...property }));
+  const byName = new Map(
+    merged.map((property) => [property.name.trim().toUpperCase(), property])
+  );
+
+  names.forEach((name, index) => {
+    const key = name.trim().toUpperCase();
+    if (!key) return;
+
+    const existing = byName.get(key);
+    if (existing) {
+      const sources = existing.sources || [];
+      if (!sources.includes(source)) existing.sources = [...sources, source];
+      return;
+    }
+
+    const property: ExtractedProperty = {
+      id: `property-${Date.now()}-${merged.length}-${index}`,
+      name: name.trim(),
+      editable: false,
+      sources: [source],
+    };
+    merged.push(property);
+    byName.set(key, property);
+  });
+
+  return merged;
+}
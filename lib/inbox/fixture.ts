@@ -0,0 +1,36 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseInboxMessage } from "@/lib/inbox/parse";
+import type { InboxMessage, Mailbox } from "@/lib/inbox/types";
+
+/**
+ * Offline mailbox for development and tests: every `.eml` file in `dir` is
+ * an unread message, in file name order, whatever its date. Read messages
+ * are remembered for the life of the server instance.
+ */
+export function createFixtureMailbox({ dir }: { dir: string }): Mailbox {
+  const seen = new Set<number>();
+
+  return {
+    name: "fixture",
+    async fetchUnread() {
+      const files = (await readdir(dir))
+        .filter((file) => file.toLowerCase().endsWith(".eml"))
+        .sort();
+      const messages: InboxMessage[] = [];
+
+      for (const [index, file] of files.entries()) {
+        const uid = index + 1;
+        if (seen.has(uid)) continue;
+
+        const source = await readFile(path.join(dir, file));
+        messages.push(await parseInboxMessage(uid, source));
+      }
+
+      return messages;
+    },
+    async markSeen(uids) {
+      uids.forEach((uid) => seen.add(uid));
+    },
+  };
+}
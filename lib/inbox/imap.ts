@@ -0,0 +1,79 @@
+import { ImapFlow } from "imapflow";
+import { parseInboxMessage } from "@/lib/inbox/parse";
+import type { Mailbox } from "@/lib/inbox/types";
+
+/**
+ * The campaign inbox over IMAP. Every call opens its own connection, the
+ * monitor only polls a few times an hour.
+ */
+export function createImapMailbox({
+  host,
+  port,
+  secure,
+  user,
+  pass,
+  mailbox,
+}: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  pass: string;
+  mailbox: string;
+}): Mailbox {
+  async function withMailbox<T>(
+    action: (client: ImapFlow) => Promise<T>
+  ): Promise<T> {
+    const client = new ImapFlow({
+      host,
+      port,
+      secure,
+      auth: { user, pass },
+      logger: false,
+    });
+
+    await client.connect();
+    try {
+      const lock = await client.getMailboxLock(mailbox);
+      try {
+        return await action(client);
+      } finally {
+        lock.release();
+      }
+    } finally {
+      await client.logout();
+    }
+  }
+
+  return {
+    name: "imap",
+    fetchUnread(since) {
+      return withMailbox(async (client) => {
+        const uids = await client.search({ seen: false, since }, { uid: true });
+        if (!uids || uids.length === 0) return [];
+
+        const sources: Array<{ uid: number; source: Buffer }> = [];
+        // Fetching without marking the messages read
+        for await (const message of client.fetch(
+          uids,
+          { uid: true, source: true },
+          { uid: true }
+        )) {
+          if (message.source) {
+            sources.push({ uid: message.uid, source: message.source });
+          }
+        }
+
+        return Promise.all(
+          sources.map(({ uid, source }) => parseInboxMessage(uid, source))
+        );
+      });
+    },
+    async markSeen(uids) {
+      if (uids.length === 0) return;
+      await withMailbox((client) =>
+        client.messageFlagsAdd(uids, ["\\Seen"], { uid: true })
+      );
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { createFixtureMailbox } from "@/lib/inbox/fixture";
+import { createImapMailbox } from "@/lib/inbox/imap";
+import type { Mailbox } from "@/lib/inbox/types";
+
+export type {
+  InboxMessage,
+  Mailbox,
+  ReplyCheckResult,
+} from "@/lib/inbox/types";
+export {
+  extractTopReply,
+  findMatchedKeywords,
+  normalizeKeywords,
+} from "@/lib/inbox/replies";
+
+/**
+ * Inbox configuration from the environment:
+ * - REPLY_MAILBOX: "imap" (default) or "fixture" for offline runs
+ * - IMAP_HOST / IMAP_PORT / IMAP_SECURE / IMAP_MAILBOX: the IMAP server
+ *   and folder, signed in as EMAIL_USER / EMAIL_PASSWORD
+ * - REPLY_FIXTURE_DIR: folder of .eml files the fixture mailbox serves
+ * - REPLY_LOOKBACK_DAYS: how far back unread messages are checked
+ */
+export function getInboxConfig() {
+  return {
+    mailbox: (process.env.REPLY_MAILBOX || "imap").toLowerCase(),
+    host: process.env.IMAP_HOST || "imap.hostinger.com",
+    port: Number(process.env.IMAP_PORT) || 993,
+    secure: process.env.IMAP_SECURE !== "false",
+    folder: process.env.IMAP_MAILBOX || "INBOX",
+    fixtureDir: process.env.REPLY_FIXTURE_DIR || "",
+    lookbackDays: Number(process.env.REPLY_LOOKBACK_DAYS) || 7,
+  };
+}
+
+let mailbox: Mailbox | null = null;
+
+/**
+ * Get the configured mailbox, like getLLMProvider()
+ */
+export function getMailbox(): Mailbox {
+  if (mailbox) return mailbox;
+
+  const config = getInboxConfig();
+
+  switch (config.mailbox) {
+    case "fixture":
+      if (!config.fixtureDir) {
+        throw new Error("REPLY_FIXTURE_DIR environment variable is not set");
+      }
+      mailbox = createFixtureMailbox({ dir: config.fixtureDir });
+      break;
+    case "imap": {
+      const user = process.env.EMAIL_USER;
+      const pass = process.env.EMAIL_PASSWORD;
+      if (!user || !pass) {
+        throw new Error(
+          "EMAIL_USER and EMAIL_PASSWORD environment variables are not set"
+        );
+      }
+      mailbox = createImapMailbox({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        user,
+        pass,
+        mailbox: config.folder,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown REPLY_MAILBOX "${config.mailbox}"`);
+  }
+
+  console.log(`📥 Using ${mailbox.name} mailbox`);
+  return mailbox;
+}
@@ -0,0 +1,26 @@
+import { simpleParser } from "mailparser";
+import type { InboxMessage } from "@/lib/inbox/types";
+
+/**
+ * Read the fields the reply monitor needs from a raw RFC 822 message
+ */
+export async function parseInboxMessage(
+  uid: number,
+  source: Buffer | string
+): Promise<InboxMessage> {
+  const parsed = await simpleParser(source);
+  // References lists the thread oldest first
+  const references = [parsed.references || []].flat().reverse();
+  const inReplyTo = [
+    ...new Set([parsed.inReplyTo, ...references].filter(Boolean)),
+  ] as string[];
+
+  return {
+    uid,
+    messageId: parsed.messageId || null,
+    from: parsed.from?.value[0]?.address?.toLowerCase() || null,
+    subject: parsed.subject || "",
+    text: parsed.text || "",
+    inReplyTo,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Reading replies to campaign emails: the new text a contact wrote, and
+ * which auto-reply keywords it mentions. No server dependencies, the
+ * dashboard uses normalizeKeywords too.
+ */
+
+// Lines where the quoted history of a reply starts
+const QUOTE_MARKERS: RegExp[] = [
+  // Gmail: "> quoted", "On Mon, Jan 1, 2024 at 9:00 AM Name <a@b.com> wrote:"
+  /^>/,
+  /^On\s+.*wrote:?\s*$/i,
+  // Outlook
+  /^-+\s*Original Message\s*-+/i,
+  /^From:\s+.*@/i,
+  /^Sent:\s+(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)/i,
+  /^To:\s+.*@/i,
+  /^Subject:\s+/i,
+  // Apple Mail
+  /^Begin forwarded message:/i,
+  /^Date:\s+(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday)/i,
+];
+
+/**
+ * The text a contact wrote above the quoted email they replied to
+ */
+export function extractTopReply(text: string): string {
+  const replyLines: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (QUOTE_MARKERS.some((marker) => marker.test(trimmed))) break;
+    replyLines.push(line);
+  }
+
+  return replyLines.join("\n").trim();
+}
+
+/**
+ * Lowercase, trimmed and without repeats, in the order given
+ */
+export function normalizeKeywords(keywords: string[]): string[] {
+  const normalized = keywords
+    .map((keyword) => keyword.trim().toLowerCase().replace(/\s+/g, " "))
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Keywords mentioned in the text, in the order they appear. Keywords match
+ * whole words ("er" does not match "never"); phrases match their words in
+ * order with any whitespace between them.
+ */
+export function findMatchedKeywords(
+  text: string,
+  keywords: string[]
+): string[] {
+  const lower = text.toLowerCase();
+
+  return normalizeKeywords(keywords)
+    .map((keyword) => {
+      const words = keyword.split(" ").map(escapeRegex);
+      const match = new RegExp(`\\b${words.join("\\s+")}\\b`).exec(lower);
+      return { keyword, index: match ? match.index : -1 };
+    })
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ keyword }) => keyword);
+}
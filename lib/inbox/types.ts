@@ -0,0 +1,32 @@
+/**
+ * An unread email in the campaign inbox
+ */
+export interface InboxMessage {
+  uid: number; // identifies the message within the mailbox
+  messageId: string | null;
+  from: string | null; // sender address
+  subject: string;
+  text: string; // plain text body, quoted history included
+  // Message-IDs of the emails this one answers, most direct first
+  inReplyTo: string[];
+}
+
+/**
+ * The inbox replies to campaign emails arrive in. Implementations throw
+ * when the mailbox cannot be reached.
+ */
+export interface Mailbox {
+  name: string;
+  // Unread messages received since the given date
+  fetchUnread(since: Date): Promise<InboxMessage[]>;
+  // Mark messages as read so they are not handled again
+  markSeen(uids: number[]): Promise<void>;
+}
+
+// Outcome of one reply check
+export interface ReplyCheckResult {
+  checked: number; // unread messages looked at
+  replies: number; // answers to campaign emails
+  autoReplied: number; // answers that mentioned a keyword and got the PDF
+  failed: number; // auto-replies that could not be sent, retried next check
+}
@@ -0,0 +1,83 @@
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+import { describe, expect, it } from "vitest";
+import { LlmError, llmErrorStatus, toLlmError } from "@/lib/llm/errors";
+
+describe("toLlmError", () => {
+  it("classifies an exhausted quota as rate limited", () => {
+    const error = toLlmError(
+      new GoogleGenerativeAIFetchError(
+        "[429 Too Many Requests] Resource has been exhausted (e.g. check quota).",
+        429,
+        "Too Many Requests"
+      )
+    );
+
+    expect(error.code).toBe("rate_limited");
+    expect(error.status).toBe(429);
+    expect(error.transient).toBe(true);
+    expect(llmErrorStatus(error)).toBe(429);
+  });
+
+  it("classifies server errors as unavailable", () => {
+    const error = toLlmError(
+      new GoogleGenerativeAIFetchError(
+        "[503 Service Unavailable] The model is overloaded.",
+        503,
+        "Service Unavailable"
+      )
+    );
+
+    expect(error.code).toBe("unavailable");
+    expect(error.transient).toBe(true);
+  });
+
+  it("does not retry other HTTP errors", () => {
+    const error = toLlmError(
+      new GoogleGenerativeAIFetchError(
+        "[400 Bad Request] API key not valid.",
+        400,
+        "Bad Request"
+      )
+    );
+
+    expect(error.code).toBe("request_failed");
+    expect(error.transient).toBe(false);
+  });
+
+  it("classifies a safety block as blocked", () => {
+    const error = toLlmError(
+      new GoogleGenerativeAIResponseError("Candidate was blocked due to SAFETY")
+    );
+
+    expect(error.code).toBe("blocked");
+    expect(error.transient).toBe(false);
+    expect(llmErrorStatus(error)).toBe(422);
+  });
+
+  it("classifies aborted requests and timeouts as timeout", () => {
+    expect(
+      toLlmError(new GoogleGenerativeAIAbortError("Request aborted")).code
+    ).toBe("timeout");
+    expect(
+      toLlmError(new Error("connect ETIMEDOUT 142.250.72.10:443")).code
+    ).toBe("timeout");
+  });
+
+  it("classifies network failures as unavailable", () => {
+    expect(toLlmError(new TypeError("fetch failed")).code).toBe("unavailable");
+    expect(toLlmError(new Error("read ECONNRESET")).code).toBe("unavailable");
+  });
+
+  it("keeps LlmErrors and wraps anything else", () => {
+    const original = new LlmError("invalid_payload", "Bad payload");
+    expect(toLlmError(original)).toBe(original);
+
+    const error = toLlmError("something went wrong");
+    expect(error.code).toBe("request_failed");
+    expect(error.message).toBe("something went wrong");
+  });
+});
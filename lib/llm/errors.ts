@@ -0,0 +1,109 @@
+import {
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from "@google/generative-ai";
+
+/**
+ * Error taxonomy for LLM calls.
+ * - rate_limited / unavailable / timeout: the call itself failed, retry later
+ * - blocked: the model refused to answer (safety filters)
+ * - malformed_response: the answer is not parseable JSON
+ * - invalid_payload: the JSON does not match the expected schema
+ * - request_failed: anything else (bad request, auth, ...)
+ */
+export type LlmErrorCode =
+  | "rate_limited"
+  | "unavailable"
+  | "timeout"
+  | "blocked"
+  | "malformed_response"
+  | "invalid_payload"
+  | "request_failed";
+
+const TRANSIENT_CODES: LlmErrorCode[] = [
+  "rate_limited",
+  "unavailable",
+  "timeout",
+];
+
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  readonly status?: number;
+  readonly details?: unknown;
+
+  constructor(
+    code: LlmErrorCode,
+    message: string,
+    { status, details }: { status?: number; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "LlmError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+
+  /** Whether a later attempt has a fair chance of succeeding */
+  get transient(): boolean {
+    return TRANSIENT_CODES.includes(this.code);
+  }
+}
+
+/**
+ * Classify anything thrown by the Gemini SDK (or fetch) as an LlmError
+ */
+export function toLlmError(error: unknown): LlmError {
+  if (error instanceof LlmError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const status = error.status;
+    if (status === 429) {
+      return new LlmError("rate_limited", message, { status });
+    }
+    if (status !== undefined && status >= 500) {
+      return new LlmError("unavailable", message, { status });
+    }
+    return new LlmError("request_failed", message, { status });
+  }
+
+  // Thrown by response.text() when the candidate was blocked
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new LlmError("blocked", message);
+  }
+
+  if (
+    error instanceof GoogleGenerativeAIAbortError ||
+    /timeout|timed out|ETIMEDOUT/i.test(message)
+  ) {
+    return new LlmError("timeout", message);
+  }
+
+  if (/ECONNRESET|fetch failed/i.test(message)) {
+    return new LlmError("unavailable", message);
+  }
+
+  return new LlmError("request_failed", message);
+}
+
+/**
+ * HTTP status an API route should answer with for a failed LLM call
+ */
+export function llmErrorStatus(error: LlmError): number {
+  switch (error.code) {
+    case "rate_limited":
+      return 429;
+    case "timeout":
+      return 504;
+    case "unavailable":
+      return 503;
+    case "blocked":
+    case "malformed_response":
+    case "invalid_payload":
+      return 422;
+    default:
+      return 500;
+  }
+}
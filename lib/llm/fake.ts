@@ -0,0 +1,136 @@
+import {
+  parseEnrichmentResponse,
+  parseExtractedNames,
+} from "@/lib/llm/schemas";
+import type { LLMProvider } from "@/lib/llm/types";
+import type { FieldConfidence } from "@/lib/types";
+
+/**
+ * Deterministic offline provider for development and tests. The same image
+ * or property name always produces the same answer, and answers go through
+ * the same validation as real model output.
+ */
+
+const FAKE_COMMUNITIES = [
+  "OAKWOOD ESTATES",
+  "SUNSET VILLAGE",
+  "CHASEWOOD APARTMENTS",
+  "MAPLE RIDGE HOA",
+  "LAKESIDE COMMONS",
+  "WILLOW CREEK TOWNHOMES",
+  "PINE HOLLOW",
+  "RIVER BEND CONDOMINIUMS",
+  "CEDAR PARK",
+  "STONEGATE",
+];
+
+const FAKE_COMPANIES = [
+  "Summit Community Management",
+  "Harbor Property Group",
+  "Evergreen HOA Services",
+  "Blue Oak Association Management",
+];
+
+const FAKE_CONTACTS = [
+  "Jordan Lee",
+  "Taylor Morgan",
+  "Casey Rivera",
+  "Alex Kim",
+  "Sam Patel",
+];
+
+const CONFIDENCE_LEVELS: FieldConfidence[] = ["high", "medium", "low"];
+
+// FNV-1a, good enough to spread inputs over the fixture lists
+function hash(input: string | Buffer): number {
+  const bytes = typeof input === "string" ? Buffer.from(input) : input;
+  let value = 0x811c9dc5;
+  for (const byte of bytes) {
+    value ^= byte;
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createFakeProvider({
+  latencyMs = 0,
+}: { latencyMs?: number } = {}): LLMProvider {
+  return {
+    name: "fake",
+
+    async extractNames(image) {
+      await delay(latencyMs);
+
+      const seed = hash(image.data);
+      const count = 3 + (seed % 6);
+      const names = Array.from(
+        { length: count },
+        (_, i) => FAKE_COMMUNITIES[(seed + i) % FAKE_COMMUNITIES.length]
+      );
+
+      return parseExtractedNames(JSON.stringify({ names }));
+    },
+
+    async enrichProperty(propertyName, region) {
+      await delay(latencyMs);
+
+      const seed = hash(propertyName.toUpperCase());
+      const slug = slugify(propertyName) || "property";
+      const [city, ...rest] = region.split(",").map((part) => part.trim());
+
+      // Every fifth property has no data, every third no email, so the
+      // skip and re-enrich paths can be exercised offline
+      const payload: Record<string, unknown> =
+        seed % 5 === 0
+          ? {}
+          : {
+              management_company: FAKE_COMPANIES[seed % FAKE_COMPANIES.length],
+              decision_maker_name: FAKE_CONTACTS[seed % FAKE_CONTACTS.length],
+              email: seed % 3 === 0 ? "" : `manager@${slug}.example.com`,
+              phone: `(512) 555-01${String(seed % 100).padStart(2, "0")}`,
+              city: city || undefined,
+              state: rest[rest.length - 1] || undefined,
+              zip_code: String(70000 + (seed % 10000)),
+            };
+
+      if (Object.keys(payload).length > 0) {
+        payload.confidence = Object.fromEntries(
+          Object.keys(payload).map((field, i) => [
+            field,
+            CONFIDENCE_LEVELS[(seed + i) % CONFIDENCE_LEVELS.length],
+          ])
+        );
+      }
+
+      const { data, confidence, rejected } = parseEnrichmentResponse(
+        JSON.stringify(payload)
+      );
+
+      return {
+        data,
+        confidence,
+        sources:
+          Object.keys(data).length > 0
+            ? [
+                {
+                  uri: `https://${slug}.example.com`,
+                  title: `${propertyName} (fake)`,
+                  fields: Object.keys(data),
+                },
+              ]
+            : [],
+        model: "fake",
+        enrichedAt: new Date().toISOString(),
+        rejected,
+      };
+    },
+  };
+}
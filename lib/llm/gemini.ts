@@ -0,0 +1,318 @@
+import {
+  GoogleGenerativeAI,
+  SchemaType,
+  type GroundingMetadata,
+  type ResponseSchema,
+} from "@google/generative-ai";
+import { LlmError, toLlmError } from "@/lib/llm/errors";
+import {
+  parseEnrichmentResponse,
+  parseExtractedNames,
+} from "@/lib/llm/schemas";
+import type {
+  ExtractedNames,
+  LLMImage,
+  LLMProvider,
+  PropertyEnrichment,
+} from "@/lib/llm/types";
+import type { EnrichmentSource, FieldConfidence } from "@/lib/types";
+
+/**
+ * Gemini implementation of LLMProvider: vision model for name extraction,
+ * Google Search grounded model for enrichment.
+ */
+
+// Abort enrichment calls that hang instead of blocking a whole batch
+const ENRICHMENT_TIMEOUT_MS = 90 * 1000;
+
+// Structured output for name extraction (not available together with the
+// Google Search tool, so enrichment answers are validated after the fact)
+const EXTRACTED_NAMES_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    names: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      description: "Property, community or subdivision names in UPPERCASE",
+    },
+  },
+  required: ["names"],
+};
+
+// The SDK typings lag behind the API: segments are objects and the indices
+// field is spelled correctly in real responses
+interface GroundingSupportResponse {
+  segment?: string | { text?: string };
+  groundingChunkIndices?: number[];
+  groundingChunckIndices?: number[];
+  confidenceScores?: number[];
+}
+
+function scoreToConfidence(score: number): FieldConfidence {
+  if (score >= 0.8) return "high";
+  if (score >= 0.5) return "medium";
+  return "low";
+}
+
+// Map grounding chunks to the fields whose values appear in the text they
+// support. If nothing can be attributed, every source backs every field.
+function extractGrounding(
+  metadata: GroundingMetadata | undefined,
+  data: Record<string, string>
+): {
+  sources: EnrichmentSource[];
+  scores: Record<string, number>;
+} {
+  const chunks = metadata?.groundingChunks || [];
+  const supports = (metadata?.groundingSupports ||
+    []) as GroundingSupportResponse[];
+  const chunkFields = chunks.map(() => new Set<string>());
+  const scores: Record<string, number> = {};
+
+  for (const support of supports) {
+    const text = (
+      typeof support.segment === "string"
+        ? support.segment
+        : support.segment?.text || ""
+    ).toLowerCase();
+    const indices =
+      support.groundingChunkIndices || support.groundingChunckIndices || [];
+    const bestScore = Math.max(0, ...(support.confidenceScores || []));
+
+    for (const [key, value] of Object.entries(data)) {
+      if (!text.includes(value.toLowerCase())) continue;
+
+      indices.forEach((index) => chunkFields[index]?.add(key));
+      scores[key] = Math.max(scores[key] || 0, bestScore);
+    }
+  }
+
+  const attributed = chunkFields.some((fields) => fields.size > 0);
+  const sources: EnrichmentSource[] = [];
+  const seen = new Set<string>();
+
+  chunks.forEach((chunk, index) => {
+    const uri = chunk.web?.uri;
+    if (!uri || seen.has(uri)) return;
+    seen.add(uri);
+
+    sources.push({
+      uri,
+      title: chunk.web?.title || null,
+      fields: attributed ? [...chunkFields[index]] : Object.keys(data),
+    });
+  });
+
+  return { sources, scores };
+}
+
+/**
+ * Extracts property/community names from an image or a single PDF page using
+ * a response schema.
+ * Throws `LlmError` when the call or the payload is invalid.
+ */
+async function extractNamesFromImage(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  image: LLMImage
+): Promise<ExtractedNames> {
+  try {
+    console.log(`Starting name extraction from image using ${modelName}...`);
+
+    const model = genAI.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: 0.5, // Lower temperature for more consistent extraction
+        topK: 40,
+        topP: 0.95,
+        responseMimeType: "application/json",
+        responseSchema: EXTRACTED_NAMES_SCHEMA,
+      },
+    });
+
+    const prompt = `
+      You are an expert at analyzing real estate images. Carefully examine this image or document page and extract ALL visible property/community names.
+
+      EXTRACTION RULES:
+      1. Look for any text that represents a property, community, or subdivision name
+      2. Include HOA communities, apartment complexes, condominiums, townhomes, subdivisions
+      3. Extract the COMPLETE name as it appears (e.g., "CHASEWOOD APARTMENTS", "SUNSET VILLAGE HOA")
+      4. Return names in UPPERCASE format
+      5. Remove exact duplicates only
+      6. Do NOT include street addresses, just property/community names
+      7. Look carefully at signs, building facades, entrance markers, and any visible text
+      8. For scanned documents and plat maps, read labels, tables and legends as well
+
+      Return the names in the "names" array, e.g. {"names": ["CHASEWOOD APARTMENTS", "SUNSET VILLAGE"]}.
+      If no property names are visible, return {"names": []}.
+    `;
+
+    const imagePart = {
+      inlineData: {
+        data: image.data.toString("base64"),
+        mimeType: image.mimeType,
+      },
+    };
+
+    const result = await model.generateContent([prompt, imagePart]);
+    const response = await result.response;
+
+    if (response.promptFeedback?.blockReason) {
+      throw new LlmError(
+        "blocked",
+        `Image was blocked by Gemini (${response.promptFeedback.blockReason})`
+      );
+    }
+
+    const extracted = parseExtractedNames(response.text());
+
+    if (extracted.rejected.length > 0) {
+      console.warn(
+        `Rejected ${extracted.rejected.length} invalid names:`,
+        extracted.rejected
+      );
+    }
+
+    return extracted;
+  } catch (error) {
+    console.error("Error extracting names from image:", error);
+    const llmError = toLlmError(error);
+    llmError.message = `Failed to extract names from image: ${llmError.message}`;
+    throw llmError;
+  } finally {
+    console.log("Name extraction completed");
+  }
+}
+
+/**
+ * Enriches property/community info using Gemini with Google Search.
+ * A Flash model is recommended for cost efficiency with web search.
+ * Besides the data it returns the grounding sources and a per-field
+ * confidence. `data` is empty when nothing was found; throws `LlmError`
+ * when the lookup failed or the answer does not match the contract.
+ */
+async function enrichPropertyData(
+  genAI: GoogleGenerativeAI,
+  modelName: string,
+  propertyName: string,
+  parentAddress: string
+): Promise<PropertyEnrichment> {
+  const enrichment: PropertyEnrichment = {
+    data: {},
+    confidence: {},
+    sources: [],
+    model: modelName,
+    enrichedAt: new Date().toISOString(),
+    rejected: [],
+  };
+
+  try {
+    const model = genAI.getGenerativeModel(
+      {
+        model: modelName,
+        // Use Google Search tool to get the most accurate information
+        tools: [{ googleSearch: {} } as any],
+        generationConfig: {
+          temperature: 0.5, // Low temperature for factual data
+          topK: 40,
+          topP: 0.95,
+        },
+      },
+      { timeout: ENRICHMENT_TIMEOUT_MS }
+    );
+
+    const prompt = `
+      You are an expert in real estate property management research. Search the internet.
+      I will provide you with the name of a residential community or a sample address located in "${parentAddress}"
+      (which might includes multiple cities).
+      Your task is to:
+      Identify the Homeowners Association (HOA) or Property Management Company that manages the community.
+      Provide the full name, email address, and phone number of the primary contact
+      (ideally the property manager, community association manager, or decision-maker responsible for amenity services).
+      Confirm whether the management is done by a third-party company or by an internal HOA office.
+      Include the full mailing address of the HOA or management company, broken down into state, county, city, and zip code.
+      Focus specifically on who makes amenity-related decisions because my company offers mobile massage services to residential communities.
+      Output the results strictly as JSON with the following keys:
+      {
+        "management_company": "Company name if found",
+        "decision_maker_name": "Contact person name if found",
+        "email": "Only write Email if found else leave this blank",
+        "phone": "Phone if found", 
+        "state": "State name if found (Full State Name, don't write in abbreviation)",
+        "county": "County name if found" (County Name Only, don't attach 'county' to the end),
+        "city": "City name if found" (City Name Only),
+        "zip_code": "ZIP code if found (Number only)",
+        "confidence": { "<field name>": "high" | "medium" | "low" }
+      }
+
+      Important:
+      - If exact information is not available, return the closest verified info.
+      - Remember email search should be given priority. And if email is not found, then do not write anything in the email field.
+      - Do not include unrelated businesses or generic city government contacts.
+      - Do not add any explanation or text outside the JSON, just return the JSON object.
+      - Only include fields where you have information.
+      - In "confidence", rate every field you filled in: "high" if it comes from the community's or company's own website,
+        "medium" if it comes from a directory or another third-party page, "low" if it is inferred or unverified.
+
+      Property Name: ${propertyName}
+    `;
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    const text = response.text();
+
+    // An empty answer means Gemini had no data for this property
+    if (!text.trim()) {
+      return enrichment;
+    }
+
+    const { data, confidence, rejected } = parseEnrichmentResponse(text);
+    enrichment.data = data;
+    enrichment.rejected = rejected;
+
+    if (rejected.length > 0) {
+      console.warn(`Rejected invalid fields for ${propertyName}:`, rejected);
+    }
+
+    const { sources, scores } = extractGrounding(
+      response.candidates?.[0]?.groundingMetadata,
+      enrichment.data
+    );
+    enrichment.sources = sources;
+
+    // Prefer the model's own rating, fall back to the grounding score
+    for (const key of Object.keys(enrichment.data)) {
+      const level = confidence[key as keyof typeof confidence];
+      if (level) {
+        enrichment.confidence[key] = level;
+      } else if (scores[key] !== undefined) {
+        enrichment.confidence[key] = scoreToConfidence(scores[key]);
+      }
+    }
+
+    return enrichment;
+  } catch (error) {
+    console.error(`Error enriching property data for ${propertyName}:`, error);
+    throw toLlmError(error);
+  }
+}
+
+export function createGeminiProvider({
+  apiKey,
+  extractionModel,
+  enrichmentModel,
+}: {
+  apiKey: string;
+  extractionModel: string;
+  enrichmentModel: string;
+}): LLMProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    extractNames: (image) =>
+      extractNamesFromImage(genAI, extractionModel, image),
+    enrichProperty: (propertyName, region) =>
+      enrichPropertyData(genAI, enrichmentModel, propertyName, region),
+  };
+}
@@ -0,0 +1,59 @@
+import { createFakeProvider } from "@/lib/llm/fake";
+import { createGeminiProvider } from "@/lib/llm/gemini";
+import type { LLMProvider } from "@/lib/llm/types";
+
+export type {
+  ExtractedNames,
+  LLMImage,
+  LLMProvider,
+  PropertyEnrichment,
+} from "@/lib/llm/types";
+
+/**
+ * LLM configuration from the environment:
+ * - LLM_PROVIDER: "gemini" (default) or "fake" for offline runs
+ * - LLM_EXTRACTION_MODEL / LLM_ENRICHMENT_MODEL: model names for the provider
+ * - LLM_FAKE_LATENCY_MS: simulated response time of the fake provider
+ */
+export function getLLMConfig() {
+  return {
+    provider: (process.env.LLM_PROVIDER || "gemini").toLowerCase(),
+    extractionModel: process.env.LLM_EXTRACTION_MODEL || "gemini-2.5-pro",
+    enrichmentModel: process.env.LLM_ENRICHMENT_MODEL || "gemini-2.5-flash",
+    fakeLatencyMs: Number(process.env.LLM_FAKE_LATENCY_MS) || 0,
+  };
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Get the configured provider (created once per server instance)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const config = getLLMConfig();
+
+  switch (config.provider) {
+    case "fake":
+      provider = createFakeProvider({ latencyMs: config.fakeLatencyMs });
+      break;
+    case "gemini": {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable is not set");
+      }
+      provider = createGeminiProvider({
+        apiKey,
+        extractionModel: config.extractionModel,
+        enrichmentModel: config.enrichmentModel,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${config.provider}"`);
+  }
+
+  console.log(`🧠 Using ${provider.name} LLM provider`);
+  return provider;
+}
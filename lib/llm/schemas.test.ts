@@ -0,0 +1,200 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { LlmError } from "@/lib/llm/errors";
+import {
+  parseEnrichmentResponse,
+  parseExtractedNames,
+  parseJson,
+} from "@/lib/llm/schemas";
+
+// Recorded Gemini responses, see __fixtures__
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, "__fixtures__", `${name}.txt`), "utf8");
+
+// The LlmError code a parser throws for a response
+function errorCode(parse: () => unknown): string | undefined {
+  try {
+    parse();
+  } catch (error) {
+    if (error instanceof LlmError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe("parseJson", () => {
+  it("parses plain JSON", () => {
+    expect(parseJson(fixture("names-valid"))).toEqual({
+      names: [
+        "Chasewood Apartments",
+        "The Oaks at Lakeside HOA",
+        "Sunset Village",
+      ],
+    });
+  });
+
+  it("strips a code fence", () => {
+    expect(parseJson(fixture("names-fenced"))).toEqual({
+      names: ["Chasewood Apartments", "Maple Ridge HOA"],
+    });
+  });
+
+  it("finds the JSON in prose around it", () => {
+    expect(parseJson(fixture("names-prose"))).toEqual({
+      names: ["Willow Creek Townhomes", "Pine Hollow"],
+    });
+  });
+
+  it("rejects prose without JSON", () => {
+    expect(errorCode(() => parseJson(fixture("names-prose-only")))).toBe(
+      "malformed_response"
+    );
+  });
+
+  it("rejects truncated JSON", () => {
+    expect(errorCode(() => parseJson(fixture("enrichment-truncated")))).toBe(
+      "malformed_response"
+    );
+  });
+});
+
+describe("parseExtractedNames", () => {
+  it("uppercases valid names", () => {
+    expect(parseExtractedNames(fixture("names-valid"))).toEqual({
+      names: [
+        "CHASEWOOD APARTMENTS",
+        "THE OAKS AT LAKESIDE HOA",
+        "SUNSET VILLAGE",
+      ],
+      rejected: [],
+    });
+  });
+
+  it("accepts fenced and prose-wrapped answers", () => {
+    expect(parseExtractedNames(fixture("names-fenced")).names).toEqual([
+      "CHASEWOOD APARTMENTS",
+      "MAPLE RIDGE HOA",
+    ]);
+    expect(parseExtractedNames(fixture("names-prose")).names).toEqual([
+      "WILLOW CREEK TOWNHOMES",
+      "PINE HOLLOW",
+    ]);
+  });
+
+  it("accepts the older bare array answer", () => {
+    expect(parseExtractedNames(fixture("names-bare-array")).names).toEqual([
+      "STONEGATE",
+      "CEDAR PARK",
+    ]);
+  });
+
+  it("rejects a heading returned as a name and drops repeats", () => {
+    const { names, rejected } = parseExtractedNames(fixture("names-heading"));
+
+    expect(names).toEqual(["CHASEWOOD APARTMENTS", "RIVER BEND CONDOMINIUMS"]);
+    expect(rejected).toEqual([
+      {
+        field: "name",
+        value: "HERE ARE THE NAMES:",
+        reason: "looks like a sentence, not a name",
+      },
+      { field: "name", value: "12", reason: "no letters" },
+    ]);
+  });
+
+  it("rejects headings without a colon", () => {
+    const { names, rejected } = parseExtractedNames(
+      fixture("names-heading-no-colon")
+    );
+
+    expect(names).toEqual(["CHASEWOOD APARTMENTS", "THE OAKS"]);
+    expect(rejected).toEqual(
+      [
+        "HERE ARE THE NAMES",
+        "Property Names",
+        "Here is the list of properties",
+      ].map((value) => ({
+        field: "name",
+        value,
+        reason: "looks like a heading, not a name",
+      }))
+    );
+  });
+
+  it("does not split a prose answer into names", () => {
+    expect(
+      errorCode(() => parseExtractedNames(fixture("names-prose-only")))
+    ).toBe("malformed_response");
+  });
+
+  it("rejects a payload of the wrong shape", () => {
+    expect(errorCode(() => parseExtractedNames(fixture("names-invalid")))).toBe(
+      "invalid_payload"
+    );
+  });
+});
+
+describe("parseEnrichmentResponse", () => {
+  it("keeps valid fields and known confidence levels", () => {
+    expect(parseEnrichmentResponse(fixture("enrichment-valid"))).toEqual({
+      data: {
+        management_company: "Summit Community Management",
+        decision_maker_name: "Jordan Lee",
+        email: "jlee@summitcm.com",
+        phone: "(512) 555-0142",
+        state: "TX",
+        county: "Travis",
+        city: "Austin",
+        zip_code: "78701",
+      },
+      confidence: {
+        management_company: "high",
+        decision_maker_name: "medium",
+        email: "low",
+      },
+      rejected: [],
+    });
+  });
+
+  it("treats blank values as not found and reads numbers as text", () => {
+    const { data, rejected } = parseEnrichmentResponse(
+      fixture("enrichment-fenced")
+    );
+
+    expect(data).toEqual({
+      management_company: "Harbor Property Group",
+      city: "Tampa",
+      state: "FL",
+      zip_code: "33602",
+    });
+    expect(rejected).toEqual([
+      { field: "phone", value: "not found", reason: "not a phone number" },
+    ]);
+  });
+
+  it("drops fields that fail their format check", () => {
+    const { data, rejected } = parseEnrichmentResponse(
+      fixture("enrichment-prose")
+    );
+
+    expect(data).toEqual({
+      management_company: "Evergreen HOA Services",
+      city: "Boise",
+      state: "ID",
+    });
+    expect(rejected.map(({ field }) => field)).toEqual(["email", "zip_code"]);
+  });
+
+  it("rejects a payload that is not an object", () => {
+    expect(
+      errorCode(() => parseEnrichmentResponse(fixture("enrichment-invalid")))
+    ).toBe("invalid_payload");
+  });
+
+  it("rejects a truncated answer", () => {
+    expect(
+      errorCode(() => parseEnrichmentResponse(fixture("enrichment-truncated")))
+    ).toBe("malformed_response");
+  });
+});
@@ -0,0 +1,244 @@
+import { z } from "zod";
+import { LlmError } from "@/lib/llm/errors";
+import { parsePhone } from "@/lib/phone";
+import type { FieldConfidence } from "@/lib/types";
+
+/**
+ * Runtime schemas for model responses. Parsing is kept free of SDK calls so
+ * recorded responses can be replayed offline.
+ */
+
+// Keys of the enrichment prompt contract
+export const ENRICHMENT_FIELDS = [
+  "management_company",
+  "decision_maker_name",
+  "email",
+  "phone",
+  "state",
+  "county",
+  "city",
+  "zip_code",
+] as const;
+
+export type EnrichmentField = (typeof ENRICHMENT_FIELDS)[number];
+
+// A value the model returned that did not pass validation
+export interface RejectedValue {
+  field: string;
+  value: string;
+  reason: string;
+}
+
+/**
+ * Parse a JSON answer, tolerating a code fence or a sentence around it
+ */
+export function parseJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall back to the outermost JSON value in the text
+  }
+
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+  if (start !== -1 && end > start) {
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      // Reported below
+    }
+  }
+
+  throw new LlmError("malformed_response", "Model response is not valid JSON", {
+    details: text.slice(0, 500),
+  });
+}
+
+// Validate a payload, turning schema errors into an invalid_payload error
+function validate<T extends z.ZodType>(
+  schema: T,
+  payload: unknown,
+  label: string
+): z.output<T> {
+  const result = schema.safeParse(payload);
+  if (!result.success) {
+    throw new LlmError(
+      "invalid_payload",
+      `${label} does not match the expected schema: ${z.prettifyError(
+        result.error
+      )}`,
+      { details: payload }
+    );
+  }
+  return result.data;
+}
+
+// ---------------------------------------------------------------------------
+// Name extraction
+// ---------------------------------------------------------------------------
+
+// Older prompts answered with a bare array, both shapes are accepted
+const ExtractedNamesResponse = z.union([
+  z.object({ names: z.array(z.string()) }),
+  z.array(z.string()).transform((names) => ({ names })),
+]);
+
+// Words of the preambles and headings models put around the names, e.g.
+// "HERE ARE THE NAMES" or "PROPERTY NAMES"
+const HEADING_WORDS = new Set([
+  "A",
+  "ALL",
+  "ARE",
+  "BELOW",
+  "EXTRACTED",
+  "FOLLOWING",
+  "FOUND",
+  "FROM",
+  "HERE",
+  "I",
+  "IMAGE",
+  "IS",
+  "LIST",
+  "NAME",
+  "NAMES",
+  "OF",
+  "PROPERTIES",
+  "PROPERTY",
+  "THE",
+  "THESE",
+  "THIS",
+]);
+
+const isHeading = (name: string) =>
+  /^(HERE (ARE|IS)|THE FOLLOWING|I FOUND)\b/.test(name) ||
+  name.split(/[^A-Z0-9]+/).every((word) => !word || HEADING_WORDS.has(word));
+
+const PropertyName = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .min(2, "too short")
+  .max(100, "too long")
+  .refine((name) => /[A-Z]/.test(name), "no letters")
+  .refine((name) => !/[:\n]/.test(name), "looks like a sentence, not a name")
+  .refine((name) => !isHeading(name), "looks like a heading, not a name");
+
+/**
+ * Validate a name extraction response. Invalid names are returned in
+ * `rejected` instead of failing the whole extraction.
+ */
+export function parseExtractedNames(text: string): {
+  names: string[];
+  rejected: RejectedValue[];
+} {
+  const { names } = validate(
+    ExtractedNamesResponse,
+    parseJson(text),
+    "Name extraction response"
+  );
+
+  const accepted = new Set<string>();
+  const rejected: RejectedValue[] = [];
+
+  for (const value of names) {
+    const result = PropertyName.safeParse(value);
+    if (result.success) {
+      accepted.add(result.data);
+    } else {
+      rejected.push({
+        field: "name",
+        value,
+        reason: result.error.issues[0]?.message || "invalid",
+      });
+    }
+  }
+
+  return { names: [...accepted], rejected };
+}
+
+// ---------------------------------------------------------------------------
+// Property enrichment
+// ---------------------------------------------------------------------------
+
+// Blank values are treated as "not found"
+const OptionalText = z
+  .union([z.string(), z.number()])
+  .nullish()
+  .transform((value) =>
+    value === null || value === undefined
+      ? undefined
+      : String(value).trim() || undefined
+  );
+
+const EnrichmentResponse = z.object({
+  management_company: OptionalText,
+  decision_maker_name: OptionalText,
+  email: OptionalText,
+  phone: OptionalText,
+  state: OptionalText,
+  county: OptionalText,
+  city: OptionalText,
+  zip_code: OptionalText,
+  confidence: z.record(z.string(), z.union([z.string(), z.number()])).nullish(),
+});
+
+// Format checks for fields that are easy to get subtly wrong
+const FIELD_VALIDATORS: Partial<Record<EnrichmentField, z.ZodType>> = {
+  email: z.email("not a valid email address"),
+  phone: z
+    .string()
+    .refine((phone) => parsePhone(phone) !== null, "not a phone number"),
+  zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, "not a US ZIP code"),
+};
+
+const CONFIDENCE_LEVELS: FieldConfidence[] = ["high", "medium", "low"];
+
+/**
+ * Validate an enrichment response. The payload must be an object; fields
+ * that fail their format check are dropped and reported in `rejected`.
+ */
+export function parseEnrichmentResponse(text: string): {
+  data: Partial<Record<EnrichmentField, string>>;
+  confidence: Partial<Record<EnrichmentField, FieldConfidence>>;
+  rejected: RejectedValue[];
+} {
+  const payload = validate(
+    EnrichmentResponse,
+    parseJson(text),
+    "Enrichment response"
+  );
+
+  const data: Partial<Record<EnrichmentField, string>> = {};
+  const confidence: Partial<Record<EnrichmentField, FieldConfidence>> = {};
+  const rejected: RejectedValue[] = [];
+
+  for (const field of ENRICHMENT_FIELDS) {
+    const value = payload[field];
+    if (!value) continue;
+
+    const validator = FIELD_VALIDATORS[field];
+    const check = validator?.safeParse(value);
+    if (check && !check.success) {
+      rejected.push({
+        field,
+        value,
+        reason: check.error.issues[0]?.message || "invalid",
+      });
+      continue;
+    }
+
+    data[field] = value;
+
+    const level = String(payload.confidence?.[field] ?? "").toLowerCase();
+    if (CONFIDENCE_LEVELS.includes(level as FieldConfidence)) {
+      confidence[field] = level as FieldConfidence;
+    }
+  }
+
+  return { data, confidence, rejected };
+}
@@ -0,0 +1,41 @@
+import type { RejectedValue } from "@/lib/llm/schemas";
+import type { EnrichmentSource, FieldConfidence } from "@/lib/types";
+
+// An image, or a single-page PDF split from a larger document
+export interface LLMImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ExtractedNames {
+  names: string[];
+  rejected: RejectedValue[]; // entries that are not plausible property names
+}
+
+/**
+ * Result of one enrichment call. `data`, `confidence` and the `fields` of each
+ * source use the keys of the prompt contract (email, phone, ...).
+ */
+export interface PropertyEnrichment {
+  data: Record<string, string>;
+  confidence: Record<string, FieldConfidence>;
+  sources: EnrichmentSource[];
+  model: string;
+  enrichedAt: string;
+  rejected: RejectedValue[]; // values that failed validation and were dropped
+}
+
+/**
+ * What the app needs from a language model. Implementations throw `LlmError`
+ * so callers can tell transient failures from bad answers.
+ */
+export interface LLMProvider {
+  name: string;
+  // Property/community names visible in an image or document page
+  extractNames(image: LLMImage): Promise<ExtractedNames>;
+  // Management company and decision-maker contact for a property in a region
+  enrichProperty(
+    propertyName: string,
+    region: string
+  ): Promise<PropertyEnrichment>;
+}
@@ -0,0 +1,174 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectPages } from "@/lib/supabase/paging";
+import { normalizeCompanyName } from "@/lib/property-matching";
+import type { ManagementCompany, Property } from "@/lib/types";
+
+/**
+ * Management companies (management_companies) and the link from each
+ * property to the company named in its hoa_or_management_company column.
+ */
+
+const ID_CHUNK_SIZE = 200;
+
+type CompanyColumn = Pick<Property, "id" | "hoa_or_management_company">;
+
+// Companies for the given names, created when they do not exist yet
+async function getOrCreateCompanies(
+  names: Map<string, string>
+): Promise<Map<string, string>> {
+  const supabase = await createClient();
+  const normalizedNames = [...names.keys()];
+  const companyIds = new Map<string, string>();
+
+  for (let i = 0; i < normalizedNames.length; i += ID_CHUNK_SIZE) {
+    const chunk = normalizedNames.slice(i, i + ID_CHUNK_SIZE);
+
+    // Another batch may create the same company, so never insert twice
+    const { error: insertError } = await supabase
+      .from("management_companies")
+      .upsert(
+        chunk.map((normalized) => ({
+          name: names.get(normalized),
+          normalized_name: normalized,
+        })),
+        { onConflict: "normalized_name", ignoreDuplicates: true }
+      );
+
+    if (insertError) {
+      throw new Error(`Failed to create companies: ${insertError.message}`);
+    }
+
+    const { data, error } = await supabase
+      .from("management_companies")
+      .select("id, normalized_name")
+      .in("normalized_name", chunk);
+
+    if (error) {
+      throw new Error(`Failed to load companies: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => companyIds.set(row.normalized_name, row.id));
+  }
+
+  return companyIds;
+}
+
+/**
+ * Point properties at the company named in hoa_or_management_company,
+ * creating companies as needed; properties without one are unlinked.
+ * Errors are only logged, like verifyPropertyEmails.
+ */
+export async function linkManagementCompanies(
+  properties: CompanyColumn[]
+): Promise<void> {
+  if (properties.length === 0) return;
+
+  try {
+    const supabase = await createClient();
+    const spellings = new Map<string, string>();
+    const propertyIds = new Map<string | null, string[]>();
+
+    for (const property of properties) {
+      const name = property.hoa_or_management_company?.trim() || "";
+      const normalized = name ? normalizeCompanyName(name) : "";
+      if (normalized && !spellings.has(normalized)) {
+        spellings.set(normalized, name);
+      }
+
+      const key = normalized || null;
+      propertyIds.set(key, [...(propertyIds.get(key) || []), property.id]);
+    }
+
+    const companyIds = await getOrCreateCompanies(spellings);
+
+    for (const [normalized, ids] of propertyIds) {
+      const companyId = normalized ? companyIds.get(normalized) : null;
+
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const { error } = await supabase
+          .from("properties")
+          .update({ management_company_id: companyId || null })
+          .in("id", ids.slice(i, i + ID_CHUNK_SIZE));
+
+        if (error) {
+          throw new Error(`Failed to link properties: ${error.message}`);
+        }
+      }
+    }
+
+    console.log(
+      `🏢 Linked ${properties.length} properties to ${companyIds.size} management companies`
+    );
+  } catch (error) {
+    console.error("💥 Error linking management companies:", error);
+  }
+}
+
+/**
+ * Link every property that names a company but is not linked yet, e.g.
+ * properties saved before companies existed. Returns how many were checked.
+ */
+export async function linkUnlinkedProperties(): Promise<number> {
+  const supabase = await createClient();
+  let checked = 0;
+
+  for await (const rows of selectPages("unlinked properties", () =>
+    supabase
+      .from("properties")
+      .select("id, hoa_or_management_company")
+      .is("management_company_id", null)
+      .is("deleted_at", null)
+      .not("hoa_or_management_company", "is", null)
+  )) {
+    await linkManagementCompanies(rows);
+    checked += rows.length;
+  }
+
+  return checked;
+}
+
+/**
+ * Get all management companies by name
+ */
+export async function getManagementCompanies(): Promise<ManagementCompany[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("management_companies")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching management companies:", error);
+    return [];
+  }
+
+  return (data || []) as ManagementCompany[];
+}
+
+/**
+ * Set the company-level contact. Returns null when the company does not
+ * exist.
+ */
+export async function updateCompanyContact(
+  id: string,
+  contact: Partial<
+    Pick<
+      ManagementCompany,
+      "contact_name" | "contact_email" | "contact_phone" | "contact_phone_ext"
+    >
+  >
+): Promise<ManagementCompany | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("management_companies")
+    .update({ ...contact, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update company: ${error.message}`);
+  }
+
+  return data as ManagementCompany | null;
+}
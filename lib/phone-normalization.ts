@@ -0,0 +1,83 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectPages } from "@/lib/supabase/paging";
+import { parsePhone } from "@/lib/phone";
+
+/**
+ * Rewrite phones saved before normalization into E.164 plus extension.
+ * Numbers that cannot be parsed are left as they are.
+ */
+
+// Tables with a phone, and the column its extension goes to
+const PHONE_COLUMNS = [
+  {
+    table: "properties",
+    phone: "decision_maker_phone",
+    extension: "decision_maker_phone_ext",
+  },
+  { table: "property_contacts", phone: "phone", extension: "phone_ext" },
+  {
+    table: "management_companies",
+    phone: "contact_phone",
+    extension: "contact_phone_ext",
+  },
+] as const;
+
+export interface PhoneNormalizationResult {
+  checked: number;
+  updated: number;
+  unparseable: number;
+}
+
+/**
+ * Normalize every saved phone that is not in E.164 yet
+ */
+export async function normalizeSavedPhones(): Promise<PhoneNormalizationResult> {
+  const supabase = await createClient();
+  const result: PhoneNormalizationResult = {
+    checked: 0,
+    updated: 0,
+    unparseable: 0,
+  };
+
+  for (const { table, phone, extension } of PHONE_COLUMNS) {
+    for await (const page of selectPages(`${table} phones`, () =>
+      supabase
+        .from(table)
+        .select(`id, ${phone}, ${extension}`)
+        .not(phone, "is", null)
+        .not(phone, "match", "^\\+[0-9]{8,15}$")
+    )) {
+      const rows = page as unknown as Array<Record<string, string | null>>;
+
+      for (const row of rows) {
+        const parsed = parsePhone(row[phone] || "");
+        if (!parsed) {
+          result.unparseable++;
+          continue;
+        }
+
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({
+            [phone]: parsed.e164,
+            [extension]: parsed.extension || row[extension] || null,
+          })
+          .eq("id", row.id);
+
+        if (updateError) {
+          throw new Error(
+            `Failed to update ${table} phone: ${updateError.message}`
+          );
+        }
+        result.updated++;
+      }
+
+      result.checked += rows.length;
+    }
+  }
+
+  console.log(
+    `📞 Normalized ${result.updated} of ${result.checked} phones (${result.unparseable} could not be parsed)`
+  );
+  return result;
+}
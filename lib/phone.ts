@@ -0,0 +1,88 @@
+/**
+ * Phone numbers are stored in E.164 (+15615551234) with the extension in a
+ * separate column, whatever format enrichment, imports or reps wrote them
+ * in. Numbers without a country code are taken as US/Canada numbers.
+ */
+
+export interface NormalizedPhone {
+  e164: string;
+  extension: string | null;
+}
+
+// "ext 4", "ext. 4", "extension 4", "x4", "#4" at the end of the number
+const EXTENSION = /\s*(?:,|;)?\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+
+// Digits, spaces and the usual separators, nothing else
+const NUMBER = /^\+?[\d\s().\-/]+$/;
+
+/**
+ * Digits of a phone in any format, for searching
+ */
+export const phoneDigits = (value: string) => value.replace(/\D/g, "");
+
+/**
+ * Whether a search term written in any format (561-555, (561) 555, +1561)
+ * is part of a stored phone. Terms with fewer than three digits never
+ * match, so names with a number in them do not match every phone.
+ */
+export function phoneMatches(
+  phone: string | null | undefined,
+  term: string
+): boolean {
+  const digits = phoneDigits(term);
+  return (
+    Boolean(phone) && digits.length >= 3 && phoneDigits(phone!).includes(digits)
+  );
+}
+
+/**
+ * Parse a phone in any common format, or null when it is not a number we
+ * can dial: too short or long, or a US/Canada number with an impossible
+ * area code or exchange
+ */
+export function parsePhone(raw: string): NormalizedPhone | null {
+  let value = raw.trim();
+  let extension: string | null = null;
+
+  const match = value.match(EXTENSION);
+  if (match) {
+    extension = match[1];
+    value = value.slice(0, match.index).trim();
+  }
+
+  if (!NUMBER.test(value)) return null;
+
+  let digits = phoneDigits(value);
+  if (value.startsWith("+")) {
+    if (digits.length < 8 || digits.length > 15) return null;
+    if (digits.startsWith("1") && !isNanpNumber(digits.slice(1))) return null;
+    return { e164: `+${digits}`, extension };
+  }
+
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  }
+  if (!isNanpNumber(digits)) return null;
+
+  return { e164: `+1${digits}`, extension };
+}
+
+// Ten digits, area code and exchange starting with 2-9
+const isNanpNumber = (digits: string) => /^[2-9]\d{2}[2-9]\d{6}$/.test(digits);
+
+/**
+ * Show a stored phone the way reps write it: (561) 555-1234 for US/Canada
+ * numbers, E.164 for the rest, and the extension after it. Values that are
+ * not E.164 (saved before normalization) are shown as they are.
+ */
+export function formatPhone(
+  phone: string | null | undefined,
+  extension?: string | null
+): string {
+  if (!phone) return "";
+
+  const nanp = phone.match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+  const number = nanp ? `(${nanp[1]}) ${nanp[2]}-${nanp[3]}` : phone;
+
+  return extension ? `${number} ext. ${extension}` : number;
+}
@@ -0,0 +1,1371 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectAll, selectPages } from "@/lib/supabase/paging";
+import { getLLMProvider, type PropertyEnrichment } from "@/lib/llm";
+import { LlmError } from "@/lib/llm/errors";
+import { sendCompletionEmail } from "@/lib/email";
+import { incrementProcessPropertiesRequests } from "@/lib/request-tracker";
+import {
+  createDuplicateReviews,
+  findLikelyDuplicates,
+} from "@/lib/property-duplicates";
+import { linkManagementCompanies } from "@/lib/management-companies";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import { parsePhone } from "@/lib/phone";
+import { GEOGRAPHY_FIELDS, normalizeGeography } from "@/lib/geography";
+import type {
+  DeadLetterItem,
+  DuplicateCandidate,
+  Property,
+  ProcessingBatchProgress,
+  ProcessingJob,
+  ProcessingJobItem,
+  ProcessingJobItemStatus,
+  ProcessingJobProgress,
+  ReEnrichFilter,
+} from "@/lib/types";
+
+/**
+ * Durable processing queue for /api/process-properties.
+ * A job is created with one item per property name; workers claim items in
+ * batches, so a run that dies half way (timeout, redeploy) can be resumed by
+ * simply running the job again. "import" jobs create new properties,
+ * "re_enrich" jobs fill in missing data on existing ones.
+ */
+
+// Optimized batch size for better performance
+export const PROCESSING_BATCH_SIZE = 50;
+
+// Items locked for longer than this are considered abandoned by a dead worker
+const ITEM_LOCK_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+
+// Pause between batches to stay friendly with the LLM rate limits
+const BATCH_DELAY_MS = 5000;
+
+// Transient failures (429/5xx/timeouts) are retried with exponential backoff;
+// after the last attempt the item is dead-lettered (status "failed")
+export const MAX_ITEM_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000; // 30s, 60s, 2m, 4m...
+const RETRY_MAX_DELAY_MS = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * Backoff before the next attempt, with jitter so a rate-limited batch
+ * doesn't retry in lockstep
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS);
+}
+
+// Limits for the re-enrichment property lookup
+const ID_CHUNK_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Enrichment result keys and the property columns they fill
+const ENRICHED_FIELD_COLUMNS = {
+  city: "city",
+  county: "county",
+  state: "state",
+  zip_code: "zip_code",
+  decision_maker_name: "decision_maker_name",
+  email: "decision_maker_email",
+  phone: "decision_maker_phone",
+  management_company: "hoa_or_management_company",
+} as const;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const nowIso = () => new Date().toISOString();
+
+// Insert a job row and its items; the job is removed again if the items fail
+async function insertJob(
+  job: Pick<
+    ProcessingJob,
+    "user_id" | "user_email" | "parent_address" | "filename" | "mode"
+  >,
+  items: Array<{ propertyName: string; propertyId?: string | null }>
+): Promise<ProcessingJob | null> {
+  try {
+    const supabase = await createClient();
+
+    const { data: createdJob, error: jobError } = await supabase
+      .from("processing_jobs")
+      .insert({
+        ...job,
+        status: "queued",
+        total_items: items.length,
+      })
+      .select()
+      .single();
+
+    if (jobError || !createdJob) {
+      console.error("Error creating processing job:", jobError);
+      return null;
+    }
+
+    const itemRows = items.map(({ propertyName, propertyId }, position) => ({
+      job_id: createdJob.id,
+      position,
+      property_name: propertyName,
+      property_id: propertyId || null,
+      status: "queued",
+    }));
+
+    const { error: itemsError } = await supabase
+      .from("processing_job_items")
+      .insert(itemRows);
+
+    if (itemsError) {
+      console.error("Error queuing processing job items:", itemsError);
+      // Don't leave an empty job behind
+      await supabase.from("processing_jobs").delete().eq("id", createdJob.id);
+      return null;
+    }
+
+    return createdJob as ProcessingJob;
+  } catch (error) {
+    console.error("Error creating processing job:", error);
+    return null;
+  }
+}
+
+/**
+ * Create a job and queue one item per property name
+ */
+export async function createProcessingJob({
+  userId,
+  userEmail,
+  propertyNames,
+  parentAddress,
+  filename,
+}: {
+  userId: string | null;
+  userEmail: string;
+  propertyNames: string[];
+  parentAddress: string;
+  filename?: string | null;
+}): Promise<ProcessingJob | null> {
+  return insertJob(
+    {
+      user_id: userId,
+      user_email: userEmail,
+      parent_address: parentAddress,
+      filename: filename || null,
+      mode: "import",
+    },
+    propertyNames.map((propertyName) => ({ propertyName }))
+  );
+}
+
+/**
+ * Find existing properties matching a re-enrichment filter
+ */
+export async function findPropertiesToReEnrich(
+  filter: ReEnrichFilter
+): Promise<Pick<Property, "id" | "property_address">[]> {
+  const supabase = await createClient();
+
+  const missingConditions = [
+    ...(filter.missingEmail
+      ? ["decision_maker_email.is.null", "decision_maker_email.eq."]
+      : []),
+    ...(filter.missingPhone
+      ? ["decision_maker_phone.is.null", "decision_maker_phone.eq."]
+      : []),
+  ];
+  const updatedBefore =
+    filter.olderThanDays && filter.olderThanDays > 0
+      ? new Date(Date.now() - filter.olderThanDays * DAY_MS).toISOString()
+      : null;
+
+  // Large id lists are queried in chunks to keep the request URL short
+  const idChunks: (string[] | null)[] = filter.propertyIds
+    ? Array.from(
+        { length: Math.ceil(filter.propertyIds.length / ID_CHUNK_SIZE) },
+        (_, i) =>
+          filter.propertyIds!.slice(i * ID_CHUNK_SIZE, (i + 1) * ID_CHUNK_SIZE)
+      )
+    : [null];
+
+  const matches: Pick<Property, "id" | "property_address" | "created_at">[] =
+    [];
+
+  for (const ids of idChunks) {
+    matches.push(
+      ...(await selectAll<
+        Pick<Property, "id" | "property_address" | "created_at">
+      >("properties", () => {
+        let query = supabase
+          .from("properties")
+          .select("id, property_address, created_at")
+          .not("property_address", "is", null)
+          .is("deleted_at", null);
+
+        if (missingConditions.length > 0) {
+          query = query.or(missingConditions.join(","));
+        }
+        if (updatedBefore) {
+          query = query.lt("updated_at", updatedBefore);
+        }
+        if (ids) {
+          query = query.in("id", ids);
+        }
+        return query;
+      }))
+    );
+  }
+
+  return matches
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(({ id, property_address }) => ({ id, property_address }));
+}
+
+// Human readable summary of a filter, stored as the job's parent address
+function describeReEnrichFilter(filter: ReEnrichFilter): string {
+  const parts = [
+    filter.missingEmail && "missing email",
+    filter.missingPhone && "missing phone",
+    filter.olderThanDays && `older than ${filter.olderThanDays} days`,
+    filter.propertyIds && `${filter.propertyIds.length} selected`,
+  ].filter(Boolean);
+
+  return `Re-enrichment (${parts.join(", ") || "all properties"})`;
+}
+
+/**
+ * Create a job that re-enriches the given existing properties
+ */
+export async function createReEnrichJob({
+  userId,
+  userEmail,
+  filter,
+  properties,
+}: {
+  userId: string | null;
+  userEmail: string;
+  filter: ReEnrichFilter;
+  properties: Pick<Property, "id" | "property_address">[];
+}): Promise<ProcessingJob | null> {
+  return insertJob(
+    {
+      user_id: userId,
+      user_email: userEmail,
+      parent_address: describeReEnrichFilter(filter),
+      filename: null,
+      mode: "re_enrich",
+    },
+    properties.map((property) => ({
+      propertyName: property.property_address!,
+      propertyId: property.id,
+    }))
+  );
+}
+
+/**
+ * Get a single job by id
+ */
+export async function getProcessingJob(
+  jobId: string
+): Promise<ProcessingJob | null> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("processing_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .single();
+
+    if (error) {
+      console.error(`Error fetching processing job ${jobId}:`, error);
+      return null;
+    }
+
+    return data as ProcessingJob;
+  } catch (error) {
+    console.error(`Error fetching processing job ${jobId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the most recent jobs started by a user (newest first)
+ */
+export async function getRecentProcessingJobs(
+  userId: string,
+  limit: number = 5
+): Promise<ProcessingJob[]> {
+  try {
+    const supabase = await createClient();
+    const { data, error } = await supabase
+      .from("processing_jobs")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching recent processing jobs:", error);
+      return [];
+    }
+
+    return (data || []) as ProcessingJob[];
+  } catch (error) {
+    console.error("Error fetching recent processing jobs:", error);
+    return [];
+  }
+}
+
+/**
+ * Get a job with per-batch counts and the status of every property
+ */
+export async function getProcessingJobProgress(
+  jobId: string
+): Promise<ProcessingJobProgress | null> {
+  try {
+    const job = await getProcessingJob(jobId);
+    if (!job) return null;
+
+    const supabase = await createClient();
+    const items = (
+      await selectAll<ProcessingJobProgress["items"][number]>("job items", () =>
+        supabase
+          .from("processing_job_items")
+          .select(
+            "id, position, property_name, status, attempts, last_error, next_attempt_at, property_id"
+          )
+          .eq("job_id", jobId)
+      )
+    ).sort((a, b) => a.position - b.position);
+    const batches = new Map<number, ProcessingBatchProgress>();
+
+    for (const item of items) {
+      const batch = Math.floor(item.position / PROCESSING_BATCH_SIZE) + 1;
+      const progress = batches.get(batch) || {
+        batch,
+        total: 0,
+        queued: 0,
+        processing: 0,
+        processed: 0,
+        skipped: 0,
+        failed: 0,
+      };
+      progress.total++;
+      progress[item.status]++;
+      batches.set(batch, progress);
+    }
+
+    return {
+      job,
+      batches: [...batches.values()].sort((a, b) => a.batch - b.batch),
+      items,
+    };
+  } catch (error) {
+    console.error(`Error fetching progress for job ${jobId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get permanently failed items (the dead-letter list), optionally for one user
+ */
+export async function getDeadLetterItems(
+  userId?: string
+): Promise<DeadLetterItem[]> {
+  try {
+    const supabase = await createClient();
+    const rows = await selectAll("dead-letter items", () => {
+      let query = supabase
+        .from("processing_job_items")
+        .select(
+          "id, job_id, property_name, attempts, last_error, updated_at, processing_jobs!inner(parent_address, filename, user_id)"
+        )
+        .eq("status", "failed");
+
+      if (userId) {
+        query = query.eq("processing_jobs.user_id", userId);
+      }
+      return query;
+    });
+
+    const items = rows as unknown as DeadLetterItem[];
+    return items.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  } catch (error) {
+    console.error("Error fetching dead-letter items:", error);
+    return [];
+  }
+}
+
+/**
+ * Put dead-lettered items back in the queue with a fresh set of attempts.
+ * Returns the ids of the jobs that have work again.
+ */
+export async function requeueDeadLetterItems(
+  itemIds: string[]
+): Promise<string[]> {
+  if (itemIds.length === 0) return [];
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("processing_job_items")
+    .update({
+      status: "queued",
+      attempts: 0,
+      next_attempt_at: null,
+      locked_at: null,
+      processed_at: null,
+      updated_at: nowIso(),
+    })
+    .in("id", itemIds)
+    .eq("status", "failed")
+    .select("job_id");
+
+  if (error) {
+    throw new Error(`Failed to re-queue items: ${error.message}`);
+  }
+
+  const jobIds = [...new Set((data || []).map((row) => row.job_id as string))];
+  if (jobIds.length === 0) return [];
+
+  // Reopen the jobs so the worker (and the progress panel) picks them up
+  const { error: jobError } = await supabase
+    .from("processing_jobs")
+    .update({
+      status: "queued",
+      completed_at: null,
+      heartbeat_at: null,
+      updated_at: nowIso(),
+    })
+    .in("id", jobIds);
+
+  if (jobError) {
+    throw new Error(`Failed to reopen jobs: ${jobError.message}`);
+  }
+
+  await Promise.all(jobIds.map((jobId) => refreshJobCounts(jobId)));
+
+  return jobIds;
+}
+
+/**
+ * Find jobs that still have work left and no live worker attached
+ */
+export async function getResumableJobIds(): Promise<string[]> {
+  try {
+    const supabase = await createClient();
+    const staleBefore = new Date(
+      Date.now() - ITEM_LOCK_TIMEOUT_MS
+    ).toISOString();
+
+    const { data, error } = await supabase
+      .from("processing_jobs")
+      .select("id")
+      .in("status", ["queued", "running"])
+      .or(`heartbeat_at.is.null,heartbeat_at.lt.${staleBefore}`)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching resumable jobs:", error);
+      return [];
+    }
+
+    return (data || []).map((row) => row.id);
+  } catch (error) {
+    console.error("Error fetching resumable jobs:", error);
+    return [];
+  }
+}
+
+// Put items abandoned by a crashed worker back in the queue
+async function releaseStaleItems(jobId: string): Promise<void> {
+  const supabase = await createClient();
+  const staleBefore = new Date(Date.now() - ITEM_LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabase
+    .from("processing_job_items")
+    .update({
+      status: "queued",
+      locked_at: null,
+      last_error: "Worker stopped before the item finished",
+      updated_at: nowIso(),
+    })
+    .eq("job_id", jobId)
+    .eq("status", "processing")
+    .lt("locked_at", staleBefore)
+    .select("id");
+
+  if (error) {
+    console.error(`Error releasing stale items for job ${jobId}:`, error);
+    return;
+  }
+
+  if (data && data.length > 0) {
+    console.log(`♻️ Re-queued ${data.length} abandoned items for job ${jobId}`);
+  }
+}
+
+// Claim the next batch of queued items for this worker
+async function claimNextBatch(
+  jobId: string,
+  batchSize: number
+): Promise<ProcessingJobItem[]> {
+  const supabase = await createClient();
+
+  const { data: candidates, error: selectError } = await supabase
+    .from("processing_job_items")
+    .select("id")
+    .eq("job_id", jobId)
+    .eq("status", "queued")
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${nowIso()}`)
+    .order("position", { ascending: true })
+    .limit(batchSize);
+
+  if (selectError) {
+    throw new Error(`Failed to read queued items: ${selectError.message}`);
+  }
+
+  if (!candidates || candidates.length === 0) return [];
+
+  // Only items still queued are claimed, so concurrent workers never share one
+  const { data: claimed, error: claimError } = await supabase
+    .from("processing_job_items")
+    .update({ status: "processing", locked_at: nowIso(), updated_at: nowIso() })
+    .in(
+      "id",
+      candidates.map((item) => item.id)
+    )
+    .eq("status", "queued")
+    .select("*");
+
+  if (claimError) {
+    throw new Error(`Failed to claim queued items: ${claimError.message}`);
+  }
+
+  return ((claimed || []) as ProcessingJobItem[]).sort(
+    (a, b) => a.position - b.position
+  );
+}
+
+async function updateItem(
+  item: ProcessingJobItem,
+  status: ProcessingJobItemStatus,
+  fields: Partial<
+    Pick<
+      ProcessingJobItem,
+      "last_error" | "property_id" | "attempts" | "next_attempt_at"
+    >
+  > = {}
+): Promise<void> {
+  const supabase = await createClient();
+  const finished = status !== "queued" && status !== "processing";
+
+  const { error } = await supabase
+    .from("processing_job_items")
+    .update({
+      status,
+      locked_at: null,
+      processed_at: finished ? nowIso() : null,
+      updated_at: nowIso(),
+      ...fields,
+    })
+    .eq("id", item.id);
+
+  if (error) {
+    console.error(`Error updating job item ${item.property_name}:`, error);
+  }
+}
+
+// Earliest time a queued item (waiting for a retry) becomes due
+async function getNextRetryAt(jobId: string): Promise<number | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("processing_job_items")
+    .select("next_attempt_at")
+    .eq("job_id", jobId)
+    .eq("status", "queued")
+    .not("next_attempt_at", "is", null)
+    .order("next_attempt_at", { ascending: true })
+    .limit(1);
+
+  if (error || !data || data.length === 0) return null;
+  return new Date(data[0].next_attempt_at).getTime();
+}
+
+// Re-queue a transient failure with backoff, or dead-letter it.
+// LLM errors know whether they are transient, other errors must say so.
+async function recordFailure(
+  item: ProcessingJobItem,
+  error: unknown,
+  { transient = error instanceof LlmError && error.transient } = {}
+): Promise<"retrying" | "failed"> {
+  const attempts = item.attempts + 1;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (transient && attempts < MAX_ITEM_ATTEMPTS) {
+    const retryDelay = getRetryDelayMs(attempts);
+    console.log(
+      `🔁 ${item.property_name}: attempt ${attempts}/${MAX_ITEM_ATTEMPTS} failed, retrying in ${Math.round(
+        retryDelay / 1000
+      )}s`
+    );
+    await updateItem(item, "queued", {
+      attempts,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + retryDelay).toISOString(),
+    });
+    return "retrying";
+  }
+
+  console.log(`☠️ ${item.property_name}: moved to dead-letter list`);
+  await updateItem(item, "failed", {
+    attempts,
+    last_error: message,
+    next_attempt_at: null,
+  });
+  return "failed";
+}
+
+// Batch function to check existing properties
+async function getExistingProperties(
+  propertyNames: string[]
+): Promise<Map<string, string>> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("id, property_address")
+    .in("property_address", propertyNames);
+
+  if (error) {
+    throw new Error(`Failed to check existing properties: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row) => [row.property_address as string, row.id])
+  );
+}
+
+// Property column for a key of the enrichment prompt contract
+function toColumn(key: string): keyof Property | null {
+  return (
+    ENRICHED_FIELD_COLUMNS[key as keyof typeof ENRICHED_FIELD_COLUMNS] || null
+  );
+}
+
+// Provenance columns for the columns an enrichment wrote; sources and
+// confidence of columns it did not touch are kept as they were
+function getProvenance(
+  enrichment: PropertyEnrichment,
+  writtenColumns: string[],
+  existing?: Pick<Property, "enrichment_sources" | "field_confidence">
+): Pick<
+  Property,
+  "enrichment_sources" | "field_confidence" | "enrichment_model" | "enriched_at"
+> {
+  const written = new Set(writtenColumns);
+
+  const fieldConfidence = { ...(existing?.field_confidence || {}) };
+  for (const [key, level] of Object.entries(enrichment.confidence)) {
+    const column = toColumn(key);
+    if (column && written.has(column)) fieldConfidence[column] = level;
+  }
+
+  const keptSources = (existing?.enrichment_sources || []).flatMap((source) => {
+    const fields = source.fields.filter((field) => !written.has(field));
+    return fields.length > 0 ? [{ ...source, fields }] : [];
+  });
+  const newSources = enrichment.sources.flatMap((source) => {
+    const fields = source.fields
+      .map(toColumn)
+      .filter((column): column is keyof Property =>
+        Boolean(column && written.has(column))
+      );
+    return fields.length > 0 ? [{ ...source, fields }] : [];
+  });
+
+  return {
+    enrichment_sources: [...keptSources, ...newSources],
+    field_confidence: fieldConfidence,
+    enrichment_model: enrichment.model,
+    enriched_at: enrichment.enrichedAt,
+  };
+}
+
+// Row to insert for a newly enriched property
+function toPropertyRow(
+  propertyName: string,
+  enrichment: PropertyEnrichment
+): DuplicateCandidate {
+  const enrichedData = enrichment.data;
+  const phone = enrichedData.phone ? parsePhone(enrichedData.phone) : null;
+  const { geography, coordinates, flags } = normalizeGeography(enrichedData);
+  const writtenColumns = Object.keys(enrichedData).flatMap((key) => {
+    const column = toColumn(key);
+    return column ? [column] : [];
+  });
+
+  return {
+    property_address: propertyName,
+    ...geography,
+    ...coordinates,
+    geo_flags: flags,
+    decision_maker_name: enrichedData.decision_maker_name || null,
+    decision_maker_email: enrichedData.email || null,
+    decision_maker_phone: phone?.e164 || null,
+    decision_maker_phone_ext: phone?.extension || null,
+    hoa_or_management_company: enrichedData.management_company || null,
+    ...getProvenance(enrichment, writtenColumns),
+  };
+}
+
+// Batch function to insert new properties, returns inserted ids by name
+async function batchInsertProperties(
+  insertData: DuplicateCandidate[]
+): Promise<Map<string, string>> {
+  if (insertData.length === 0) return new Map();
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("properties")
+    .insert(insertData)
+    .select("id, property_address, hoa_or_management_company");
+
+  if (error) {
+    throw new Error(`Batch insertion failed: ${error.message}`);
+  }
+
+  await linkManagementCompanies(data || []);
+  await verifyPropertyEmails((data || []).map((row) => row.id));
+
+  return new Map(
+    (data || []).map((row) => [row.property_address as string, row.id])
+  );
+}
+
+// Recalculate job counters from its items (source of truth after a crash)
+async function refreshJobCounts(jobId: string): Promise<{
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  remaining: number;
+}> {
+  const supabase = await createClient();
+  const counts = {
+    total: 0,
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+    remaining: 0,
+  };
+
+  for await (const rows of selectPages<
+    Pick<ProcessingJobItem, "id" | "status">
+  >("job items", () =>
+    supabase
+      .from("processing_job_items")
+      .select("id, status")
+      .eq("job_id", jobId)
+  )) {
+    for (const row of rows) {
+      counts.total++;
+      if (row.status === "processed") counts.processed++;
+      else if (row.status === "skipped") counts.skipped++;
+      else if (row.status === "failed") counts.failed++;
+      else counts.remaining++;
+    }
+  }
+
+  await supabase
+    .from("processing_jobs")
+    .update({
+      processed_count: counts.processed,
+      skipped_count: counts.skipped,
+      failed_count: counts.failed,
+      heartbeat_at: nowIso(),
+      updated_at: nowIso(),
+    })
+    .eq("id", jobId);
+
+  return counts;
+}
+
+// Enrich items in parallel (LLM API calls); failures are retried or
+// dead-lettered right away, successful results are returned for saving
+async function enrichItems(
+  items: ProcessingJobItem[],
+  locationFor: (item: ProcessingJobItem) => string
+) {
+  console.log(
+    `🤖 Processing ${items.length} properties with ${getLLMProvider().name}...`
+  );
+  const llmStartTime = Date.now();
+
+  const batchResults = await Promise.all(
+    items.map(async (item) => {
+      const startTime = Date.now();
+      try {
+        const enrichment = await getLLMProvider().enrichProperty(
+          item.property_name,
+          locationFor(item)
+        );
+        console.log(`✅ ${item.property_name}: ${Date.now() - startTime}ms`);
+        return { item, enrichment, error: null };
+      } catch (error) {
+        console.error(
+          `❌ ${item.property_name} failed (${Date.now() - startTime}ms):`,
+          error
+        );
+        return { item, enrichment: null, error };
+      }
+    })
+  );
+
+  const llmTime = Math.round((Date.now() - llmStartTime) / 1000);
+  const successfulResults = batchResults.flatMap(({ item, enrichment }) =>
+    enrichment ? [{ item, enrichment }] : []
+  );
+  const failedResults = batchResults.filter(
+    (result) => result.enrichment === null
+  );
+
+  console.log(`🤖 LLM processing completed in ${llmTime}s`);
+  console.log(
+    `📊 LLM results: ${successfulResults.length} successful, ${failedResults.length} failed`
+  );
+
+  const failureOutcomes = await Promise.all(
+    failedResults.map(({ item, error }) => recordFailure(item, error))
+  );
+  const retryingCount = failureOutcomes.filter(
+    (outcome) => outcome === "retrying"
+  ).length;
+
+  return { successfulResults, failedResults, retryingCount };
+}
+
+// Process one claimed batch: skip existing, enrich the rest, hold back likely
+// duplicates for review and insert the others
+async function processBatch(
+  job: ProcessingJob,
+  items: ProcessingJobItem[],
+  batchLabel: string
+): Promise<void> {
+  const batchStartTime = Date.now();
+
+  // Step 1: Check which properties already exist (single DB call)
+  console.log(`📋 Checking existing properties...`);
+  const existingProperties = await getExistingProperties(
+    items.map((item) => item.property_name)
+  );
+
+  const skippedItems = items.filter((item) =>
+    existingProperties.has(item.property_name)
+  );
+  const newItems = items.filter(
+    (item) => !existingProperties.has(item.property_name)
+  );
+
+  if (skippedItems.length > 0) {
+    console.log(`⏭️ Skipping ${skippedItems.length} existing properties`);
+    await Promise.all(
+      skippedItems.map((item) =>
+        updateItem(item, "skipped", {
+          attempts: item.attempts + 1,
+          property_id: existingProperties.get(item.property_name) || null,
+        })
+      )
+    );
+  }
+
+  if (newItems.length === 0) {
+    console.log(
+      `✅ Batch ${batchLabel} completed - all properties already exist`
+    );
+    return;
+  }
+
+  // Step 2: Process ALL new properties in parallel (LLM API calls)
+  const { successfulResults, failedResults, retryingCount } = await enrichItems(
+    newItems,
+    () => job.parent_address
+  );
+
+  let insertedCount = 0;
+  const inserted = new Set<number>();
+  const heldForReview = new Set<number>();
+  if (successfulResults.length > 0) {
+    const dbStartTime = Date.now();
+    const rows = successfulResults.map(({ item, enrichment }) =>
+      toPropertyRow(item.property_name, enrichment)
+    );
+
+    try {
+      // Step 3: Hold back likely duplicates for review
+      const duplicates = await findLikelyDuplicates(
+        rows.map((row) => ({
+          name: row.property_address,
+          region: { city: row.city, state: row.state },
+        }))
+      );
+
+      // Step 4: Batch insert the remaining properties (single DB call)
+      const newResults = successfulResults.filter(
+        (_, index) => !duplicates.has(index)
+      );
+      console.log(`💾 Batch inserting ${newResults.length} properties...`);
+      const insertedIds = await batchInsertProperties(
+        rows.filter((_, index) => !duplicates.has(index))
+      );
+
+      rows.forEach((_, index) => {
+        if (!duplicates.has(index)) inserted.add(index);
+      });
+      insertedCount = inserted.size;
+      await Promise.all(
+        newResults.map(({ item }) =>
+          updateItem(item, "processed", {
+            attempts: item.attempts + 1,
+            last_error: null,
+            next_attempt_at: null,
+            property_id: insertedIds.get(item.property_name) || null,
+          })
+        )
+      );
+
+      if (duplicates.size > 0) {
+        // Duplicates of a property from this batch point at its new row
+        const held = [...duplicates].map(([index, match]) => ({
+          index,
+          match: {
+            ...match,
+            id: match.id ?? insertedIds.get(match.name) ?? null,
+          },
+        }));
+
+        await createDuplicateReviews(
+          held.map(({ index, match }) => ({
+            candidate: rows[index],
+            match,
+            jobItemId: successfulResults[index].item.id,
+          }))
+        );
+        held.forEach(({ index }) => heldForReview.add(index));
+
+        await Promise.all(
+          held.map(({ index, match }) => {
+            const { item } = successfulResults[index];
+            return updateItem(item, "skipped", {
+              attempts: item.attempts + 1,
+              last_error: `Held for review: likely duplicate of ${match.name}`,
+              next_attempt_at: null,
+              property_id: match.id,
+            });
+          })
+        );
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("💾 Database insertion failed:", message);
+      // A failed insert is worth another try, the enrichment itself worked;
+      // items already saved or held for review are done
+      await Promise.all(
+        successfulResults
+          .filter(
+            (_, index) => !inserted.has(index) && !heldForReview.has(index)
+          )
+          .map(({ item }) => recordFailure(item, error, { transient: true }))
+      );
+    }
+
+    console.log(
+      `💾 Database insertion completed in ${Date.now() - dbStartTime}ms`
+    );
+  }
+
+  // Step 5: Single increment of request count for this batch (processed + failed)
+  const usedRequests =
+    insertedCount + heldForReview.size + failedResults.length;
+  if (usedRequests > 0) {
+    const incrementSuccess =
+      await incrementProcessPropertiesRequests(usedRequests);
+    if (!incrementSuccess) {
+      console.warn(`Failed to increment request count for batch ${batchLabel}`);
+    }
+  }
+
+  const totalBatchTime = Math.round((Date.now() - batchStartTime) / 1000);
+  console.log(
+    `✅ Batch ${batchLabel} completed in ${totalBatchTime}s - Processed: ${insertedCount}, Skipped: ${skippedItems.length}, For review: ${
+      heldForReview.size
+    }, Failed: ${
+      newItems.length - insertedCount - heldForReview.size
+    } (${retryingCount} will be retried)`
+  );
+}
+
+// Only fields the model actually filled in, minus anything edited by hand
+function mergeEnrichedFields(
+  property: Property,
+  enrichedData: Record<string, string>
+): Partial<Property> {
+  const changes: Record<string, string | null> = {};
+  const manualFields = new Set(property.manual_fields || []);
+  const phone = enrichedData.phone ? parsePhone(enrichedData.phone) : null;
+  const values: Record<string, string | undefined> = {
+    ...enrichedData,
+    phone: phone?.e164,
+  };
+
+  for (const [key, column] of Object.entries(ENRICHED_FIELD_COLUMNS)) {
+    const value = values[key]?.trim();
+    if (!value || manualFields.has(column) || property[column] === value) {
+      continue;
+    }
+    changes[column] = value;
+  }
+
+  // The extension belongs to the number it was found with
+  if ("decision_maker_phone" in changes) {
+    changes.decision_maker_phone_ext = phone?.extension || null;
+  }
+
+  // A new ZIP or city is checked against the rest of the saved address
+  if (GEOGRAPHY_FIELDS.some((field) => field in changes)) {
+    const { geography, coordinates, flags } = normalizeGeography({
+      ...property,
+      ...changes,
+    });
+    for (const field of GEOGRAPHY_FIELDS) {
+      if (manualFields.has(field) || geography[field] === property[field]) {
+        delete changes[field];
+      } else {
+        changes[field] = geography[field];
+      }
+    }
+    if (GEOGRAPHY_FIELDS.some((field) => field in changes)) {
+      return {
+        ...changes,
+        ...coordinates,
+        geo_flags: flags,
+      } as Partial<Property>;
+    }
+  }
+
+  return changes as Partial<Property>;
+}
+
+// Process one claimed batch of a re-enrichment job: enrich the existing
+// properties again and fill in whatever new data was found
+async function processReEnrichBatch(
+  items: ProcessingJobItem[],
+  batchLabel: string
+): Promise<void> {
+  const batchStartTime = Date.now();
+  const supabase = await createClient();
+
+  // Step 1: Load the target properties (single DB call), soft-deleted ones
+  // are skipped like removed ones
+  const { data, error } = await supabase
+    .from("properties")
+    .select("*")
+    .in(
+      "id",
+      items.flatMap((item) => (item.property_id ? [item.property_id] : []))
+    )
+    .is("deleted_at", null);
+
+  if (error) {
+    throw new Error(`Failed to load properties: ${error.message}`);
+  }
+
+  const properties = new Map(
+    ((data || []) as Property[]).map((property) => [property.id, property])
+  );
+  const missingItems = items.filter(
+    (item) => !item.property_id || !properties.has(item.property_id)
+  );
+  const targetItems = items.filter(
+    (item) => item.property_id && properties.has(item.property_id)
+  );
+
+  if (missingItems.length > 0) {
+    console.log(`⏭️ Skipping ${missingItems.length} deleted properties`);
+    await Promise.all(
+      missingItems.map((item) =>
+        updateItem(item, "skipped", {
+          attempts: item.attempts + 1,
+          last_error: "Property no longer exists",
+        })
+      )
+    );
+  }
+
+  if (targetItems.length === 0) return;
+
+  // Step 2: Enrich again, using the property's own location for context
+  const { successfulResults, failedResults, retryingCount } = await enrichItems(
+    targetItems,
+    (item) => {
+      const property = properties.get(item.property_id!)!;
+      const location = [
+        property.city,
+        property.county,
+        property.state,
+        property.zip_code,
+      ]
+        .filter(Boolean)
+        .join(", ");
+      return location || "the United States";
+    }
+  );
+
+  // Step 3: Save only the newly found fields, one update per property
+  let updatedCount = 0;
+  let unchangedCount = 0;
+  const companyChanges: Array<{
+    id: string;
+    hoa_or_management_company: string | null;
+  }> = [];
+  const emailChanges: string[] = [];
+  await Promise.all(
+    successfulResults.map(async ({ item, enrichment }) => {
+      const property = properties.get(item.property_id!)!;
+      const changes = mergeEnrichedFields(property, enrichment.data);
+
+      if (Object.keys(changes).length === 0) {
+        unchangedCount++;
+        await updateItem(item, "skipped", {
+          attempts: item.attempts + 1,
+          last_error: "No new data found",
+          next_attempt_at: null,
+        });
+        return;
+      }
+
+      const { error: updateError } = await supabase
+        .from("properties")
+        .update({
+          ...changes,
+          ...getProvenance(enrichment, Object.keys(changes), property),
+          updated_at: nowIso(),
+        })
+        .eq("id", item.property_id!);
+
+      if (updateError) {
+        console.error(
+          `💾 Updating ${item.property_name} failed:`,
+          updateError.message
+        );
+        await recordFailure(item, updateError.message, { transient: true });
+        return;
+      }
+
+      updatedCount++;
+      if ("hoa_or_management_company" in changes) {
+        companyChanges.push({
+          id: item.property_id!,
+          hoa_or_management_company: changes.hoa_or_management_company ?? null,
+        });
+      }
+      if ("decision_maker_email" in changes) {
+        emailChanges.push(item.property_id!);
+      }
+      await updateItem(item, "processed", {
+        attempts: item.attempts + 1,
+        last_error: null,
+        next_attempt_at: null,
+      });
+    })
+  );
+
+  // Step 4: Link companies and verify the emails that were found
+  await linkManagementCompanies(companyChanges);
+  await verifyPropertyEmails(emailChanges);
+
+  // Step 5: Every enrichment call counts towards the daily limit
+
+  const usedRequests = successfulResults.length + failedResults.length;
+  if (usedRequests > 0) {
+    const incrementSuccess =
+      await incrementProcessPropertiesRequests(usedRequests);
+    if (!incrementSuccess) {
+      console.warn(`Failed to increment request count for batch ${batchLabel}`);
+    }
+  }
+
+  const totalBatchTime = Math.round((Date.now() - batchStartTime) / 1000);
+  console.log(
+    `✅ Re-enrichment batch ${batchLabel} completed in ${totalBatchTime}s - Updated: ${updatedCount}, Unchanged: ${unchangedCount}, Failed: ${failedResults.length} (${retryingCount} will be retried)`
+  );
+}
+
+// Mark the job completed exactly once and send the summary email
+async function completeJob(
+  job: ProcessingJob,
+  counts: { total: number; processed: number; skipped: number; failed: number }
+): Promise<void> {
+  const supabase = await createClient();
+
+  // Only the worker that flips the status sends the email
+  const { data: completed, error } = await supabase
+    .from("processing_jobs")
+    .update({
+      status: "completed",
+      completed_at: nowIso(),
+      updated_at: nowIso(),
+    })
+    .eq("id", job.id)
+    .neq("status", "completed")
+    .select("id");
+
+  if (error) {
+    console.error(`Error completing job ${job.id}:`, error);
+    return;
+  }
+
+  if (!completed || completed.length === 0) return;
+
+  console.log(`\n🎯 Processing completed!`);
+  console.log(
+    `📊 Final results: ${counts.processed} processed, ${counts.skipped} skipped, ${counts.failed} failed`
+  );
+
+  await sendCompletionEmail(
+    job.user_email,
+    counts.total,
+    counts.processed,
+    counts.skipped
+  );
+
+  console.log(`📧 Completion email sent to ${job.user_email}`);
+}
+
+/**
+ * Work through a job until it is finished or the deadline is reached.
+ * Safe to call again at any time: it resumes with whatever is still queued.
+ */
+export async function runProcessingJob(
+  jobId: string,
+  { deadline = Infinity }: { deadline?: number } = {}
+): Promise<void> {
+  const supabase = await createClient();
+
+  const job = await getProcessingJob(jobId);
+  if (!job) {
+    console.error(`🚨 Processing job ${jobId} not found`);
+    return;
+  }
+
+  if (job.status === "completed") {
+    console.log(`✅ Processing job ${jobId} already completed`);
+    return;
+  }
+
+  try {
+    await supabase
+      .from("processing_jobs")
+      .update({
+        status: "running",
+        started_at: job.started_at || nowIso(),
+        heartbeat_at: nowIso(),
+        last_error: null,
+        updated_at: nowIso(),
+      })
+      .eq("id", jobId);
+
+    await releaseStaleItems(jobId);
+
+    console.log(
+      `🚀 Starting batch processing of job ${jobId} (${job.total_items} properties)`
+    );
+
+    let batchNumber = 0;
+    while (Date.now() < deadline) {
+      const items = await claimNextBatch(jobId, PROCESSING_BATCH_SIZE);
+
+      if (items.length === 0) {
+        // Only items waiting for a retry are left - wait for them if we can
+        const nextRetryAt = await getNextRetryAt(jobId);
+        if (nextRetryAt === null || nextRetryAt >= deadline) break;
+
+        const wait = Math.max(nextRetryAt - Date.now(), 0);
+        console.log(
+          `⏸️ Waiting ${Math.round(wait / 1000)}s for the next retry...`
+        );
+        await delay(wait);
+        continue;
+      }
+
+      batchNumber++;
+      const batchLabel = `${batchNumber} (items ${items[0].position + 1}-${
+        items[items.length - 1].position + 1
+      } of ${job.total_items})`;
+      console.log(
+        `\n🔄 Processing batch ${batchLabel}: ${items.length} properties`
+      );
+
+      if (job.mode === "re_enrich") {
+        await processReEnrichBatch(items, batchLabel);
+      } else {
+        await processBatch(job, items, batchLabel);
+      }
+
+      const counts = await refreshJobCounts(jobId);
+      const done = counts.processed + counts.skipped + counts.failed;
+      console.log(
+        `📈 Total progress: ${done}/${counts.total} (${Math.round(
+          (done / Math.max(counts.total, 1)) * 100
+        )}%)`
+      );
+
+      // Wait 5 seconds between batches (if there is more work)
+      if (counts.remaining > 0 && Date.now() + BATCH_DELAY_MS < deadline) {
+        console.log(`⏸️ Waiting 5 seconds before next batch...`);
+        await delay(BATCH_DELAY_MS);
+      }
+    }
+
+    const counts = await refreshJobCounts(jobId);
+    if (counts.remaining > 0) {
+      console.log(
+        `⏳ Job ${jobId} paused with ${counts.remaining} items left, it will be resumed by the worker`
+      );
+      return;
+    }
+
+    await completeJob(job, counts);
+  } catch (error) {
+    console.error(`💥 Error in processing job ${jobId}:`, error);
+
+    // Leave the job running so the worker resumes it, but record why it stopped
+    await supabase
+      .from("processing_jobs")
+      .update({
+        last_error: error instanceof Error ? error.message : String(error),
+        updated_at: nowIso(),
+      })
+      .eq("id", jobId);
+  }
+}
+
+/**
+ * Resume the given jobs, or every job that has no live worker
+ */
+export async function resumeProcessingJobs({
+  jobIds,
+  deadline = Infinity,
+}: {
+  jobIds?: string[];
+  deadline?: number;
+} = {}): Promise<string[]> {
+  const pendingJobIds = jobIds || (await getResumableJobIds());
+  const resumed: string[] = [];
+
+  for (const id of pendingJobIds) {
+    if (Date.now() >= deadline) break;
+    await runProcessingJob(id, { deadline });
+    resumed.push(id);
+  }
+
+  return resumed;
+}
@@ -0,0 +1,282 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectAll } from "@/lib/supabase/paging";
+import { getLiveProperty } from "@/lib/property-editing";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import type {
+  Property,
+  PropertyContact,
+  PropertyContactInput,
+} from "@/lib/types";
+
+/**
+ * Contacts of a property (property_contacts). The primary contact is the
+ * property's decision maker: whenever it changes it is copied into
+ * `decision_maker_*`, so the dashboard, filters and exports keep working
+ * on the property row.
+ */
+
+const DECISION_MAKER_FIELDS = [
+  "decision_maker_name",
+  "decision_maker_email",
+  "decision_maker_phone",
+];
+
+export interface PropertyContacts {
+  contacts: PropertyContact[];
+  property: Property;
+}
+
+/**
+ * Contacts of a property, the primary one first
+ */
+export async function getPropertyContacts(
+  propertyId: string
+): Promise<PropertyContact[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("property_contacts")
+    .select("*")
+    .eq("property_id", propertyId)
+    .order("is_primary", { ascending: false })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load contacts: ${error.message}`);
+  }
+
+  return (data || []) as PropertyContact[];
+}
+
+/**
+ * Every contact, for exports
+ */
+export async function getAllContacts(): Promise<PropertyContact[]> {
+  const supabase = await createClient();
+  const contacts = await selectAll<PropertyContact>("contacts", () =>
+    supabase.from("property_contacts").select("*")
+  );
+
+  // Grouped by property, primary contact first
+  return contacts.sort(
+    (a, b) =>
+      a.property_id.localeCompare(b.property_id) ||
+      Number(b.is_primary) - Number(a.is_primary) ||
+      a.created_at.localeCompare(b.created_at)
+  );
+}
+
+async function clearPrimary(propertyId: string): Promise<void> {
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("property_contacts")
+    .update({ is_primary: false })
+    .eq("property_id", propertyId)
+    .eq("is_primary", true);
+
+  if (error) {
+    throw new Error(`Failed to update primary contact: ${error.message}`);
+  }
+}
+
+// Copy the primary contact into decision_maker_*, promoting the first
+// contact with an email when the property has no primary contact left
+async function syncPrimaryContact(
+  property: Property
+): Promise<PropertyContacts> {
+  const supabase = await createClient();
+  let contacts = await getPropertyContacts(property.id);
+  let primary = contacts.find((contact) => contact.is_primary);
+
+  if (!primary && contacts.length > 0) {
+    const promoted = contacts.find((contact) => contact.email) || contacts[0];
+    const { error } = await supabase
+      .from("property_contacts")
+      .update({ is_primary: true })
+      .eq("id", promoted.id);
+
+    if (error) {
+      throw new Error(`Failed to promote contact: ${error.message}`);
+    }
+    contacts = await getPropertyContacts(property.id);
+    primary = contacts.find((contact) => contact.is_primary);
+  }
+
+  const { data, error } = await supabase
+    .from("properties")
+    .update({
+      decision_maker_name: primary?.name || null,
+      decision_maker_email: primary?.email || null,
+      decision_maker_phone: primary?.phone || null,
+      decision_maker_phone_ext: primary?.phone_ext || null,
+      // Contacts are managed by hand, enrichment must not replace them
+      manual_fields: [
+        ...new Set([
+          ...(property.manual_fields || []),
+          ...DECISION_MAKER_FIELDS,
+        ]),
+      ],
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", property.id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update decision maker: ${error.message}`);
+  }
+
+  return { contacts, property: data as Property };
+}
+
+// Verify the property's addresses after one changed, then reload both
+async function verifiedContacts(property: Property): Promise<PropertyContacts> {
+  await verifyPropertyEmails([property.id]);
+  return {
+    contacts: await getPropertyContacts(property.id),
+    property: (await getLiveProperty(property.id)) || property,
+  };
+}
+
+/**
+ * Add a contact. It becomes the primary contact when asked to or when the
+ * property has none. Returns null when the property does not exist.
+ */
+export async function createContact(
+  propertyId: string,
+  input: PropertyContactInput
+): Promise<PropertyContacts | null> {
+  const property = await getLiveProperty(propertyId);
+  if (!property) return null;
+
+  const existing = await getPropertyContacts(propertyId);
+  const isPrimary =
+    Boolean(input.is_primary) ||
+    !existing.some((contact) => contact.is_primary);
+
+  if (isPrimary) await clearPrimary(propertyId);
+
+  const supabase = await createClient();
+  const { error } = await supabase.from("property_contacts").insert({
+    ...input,
+    property_id: propertyId,
+    is_primary: isPrimary,
+  });
+
+  if (error) {
+    throw new Error(`Failed to add contact: ${error.message}`);
+  }
+
+  console.log(`👤 Added ${input.role} contact to ${property.property_address}`);
+
+  if (isPrimary) await syncPrimaryContact(property);
+  return verifiedContacts(property);
+}
+
+/**
+ * Change a contact. Returns null when the property or the contact does
+ * not exist.
+ */
+export async function updateContact(
+  propertyId: string,
+  contactId: string,
+  changes: PropertyContactInput
+): Promise<PropertyContacts | null> {
+  const property = await getLiveProperty(propertyId);
+  if (!property) return null;
+
+  const contact = (await getPropertyContacts(propertyId)).find(
+    (existing) => existing.id === contactId
+  );
+  if (!contact) return null;
+
+  if (changes.is_primary && !contact.is_primary) {
+    await clearPrimary(propertyId);
+  }
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("property_contacts")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", contactId);
+
+  if (error) {
+    throw new Error(`Failed to update contact: ${error.message}`);
+  }
+
+  const synced =
+    contact.is_primary || changes.is_primary
+      ? await syncPrimaryContact(property)
+      : null;
+
+  if (changes.email !== undefined || changes.is_primary) {
+    return verifiedContacts(property);
+  }
+  return (
+    synced || { contacts: await getPropertyContacts(propertyId), property }
+  );
+}
+
+/**
+ * Remove a contact; another one is promoted when it was the primary.
+ * Returns null when the property or the contact does not exist.
+ */
+export async function deleteContact(
+  propertyId: string,
+  contactId: string
+): Promise<PropertyContacts | null> {
+  const property = await getLiveProperty(propertyId);
+  if (!property) return null;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("property_contacts")
+    .delete()
+    .eq("id", contactId)
+    .eq("property_id", propertyId)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete contact: ${error.message}`);
+  }
+  if (!data) return null;
+
+  // Promoting another contact can change the decision maker's email
+  if ((data as PropertyContact).is_primary) {
+    await syncPrimaryContact(property);
+    return verifiedContacts(property);
+  }
+  return { contacts: await getPropertyContacts(propertyId), property };
+}
+
+/**
+ * Drop contacts that repeat an earlier contact's email, e.g. after merging
+ * duplicate properties. The primary contact always stays.
+ */
+export async function removeDuplicateContacts(
+  propertyId: string
+): Promise<void> {
+  const seen = new Set<string>();
+  const duplicateIds: string[] = [];
+
+  for (const contact of await getPropertyContacts(propertyId)) {
+    const email = contact.email?.trim().toLowerCase();
+    if (!email) continue;
+    if (seen.has(email)) {
+      duplicateIds.push(contact.id);
+    }
+    seen.add(email);
+  }
+
+  if (duplicateIds.length === 0) return;
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("property_contacts")
+    .delete()
+    .in("id", duplicateIds);
+
+  if (error) {
+    throw new Error(`Failed to remove duplicate contacts: ${error.message}`);
+  }
+}
@@ -0,0 +1,220 @@
+import { createClient } from "@/lib/supabase/server";
+import { selectAll } from "@/lib/supabase/paging";
+import { linkManagementCompanies } from "@/lib/management-companies";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import {
+  findBestMatch,
+  isInRegionText,
+  type NameCandidate,
+  type NameMatch,
+  type PropertyRegion,
+} from "@/lib/property-matching";
+import type {
+  DuplicateCandidate,
+  DuplicateReview,
+  NameDuplicate,
+  Property,
+} from "@/lib/types";
+
+/**
+ * Fuzzy duplicate detection against saved properties and the review queue
+ * for new properties that look like an existing one
+ * (property_duplicate_reviews).
+ */
+
+const MATCHED_PROPERTY_COLUMNS =
+  "id, property_address, city, state, decision_maker_email, hoa_or_management_company";
+
+// Names and regions of every saved property
+async function getPropertyCandidates(): Promise<NameCandidate[]> {
+  const supabase = await createClient();
+  const rows = await selectAll<
+    Pick<Property, "id" | "property_address" | "city" | "state" | "created_at">
+  >("property names", () =>
+    supabase
+      .from("properties")
+      .select("id, property_address, city, state, created_at")
+      .not("property_address", "is", null)
+      .is("deleted_at", null)
+  );
+
+  // Oldest first, so the original wins a tie between near-identical names
+  return rows
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((row) => ({
+      id: row.id,
+      name: row.property_address as string,
+      city: row.city,
+      state: row.state,
+    }));
+}
+
+/**
+ * Likely duplicates of properties about to be inserted, keyed by their
+ * index. Only properties in the same region are considered: saved ones and
+ * the earlier ones of the list that are not held back themselves, whose
+ * matches have no id until they are inserted.
+ */
+export async function findLikelyDuplicates(
+  properties: Array<{ name: string; region: PropertyRegion }>
+): Promise<Map<number, NameMatch>> {
+  const matches = new Map<number, NameMatch>();
+  if (properties.length === 0) return matches;
+
+  const candidates = await getPropertyCandidates();
+  properties.forEach(({ name, region }, index) => {
+    const match = findBestMatch(name, region, candidates);
+    if (match) {
+      matches.set(index, match);
+    } else {
+      candidates.push({ id: null, name, ...region });
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Names on the upload page that look like a saved property in the parent
+ * address' region, or like an earlier name in the same list
+ */
+export async function checkNamesForDuplicates(
+  names: string[],
+  parentAddress: string
+): Promise<NameDuplicate[]> {
+  const saved = parentAddress.trim()
+    ? (await getPropertyCandidates()).filter((candidate) =>
+        isInRegionText(candidate, parentAddress)
+      )
+    : [];
+
+  const duplicates: NameDuplicate[] = [];
+  names.forEach((name, index) => {
+    const earlier = names
+      .slice(0, index)
+      .map((other) => ({ id: null, name: other }));
+    const match = findBestMatch(name, {}, [...saved, ...earlier]);
+
+    if (match) {
+      duplicates.push({
+        name,
+        matchedName: match.name,
+        propertyId: match.id,
+        score: match.score,
+      });
+    }
+  });
+
+  return duplicates;
+}
+
+/**
+ * Queue held-back properties for review
+ */
+export async function createDuplicateReviews(
+  reviews: Array<{
+    candidate: DuplicateCandidate;
+    match: NameMatch;
+    jobItemId?: string | null;
+  }>
+): Promise<void> {
+  if (reviews.length === 0) return;
+
+  const supabase = await createClient();
+  const { error } = await supabase.from("property_duplicate_reviews").insert(
+    reviews.map(({ candidate, match, jobItemId }) => ({
+      property_name: candidate.property_address,
+      candidate,
+      matched_property_id: match.id,
+      similarity: Math.round(match.score * 1000) / 1000,
+      job_item_id: jobItemId || null,
+    }))
+  );
+
+  if (error) {
+    throw new Error(`Failed to queue duplicate reviews: ${error.message}`);
+  }
+
+  console.log(`🔍 Queued ${reviews.length} likely duplicates for review`);
+}
+
+/**
+ * Get pending duplicate reviews with the property each one matched
+ */
+export async function getDuplicateReviews(): Promise<DuplicateReview[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("property_duplicate_reviews")
+    .select(`*, matched_property:properties(${MATCHED_PROPERTY_COLUMNS})`)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching duplicate reviews:", error);
+    return [];
+  }
+
+  return (data || []) as DuplicateReview[];
+}
+
+/**
+ * Resolve a pending review: "insert" saves the held-back row as a new
+ * property, "dismiss" confirms it is a duplicate and drops it. Returns null
+ * when the review does not exist or was already resolved.
+ */
+export async function resolveDuplicateReview(
+  reviewId: string,
+  action: "insert" | "dismiss",
+  userId: string
+): Promise<DuplicateReview | null> {
+  const supabase = await createClient();
+
+  // Claim the review first so two reviewers cannot both insert it
+  const { data: claimed, error: claimError } = await supabase
+    .from("property_duplicate_reviews")
+    .update({
+      status: action === "insert" ? "inserted" : "dismissed",
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq("id", reviewId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to resolve review: ${claimError.message}`);
+  }
+  if (!claimed) return null;
+
+  const review = claimed as DuplicateReview;
+  if (action === "dismiss") return review;
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("properties")
+    .insert(review.candidate)
+    .select("id, hoa_or_management_company")
+    .single();
+
+  if (insertError) {
+    // Put the review back so it can be tried again
+    await supabase
+      .from("property_duplicate_reviews")
+      .update({ status: "pending", resolved_by: null, resolved_at: null })
+      .eq("id", reviewId);
+    throw new Error(`Failed to insert property: ${insertError.message}`);
+  }
+
+  await linkManagementCompanies([inserted]);
+  await verifyPropertyEmails([inserted.id]);
+
+  if (review.job_item_id) {
+    await supabase
+      .from("processing_job_items")
+      .update({ property_id: inserted.id })
+      .eq("id", review.job_item_id);
+  }
+
+  console.log(`✅ Inserted ${review.property_name} after duplicate review`);
+  return review;
+}
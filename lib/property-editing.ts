@@ -0,0 +1,209 @@
+import { createClient } from "@/lib/supabase/server";
+import { linkManagementCompanies } from "@/lib/management-companies";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import { GEOGRAPHY_FIELDS, normalizeGeography } from "@/lib/geography";
+import type {
+  EditablePropertyField,
+  Property,
+  PropertyInput,
+} from "@/lib/types";
+
+/**
+ * Properties created, edited and deleted by hand from the dashboard. Fields
+ * a rep sets are added to `manual_fields` so enrichment never overwrites
+ * them; deleting only sets `deleted_at`, keeping the email history.
+ */
+
+type InputField = keyof PropertyInput;
+
+// Columns that enrichment writes, suspend_until is only ever set by hand
+const isEnrichedField = (field: InputField) => field !== "suspend_until";
+
+// The extension goes with its phone: editing either makes the phone manual
+const manualColumn = (field: InputField): EditablePropertyField =>
+  field === "decision_maker_phone_ext" ? "decision_maker_phone" : field;
+
+/**
+ * Get a property unless it does not exist or was deleted
+ */
+export async function getLiveProperty(id: string): Promise<Property | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("properties")
+    .select("*")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load property: ${error.message}`);
+  }
+
+  return data as Property | null;
+}
+
+/**
+ * Create a property from validated input. Returns null when a property
+ * with the same name already exists.
+ */
+export async function createProperty(
+  input: PropertyInput
+): Promise<Property | null> {
+  const supabase = await createClient();
+
+  const { data: existing, error: existingError } = await supabase
+    .from("properties")
+    .select("id")
+    .eq("property_address", input.property_address!)
+    .is("deleted_at", null)
+    .limit(1);
+
+  if (existingError) {
+    throw new Error(
+      `Failed to check existing properties: ${existingError.message}`
+    );
+  }
+  if (existing && existing.length > 0) return null;
+
+  const manualFields = [
+    ...new Set(
+      (Object.keys(input) as InputField[])
+        .filter((field) => isEnrichedField(field) && input[field])
+        .map(manualColumn)
+    ),
+  ];
+
+  // Blanks filled in from the ZIP are not manual, enrichment may improve them
+  const { geography, coordinates, flags } = normalizeGeography(input);
+
+  const { data, error } = await supabase
+    .from("properties")
+    .insert({
+      ...input,
+      ...geography,
+      ...coordinates,
+      geo_flags: flags,
+      manual_fields: manualFields,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create property: ${error.message}`);
+  }
+
+  await linkManagementCompanies([data]);
+  await verifyPropertyEmails([data.id]);
+
+  console.log(`➕ Created property ${data.property_address} by hand`);
+  // Linking and verification wrote to the row after it was returned
+  return (await getLiveProperty(data.id)) || (data as Property);
+}
+
+/**
+ * Apply validated changes to a property. Changed columns become manual
+ * and lose the confidence and sources enrichment gave the old value.
+ * Returns null when the property does not exist or was deleted.
+ */
+export async function updateProperty(
+  id: string,
+  changes: PropertyInput
+): Promise<Property | null> {
+  const property = await getLiveProperty(id);
+  if (!property) return null;
+
+  // An edited address is checked as a whole against the ZIP reference
+  const normalized = GEOGRAPHY_FIELDS.some((field) => field in changes)
+    ? normalizeGeography({ ...property, ...changes })
+    : null;
+  const values: PropertyInput = { ...changes, ...normalized?.geography };
+
+  const changedFields = (Object.keys(values) as InputField[]).filter(
+    (field) => values[field] !== property[field]
+  );
+  if (changedFields.length === 0) return property;
+
+  // Only the fields the rep sent become manual, not the ones filled in
+  const enrichedChanges = [
+    ...new Set(changedFields.filter(isEnrichedField).map(manualColumn)),
+  ];
+  const manualChanges = [
+    ...new Set(
+      changedFields
+        .filter((field) => field in changes && isEnrichedField(field))
+        .map(manualColumn)
+    ),
+  ];
+  const fieldConfidence = { ...property.field_confidence };
+  enrichedChanges.forEach((field) => delete fieldConfidence[field]);
+
+  const enrichmentSources = (property.enrichment_sources || []).flatMap(
+    (source) => {
+      const fields = source.fields.filter(
+        (field) => !enrichedChanges.includes(field as EditablePropertyField)
+      );
+      return fields.length > 0 ? [{ ...source, fields }] : [];
+    }
+  );
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("properties")
+    .update({
+      ...Object.fromEntries(
+        changedFields.map((field) => [field, values[field]])
+      ),
+      ...(normalized && {
+        ...normalized.coordinates,
+        geo_flags: normalized.flags,
+      }),
+      manual_fields: [
+        ...new Set([...(property.manual_fields || []), ...manualChanges]),
+      ],
+      field_confidence: fieldConfidence,
+      enrichment_sources: enrichmentSources,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update property: ${error.message}`);
+  }
+
+  if (changedFields.includes("hoa_or_management_company")) {
+    await linkManagementCompanies([data]);
+  }
+  if (changedFields.includes("decision_maker_email")) {
+    await verifyPropertyEmails([id]);
+  }
+
+  console.log(
+    `✏️ Updated ${changedFields.join(", ")} of ${data.property_address}`
+  );
+  return (await getLiveProperty(id)) || (data as Property);
+}
+
+/**
+ * Soft-delete a property. Returns null when it does not exist or was
+ * already deleted.
+ */
+export async function deleteProperty(id: string): Promise<Property | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("properties")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("deleted_at", null)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete property: ${error.message}`);
+  }
+  if (!data) return null;
+
+  console.log(`🗑️ Deleted property ${data.property_address}`);
+  return data as Property;
+}
@@ -0,0 +1,211 @@
+import type { ImportablePropertyField, ImportedPropertyRow } from "./types";
+
+/**
+ * Helpers for importing property lists from CSV/XLSX files: parse the
+ * spreadsheet, guess which column holds which property field and turn the
+ * rows into `ImportedPropertyRow`s.
+ */
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ColumnMapping = Record<ImportablePropertyField, number | null>;
+
+export interface ParsedSpreadsheet {
+  headers: string[];
+  headerRow: number; // 1-based row number of the header in the file
+  rows: string[][]; // every row after the header, blank ones included
+}
+
+// Field, label shown in the mapping form and header names it is guessed from
+export const IMPORT_FIELDS: Array<{
+  field: ImportablePropertyField;
+  label: string;
+  aliases: string[];
+}> = [
+  {
+    field: "property_address",
+    label: "Property Name",
+    aliases: ["property", "property name", "community", "name", "hoa name"],
+  },
+  {
+    field: "hoa_or_management_company",
+    label: "HOA/Management Company",
+    aliases: ["management company", "hoa management", "management", "company"],
+  },
+  {
+    field: "decision_maker_name",
+    label: "Decision Maker",
+    aliases: ["decision maker", "contact", "contact name", "manager"],
+  },
+  {
+    field: "decision_maker_email",
+    label: "Email",
+    aliases: ["email", "e-mail", "email address", "contact email"],
+  },
+  {
+    field: "decision_maker_phone",
+    label: "Phone",
+    aliases: ["phone", "phone number", "telephone", "contact phone"],
+  },
+  { field: "city", label: "City", aliases: ["city", "town"] },
+  { field: "county", label: "County", aliases: ["county"] },
+  { field: "state", label: "State", aliases: ["state", "st"] },
+  {
+    field: "zip_code",
+    label: "Zip Code",
+    aliases: ["zip", "zip code", "zipcode", "postal code"],
+  },
+];
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[_/]+/g, " ")
+    .replace(/[^a-z0-9 -]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const isSpreadsheetFile = (file: File) =>
+  /\.(csv|xlsx)$/i.test(file.name);
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// First worksheet of an XLSX workbook, as displayed text
+async function parseXlsx(file: File): Promise<string[][]> {
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(row.getCell(column).text);
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+/**
+ * Read a CSV or XLSX file. The first non-empty row is used as the header.
+ */
+export async function parseSpreadsheet(file: File): Promise<ParsedSpreadsheet> {
+  // Excel exports CSVs with a BOM
+  const allRows = /\.xlsx$/i.test(file.name)
+    ? await parseXlsx(file)
+    : parseCsv((await file.text()).replace(/^\uFEFF/, ""));
+
+  const rows = allRows.map((row) => row.map((cell) => cell.trim()));
+  const headerIndex = rows.findIndex((row) => row.some(Boolean));
+
+  if (headerIndex === -1) {
+    throw new Error("The file has no rows");
+  }
+
+  const dataRows = rows.slice(headerIndex + 1);
+  if (dataRows.filter((row) => row.some(Boolean)).length > MAX_IMPORT_ROWS) {
+    throw new Error(`Files are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return {
+    headers: rows[headerIndex],
+    headerRow: headerIndex + 1,
+    rows: dataRows,
+  };
+}
+
+/** Map each field to the first column whose header matches one of its aliases. */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    const index = normalized.findIndex(
+      (header, column) => !taken.has(column) && aliases.includes(header)
+    );
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) taken.add(index);
+  }
+
+  return mapping;
+}
+
+/**
+ * Apply a column mapping. Rows without a property name are dropped; names
+ * are upper-cased like the names extracted from images so duplicates match.
+ */
+export function mapSpreadsheetRows(
+  { headerRow, rows }: ParsedSpreadsheet,
+  mapping: ColumnMapping
+): ImportedPropertyRow[] {
+  return rows.flatMap((cells, index) => {
+    const row: ImportedPropertyRow = {
+      row: headerRow + index + 1,
+      property_address: "",
+    };
+
+    for (const { field } of IMPORT_FIELDS) {
+      const column = mapping[field];
+      const value = column === null ? "" : cells[column] || "";
+      if (value) row[field] = value;
+    }
+
+    if (!row.property_address) return [];
+    row.property_address = row.property_address.toUpperCase();
+    return [row];
+  });
+}
+
+/**
+ * Rows with a decision-maker email are complete enough to insert as they
+ * are; everything else goes through enrichment.
+ */
+export function isFullyPopulated(row: ImportedPropertyRow): boolean {
+  return Boolean(row.decision_maker_email);
+}
@@ -0,0 +1,221 @@
+/**
+ * Fuzzy matching of property names, shared by the upload page and the
+ * server. Names are normalized (case, punctuation, a leading "THE" and
+ * designators like APTS/HOA are dropped) and compared by token and
+ * character-bigram similarity. Management company names get a stricter
+ * normalization and are matched exactly.
+ */
+
+// Scores at or above this are treated as the same property
+export const DUPLICATE_THRESHOLD = 0.85;
+
+// Words that describe the kind of property rather than name it
+const DESIGNATORS = new Set([
+  "APT",
+  "APTS",
+  "APARTMENT",
+  "APARTMENTS",
+  "HOA",
+  "POA",
+  "COA",
+  "HOMEOWNER",
+  "HOMEOWNERS",
+  "OWNERS",
+  "ASSOCIATION",
+  "ASSOC",
+  "ASSN",
+  "CONDO",
+  "CONDOS",
+  "CONDOMINIUM",
+  "CONDOMINIUMS",
+  "TOWNHOMES",
+  "TOWNHOUSES",
+  "COMMUNITY",
+  "INC",
+  "LLC",
+]);
+
+// Spellings of the same word in company names
+const COMPANY_ABBREVIATIONS: Record<string, string> = {
+  MGMT: "MANAGEMENT",
+  MGT: "MANAGEMENT",
+  MNGMT: "MANAGEMENT",
+  ASSOC: "ASSOCIATION",
+  ASSN: "ASSOCIATION",
+  ASSOCS: "ASSOCIATES",
+  PROP: "PROPERTY",
+  PROPS: "PROPERTIES",
+  SVC: "SERVICES",
+  SVCS: "SERVICES",
+  GRP: "GROUP",
+};
+
+// Legal forms at the end of a company name
+const LEGAL_SUFFIXES = new Set([
+  "INC",
+  "INCORPORATED",
+  "LLC",
+  "LLP",
+  "LP",
+  "LTD",
+  "PLLC",
+  "PC",
+  "CO",
+  "CORP",
+  "CORPORATION",
+  "COMPANY",
+]);
+
+export interface PropertyRegion {
+  city?: string | null;
+  state?: string | null;
+}
+
+export interface NameCandidate extends PropertyRegion {
+  id: string | null; // null for names that are not saved yet
+  name: string;
+}
+
+export interface NameMatch {
+  id: string | null;
+  name: string;
+  score: number;
+}
+
+/** Significant words of a name, e.g. "The Chasewood Apts." -> ["CHASEWOOD"] */
+export function normalizePropertyName(name: string): string[] {
+  const tokens = name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/['’]/g, "")
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+
+  const significant = tokens.filter(
+    (token, index) =>
+      !DESIGNATORS.has(token) && !(index === 0 && token === "THE")
+  );
+
+  // A name made only of designators ("THE APARTMENTS") is kept as is
+  return significant.length > 0 ? significant : tokens;
+}
+
+/**
+ * Key that identifies a management company across spellings, e.g.
+ * "The FirstService Residential, Inc." and "FIRSTSERVICE RESIDENTIAL"
+ */
+export function normalizeCompanyName(name: string): string {
+  const tokens = name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/['’.]/g, "")
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean)
+    .map((token) => COMPANY_ABBREVIATIONS[token] || token);
+
+  if (tokens.length > 1 && tokens[0] === "THE") tokens.shift();
+  // "Smith & Co." leaves a dangling AND behind
+  while (
+    tokens.length > 1 &&
+    (LEGAL_SUFFIXES.has(tokens[tokens.length - 1]) ||
+      tokens[tokens.length - 1] === "AND")
+  ) {
+    tokens.pop();
+  }
+
+  return tokens.join(" ");
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    result.push(text.slice(i, i + 2));
+  }
+  return result;
+}
+
+// Sørensen–Dice coefficient of two multisets
+function dice(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  a.forEach((item) => counts.set(item, (counts.get(item) || 0) + 1));
+
+  let common = 0;
+  for (const item of b) {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      common++;
+      counts.set(item, count - 1);
+    }
+  }
+
+  return (2 * common) / (a.length + b.length);
+}
+
+/**
+ * Similarity of two property names between 0 and 1. Token overlap catches
+ * reordered words, character bigrams catch typos and split words
+ * ("CHASE WOOD" / "CHASEWOOD").
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = normalizePropertyName(a);
+  const tokensB = normalizePropertyName(b);
+  const joinedA = tokensA.join("");
+  const joinedB = tokensB.join("");
+
+  if (joinedA === joinedB) return 1;
+  return Math.max(
+    dice(tokensA, tokensB),
+    dice(bigrams(joinedA), bigrams(joinedB))
+  );
+}
+
+const sameValue = (a?: string | null, b?: string | null) =>
+  !a || !b || a.trim().toUpperCase() === b.trim().toUpperCase();
+
+/** Regions only differ when both sides know the state (or city) and disagree */
+export function isSameRegion(a: PropertyRegion, b: PropertyRegion): boolean {
+  return sameValue(a.state, b.state) && sameValue(a.city, b.city);
+}
+
+const toWords = (text: string) =>
+  text
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Whether a property lies in a free-text region such as a job's parent
+ * address ("Austin, TX"): the text mentions its city or state. Properties
+ * without a city or state match any region.
+ */
+export function isInRegionText(region: PropertyRegion, text: string): boolean {
+  const words = ` ${toWords(text)} `;
+  const mentions = (value?: string | null) =>
+    Boolean(value) && words.includes(` ${toWords(value!)} `);
+
+  if (!region.city && !region.state) return true;
+  return mentions(region.city) || mentions(region.state);
+}
+
+/** Closest candidate in the same region scoring at least the threshold */
+export function findBestMatch(
+  name: string,
+  region: PropertyRegion,
+  candidates: NameCandidate[],
+  threshold = DUPLICATE_THRESHOLD
+): NameMatch | null {
+  let best: NameMatch | null = null;
+
+  for (const candidate of candidates) {
+    if (!isSameRegion(region, candidate)) continue;
+
+    const score = nameSimilarity(name, candidate.name);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { id: candidate.id, name: candidate.name, score };
+    }
+  }
+
+  return best;
+}
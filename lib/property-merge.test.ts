@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { buildSurvivor } from "@/lib/property-merge";
+import type { Property } from "@/lib/types";
+
+const property = (overrides: Partial<Property>): Property => ({
+  id: "survivor",
+  property_address: "CHASEWOOD APARTMENTS",
+  zip_code: null,
+  city: null,
+  county: null,
+  state: null,
+  decision_maker_name: null,
+  decision_maker_email: null,
+  decision_maker_phone: null,
+  decision_maker_phone_ext: null,
+  suspend_until: "2026-01-01",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  opt_out_code: "opt-out",
+  hoa_or_management_company: null,
+  manual_fields: [],
+  enrichment_sources: [],
+  field_confidence: {},
+  enrichment_model: null,
+  enriched_at: null,
+  deleted_at: null,
+  management_company_id: null,
+  email_status: "unknown",
+  email_verified_at: null,
+  latitude: null,
+  longitude: null,
+  geo_flags: [],
+  owner_id: null,
+  territory_id: null,
+  ...overrides,
+});
+
+const byId = (...properties: Property[]) =>
+  new Map(properties.map((p) => [p.id, p]));
+
+describe("buildSurvivor", () => {
+  const survivor = property({
+    decision_maker_phone: "+15125550100",
+    decision_maker_phone_ext: "12",
+  });
+
+  it("takes the extension with the phone it was saved with", () => {
+    const other = property({
+      id: "other",
+      decision_maker_phone: "+15125550199",
+      decision_maker_phone_ext: null,
+    });
+
+    const changes = buildSurvivor(survivor, byId(survivor, other), {
+      decision_maker_phone: "other",
+    });
+
+    expect(changes.decision_maker_phone).toBe("+15125550199");
+    expect(changes.decision_maker_phone_ext).toBeNull();
+  });
+
+  it("keeps the survivor's extension with its own phone", () => {
+    const other = property({
+      id: "other",
+      decision_maker_phone: "+15125550199",
+      decision_maker_phone_ext: "7",
+      decision_maker_name: "Jordan Lee",
+    });
+
+    const changes = buildSurvivor(survivor, byId(survivor, other), {
+      decision_maker_name: "other",
+    });
+
+    expect(changes.decision_maker_name).toBe("Jordan Lee");
+    expect(changes).not.toHaveProperty("decision_maker_phone");
+    expect(changes).not.toHaveProperty("decision_maker_phone_ext");
+  });
+
+  it("recomputes the map position and flags of a merged address", () => {
+    const moved = property({
+      city: "Tampa",
+      state: "TX",
+      zip_code: "33602",
+      latitude: 27.95,
+      longitude: -82.46,
+      geo_flags: ["zip_state_mismatch"],
+    });
+    const other = property({
+      id: "other",
+      city: "Austin",
+      zip_code: "78701",
+    });
+
+    const changes = buildSurvivor(moved, byId(moved, other), {
+      city: "other",
+      zip_code: "other",
+    });
+
+    expect(changes).toMatchObject({
+      city: "Austin",
+      county: "Travis",
+      zip_code: "78701",
+      latitude: 30.2713,
+      longitude: -97.7426,
+      geo_flags: [],
+    });
+  });
+
+  it("leaves the map position alone when the address is kept", () => {
+    const other = property({ id: "other", decision_maker_name: "Jordan Lee" });
+
+    const changes = buildSurvivor(survivor, byId(survivor, other), {
+      decision_maker_name: "other",
+    });
+
+    expect(changes).not.toHaveProperty("latitude");
+    expect(changes).not.toHaveProperty("geo_flags");
+  });
+});
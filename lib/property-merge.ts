@@ -0,0 +1,165 @@
+import { createClient } from "@/lib/supabase/server";
+import { removeDuplicateContacts } from "@/lib/property-contacts";
+import { linkManagementCompanies } from "@/lib/management-companies";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import { GEOGRAPHY_FIELDS, normalizeGeography } from "@/lib/geography";
+import type { MergeableField, Property, PropertyMerge } from "@/lib/types";
+
+/**
+ * Merging duplicate properties into one survivor. Supabase has no
+ * client-side transactions, so the writes run in the merge_properties()
+ * database function and either all happen or none do.
+ */
+
+export const MERGEABLE_FIELDS: MergeableField[] = [
+  "property_address",
+  "hoa_or_management_company",
+  "decision_maker_name",
+  "decision_maker_email",
+  "decision_maker_phone",
+  "city",
+  "county",
+  "state",
+  "zip_code",
+];
+
+/**
+ * Surviving columns, with provenance and manual flags following each field
+ */
+export function buildSurvivor(
+  survivor: Property,
+  byId: Map<string, Property>,
+  fieldSources: Partial<Record<MergeableField, string>>
+): Partial<Property> {
+  const changes: Partial<
+    Record<MergeableField | "decision_maker_phone_ext", string | null>
+  > = {};
+  const fieldConfidence = { ...survivor.field_confidence };
+  const manualFields = new Set(survivor.manual_fields || []);
+
+  for (const field of MERGEABLE_FIELDS) {
+    const source = byId.get(fieldSources[field] || survivor.id);
+    if (!source || source.id === survivor.id) continue;
+
+    changes[field] = source[field];
+    // The extension belongs to the number it was saved with
+    if (field === "decision_maker_phone") {
+      changes.decision_maker_phone_ext = source.decision_maker_phone_ext;
+    }
+
+    if (source.field_confidence?.[field]) {
+      fieldConfidence[field] = source.field_confidence[field];
+    } else {
+      delete fieldConfidence[field];
+    }
+    if (source.manual_fields?.includes(field)) {
+      manualFields.add(field);
+    } else {
+      manualFields.delete(field);
+    }
+  }
+
+  // A city or ZIP from another record is checked against the rest of the
+  // address, and the map position and flags follow it
+  const normalized = GEOGRAPHY_FIELDS.some((field) => field in changes)
+    ? normalizeGeography({ ...survivor, ...changes })
+    : null;
+
+  // Sources backing a field follow the property the field was taken from
+  const enrichmentSources = [...byId.values()].flatMap((property) =>
+    (property.enrichment_sources || []).flatMap((source) => {
+      const fields = source.fields.filter(
+        (field) =>
+          (fieldSources[field as MergeableField] || survivor.id) === property.id
+      );
+      return fields.length > 0 ? [{ ...source, fields }] : [];
+    })
+  );
+
+  // Keep the longest suspension so nobody is emailed earlier than agreed
+  const suspendUntil = [...byId.values()]
+    .map((property) => property.suspend_until)
+    .sort()
+    .pop();
+
+  return {
+    ...changes,
+    ...(normalized && {
+      ...normalized.geography,
+      ...normalized.coordinates,
+      geo_flags: normalized.flags,
+    }),
+    field_confidence: fieldConfidence,
+    manual_fields: [...manualFields],
+    enrichment_sources: enrichmentSources,
+    suspend_until: suspendUntil || survivor.suspend_until,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge properties into the survivor: copy the chosen field values, keep
+ * the latest suspend_until, re-point email logs, contacts, suppressions (and
+ * queue/review/unsubscribe rows) to the survivor, record the merge in
+ * property_merges and delete the others.
+ * Returns null when any of the properties does not exist.
+ */
+export async function mergeProperties({
+  survivorId,
+  propertyIds,
+  fieldSources,
+  userId,
+  userEmail,
+}: {
+  survivorId: string;
+  propertyIds: string[];
+  fieldSources: Partial<Record<MergeableField, string>>;
+  userId: string;
+  userEmail: string | null;
+}): Promise<PropertyMerge | null> {
+  const supabase = await createClient();
+
+  const { data: rows, error: loadError } = await supabase
+    .from("properties")
+    .select("*")
+    .in("id", propertyIds);
+
+  if (loadError) {
+    throw new Error(`Failed to load properties: ${loadError.message}`);
+  }
+  if (!rows || rows.length !== propertyIds.length) return null;
+
+  const byId = new Map((rows as Property[]).map((row) => [row.id, row]));
+  const survivor = byId.get(survivorId);
+  if (!survivor) return null;
+
+  const mergedIds = propertyIds.filter((id) => id !== survivorId);
+
+  // One transaction: survivor update, moved rows, audit row and delete
+  const changes = buildSurvivor(survivor, byId, fieldSources);
+  const { data, error: mergeError } = await supabase.rpc("merge_properties", {
+    p_survivor_id: survivorId,
+    p_merged_ids: mergedIds,
+    p_survivor: changes,
+    p_merged_properties: propertyIds.map((id) => byId.get(id)),
+    p_field_sources: fieldSources,
+    p_merged_by: userId,
+    p_merged_by_email: userEmail,
+  });
+
+  if (mergeError) {
+    throw new Error(`Failed to merge properties: ${mergeError.message}`);
+  }
+  const merge = data as PropertyMerge;
+
+  // Tidy up the survivor once the merge has happened
+  await linkManagementCompanies([{ ...survivor, ...changes }]);
+  await removeDuplicateContacts(survivorId);
+  await verifyPropertyEmails([survivorId]);
+
+  console.log(
+    `🔀 Merged ${mergedIds.length} properties into ${survivor.property_address} (${merge.email_logs_moved} email logs moved)`
+  );
+
+  return merge;
+}
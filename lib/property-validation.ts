@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { parsePhone, type NormalizedPhone } from "@/lib/phone";
+import type {
+  ContactRole,
+  EditablePropertyField,
+  PropertyContactInput,
+  PropertyInput,
+} from "@/lib/types";
+
+/**
+ * Validation for properties and contacts created or edited by hand. Shared
+ * by the dashboard forms and the routes so both report the same errors.
+ */
+
+// States are stored by full name, like enrichment writes them
+const US_STATES: Record<string, string> = {
+  AL: "Alabama",
+  AK: "Alaska",
+  AZ: "Arizona",
+  AR: "Arkansas",
+  CA: "California",
+  CO: "Colorado",
+  CT: "Connecticut",
+  DE: "Delaware",
+  DC: "District of Columbia",
+  FL: "Florida",
+  GA: "Georgia",
+  HI: "Hawaii",
+  ID: "Idaho",
+  IL: "Illinois",
+  IN: "Indiana",
+  IA: "Iowa",
+  KS: "Kansas",
+  KY: "Kentucky",
+  LA: "Louisiana",
+  ME: "Maine",
+  MD: "Maryland",
+  MA: "Massachusetts",
+  MI: "Michigan",
+  MN: "Minnesota",
+  MS: "Mississippi",
+  MO: "Missouri",
+  MT: "Montana",
+  NE: "Nebraska",
+  NV: "Nevada",
+  NH: "New Hampshire",
+  NJ: "New Jersey",
+  NM: "New Mexico",
+  NY: "New York",
+  NC: "North Carolina",
+  ND: "North Dakota",
+  OH: "Ohio",
+  OK: "Oklahoma",
+  OR: "Oregon",
+  PA: "Pennsylvania",
+  RI: "Rhode Island",
+  SC: "South Carolina",
+  SD: "South Dakota",
+  TN: "Tennessee",
+  TX: "Texas",
+  UT: "Utah",
+  VT: "Vermont",
+  VA: "Virginia",
+  WA: "Washington",
+  WV: "West Virginia",
+  WI: "Wisconsin",
+  WY: "Wyoming",
+};
+
+export const EDITABLE_FIELDS: EditablePropertyField[] = [
+  "property_address",
+  "hoa_or_management_company",
+  "decision_maker_name",
+  "decision_maker_email",
+  "decision_maker_phone",
+  "city",
+  "county",
+  "state",
+  "zip_code",
+  "suspend_until",
+];
+
+export const CONTACT_ROLES: Array<{ role: ContactRole; label: string }> = [
+  { role: "decision_maker", label: "Decision Maker" },
+  { role: "board_president", label: "Board President" },
+  { role: "board_member", label: "Board Member" },
+  { role: "community_manager", label: "Community Manager (CAM)" },
+  { role: "management_company", label: "Management Company" },
+  { role: "other", label: "Other" },
+];
+
+/**
+ * Full state name for a name or two-letter abbreviation in any case,
+ * null when it is not a US state
+ */
+export function normalizeState(value: string): string | null {
+  const trimmed = value.trim();
+  const byCode = US_STATES[trimmed.toUpperCase()];
+  if (byCode) return byCode;
+
+  return (
+    Object.values(US_STATES).find(
+      (name) => name.toLowerCase() === trimmed.toLowerCase()
+    ) || null
+  );
+}
+
+// Blank inputs clear the column
+const OptionalText = z
+  .string()
+  .trim()
+  .max(500)
+  .nullish()
+  .transform((value) => value || null);
+
+const optional = <T extends z.ZodType<unknown, string>>(schema: T) =>
+  z
+    .string()
+    .trim()
+    .nullish()
+    .transform((value) => value || null)
+    .pipe(schema.nullable());
+
+const Email = optional(z.email("Not a valid email address"));
+
+const Phone = optional(
+  z.string().transform((phone, ctx) => {
+    const parsed = parsePhone(phone);
+    if (!parsed) {
+      ctx.addIssue({ code: "custom", message: "Not a valid phone number" });
+      return z.NEVER;
+    }
+    return parsed;
+  })
+);
+
+const Extension = optional(z.string().regex(/^\d{1,6}$/, "Digits only"));
+
+// The phone is stored in E.164 and its extension in its own column. An
+// extension written in the number wins over one sent separately, and a
+// phone without either clears the old extension.
+function splitPhone(
+  data: Record<string, unknown>,
+  phoneField: string,
+  extensionField: string
+): Record<string, unknown> {
+  const { [extensionField]: extension, ...rest } = data;
+  if (!(phoneField in data)) return rest;
+
+  const phone = data[phoneField] as NormalizedPhone | null;
+  return {
+    ...rest,
+    [phoneField]: phone?.e164 ?? null,
+    [extensionField]: phone ? phone.extension || extension || null : null,
+  };
+}
+
+const PropertyFields = z.object({
+  property_address: z
+    .string({ error: "Property name is required" })
+    .trim()
+    .min(1, "Property name is required")
+    .max(500)
+    .transform((value) => value.toUpperCase()),
+  hoa_or_management_company: OptionalText,
+  decision_maker_name: OptionalText,
+  decision_maker_email: Email,
+  decision_maker_phone: Phone,
+  decision_maker_phone_ext: Extension,
+  city: OptionalText,
+  county: OptionalText,
+  state: optional(
+    z
+      .string()
+      .transform((state) => normalizeState(state))
+      .refine((state) => state !== null, "Not a US state")
+      .transform((state) => state as string)
+  ),
+  zip_code: optional(z.string().regex(/^\d{5}(-\d{4})?$/, "Not a US ZIP code")),
+  suspend_until: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Not a valid date")
+    .refine((date) => !Number.isNaN(Date.parse(date)), "Not a valid date"),
+});
+
+export type PropertyValidation =
+  | { success: true; data: PropertyInput }
+  | { success: false; errors: Partial<Record<EditablePropertyField, string>> };
+
+/**
+ * Validate a property form. With `partial` only the fields present in the
+ * input are checked (edits); otherwise the property name is required and a
+ * missing suspend_until is left for the database default.
+ */
+export function validatePropertyInput(
+  input: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): PropertyValidation {
+  const schema = partial
+    ? PropertyFields.partial()
+    : PropertyFields.partial({ suspend_until: true });
+
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    // Fields left out of an edit must stay untouched, not be cleared
+    const data = partial
+      ? Object.fromEntries(
+          Object.entries(parsed.data).filter(
+            ([field]) => field in (input as object)
+          )
+        )
+      : parsed.data;
+    return {
+      success: true,
+      data: splitPhone(
+        data,
+        "decision_maker_phone",
+        "decision_maker_phone_ext"
+      ) as PropertyInput,
+    };
+  }
+
+  const errors: Partial<Record<EditablePropertyField, string>> = {};
+  for (const issue of parsed.error.issues) {
+    const field = issue.path[0] as EditablePropertyField;
+    if (field && !errors[field]) errors[field] = issue.message;
+  }
+  return { success: false, errors };
+}
+
+const ContactFields = z.object({
+  role: z.enum(
+    CONTACT_ROLES.map(({ role }) => role) as [ContactRole, ...ContactRole[]],
+    { error: "Pick a role" }
+  ),
+  name: OptionalText,
+  email: Email,
+  phone: Phone,
+  phone_ext: Extension,
+  is_primary: z.boolean(),
+});
+
+export type ContactValidation =
+  | { success: true; data: PropertyContactInput }
+  | {
+      success: false;
+      errors: Partial<Record<keyof PropertyContactInput, string>>;
+    };
+
+/**
+ * Validate a contact form. New contacts need a role and a name, email or
+ * phone; with `partial` only the fields present in the input are checked.
+ */
+export function validateContactInput(
+  input: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): ContactValidation {
+  const schema = partial
+    ? ContactFields.partial()
+    : ContactFields.partial({ is_primary: true }).refine(
+        (contact) => contact.name || contact.email || contact.phone,
+        { message: "Enter a name, email or phone", path: ["name"] }
+      );
+
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    const data = partial
+      ? Object.fromEntries(
+          Object.entries(parsed.data).filter(
+            ([field]) => field in (input as object)
+          )
+        )
+      : parsed.data;
+    return {
+      success: true,
+      data: splitPhone(data, "phone", "phone_ext") as PropertyContactInput,
+    };
+  }
+
+  const errors: Partial<Record<keyof PropertyContactInput, string>> = {};
+  for (const issue of parsed.error.issues) {
+    const field = issue.path[0] as keyof PropertyContactInput;
+    if (field && !errors[field]) errors[field] = issue.message;
+  }
+  return { success: false, errors };
+}
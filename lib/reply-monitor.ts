@@ -0,0 +1,219 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  extractTopReply,
+  findMatchedKeywords,
+  getInboxConfig,
+  getMailbox,
+  type InboxMessage,
+  type Mailbox,
+  type ReplyCheckResult,
+} from "@/lib/inbox";
+import { getCampaignTransport, type CampaignTransport } from "@/lib/campaign";
+import { isSuppressed } from "@/lib/suppressions";
+import type { CampaignProgress, EmailLog } from "@/lib/types";
+
+/**
+ * Handles replies to campaign emails (replaces the Monitor-Emails n8n
+ * workflow). Every unread answer to a logged campaign email marks the log
+ * replied; answers that mention one of the campaign's reply keywords also
+ * get the proposal PDF as an auto-reply, once per email, unless the
+ * contact is suppressed. Messages that are not answers to a campaign email
+ * are left unread.
+ */
+
+// Replies shorter than this carry no meaning ("ok", "?")
+const MIN_REPLY_LENGTH = 3;
+
+const AUTO_REPLY_HTML = `<table width="100%" border="0" cellspacing="0" cellpadding="0" bgcolor="#f8f8f8">   <tr>     <td align="center" style="padding: 30px 15px;">       <table width="600" border="0" cellspacing="0" cellpadding="0" bgcolor="#ffffff" style="border-radius:8px; padding: 30px;">         <tr>           <td style="font-size:1.05em; color:#333; line-height:1.5;">             <p style="margin-bottom:18px; font-size:1.05em;">               <b>Thank you for replying.</b><br><br>               Please download our Total Body Mobile Massage Amenity Service Proposal PDF attached to this email. After reading through the information, please click on the link at the end of the document, and it will take you to where you can view our full virtual proposal. We truly appreciate your interest, and look forward to working together with your community soon.             </p>             <p style="color:#444; font-size:0.98em; white-space:pre-line; margin-top:24px;">               Lyndon S.               <br>Total Body Mobile Massage – Outreach Team               <br>Contact Email: tbmmoutreach@gmail.com               <br>Company Website: www.totalbodymobilemassage.com             </p>           </td>         </tr>       </table>     </td>   </tr> </table>`;
+
+type RepliedLog = Pick<
+  EmailLog,
+  "id" | "property_id" | "replied" | "auto_replied_at"
+>;
+
+// The campaign email a message answers: by its Message-ID, or for emails
+// sent before threads were tracked by Message-ID, the latest one sent to
+// the sender's property
+async function findAnsweredEmail(
+  message: InboxMessage
+): Promise<RepliedLog | null> {
+  const supabase = await createClient();
+
+  if (message.inReplyTo.length > 0) {
+    const { data, error } = await supabase
+      .from("email_logs")
+      .select("id, property_id, replied, auto_replied_at")
+      .in("thread_id", message.inReplyTo)
+      .order("sent_at", { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to load email logs: ${error.message}`);
+    }
+    if (data && data.length > 0) return data[0] as RepliedLog;
+  }
+
+  if (!message.from) return null;
+
+  const { data: contacts, error: contactError } = await supabase
+    .from("property_contacts")
+    .select("property_id")
+    // Case-insensitive, with the address's own "_" and "%" taken literally
+    .ilike("email", message.from.replace(/[\\%_]/g, "\\$&"));
+
+  if (contactError) {
+    throw new Error(`Failed to load contacts: ${contactError.message}`);
+  }
+  if (!contacts || contacts.length === 0) return null;
+
+  const { data, error } = await supabase
+    .from("email_logs")
+    .select("id, property_id, replied, auto_replied_at")
+    .in(
+      "property_id",
+      contacts.map((contact) => contact.property_id)
+    )
+    .order("sent_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load email logs: ${error.message}`);
+  }
+  return (data?.[0] as RepliedLog) || null;
+}
+
+// "proposal.pdf" from ".../object/public/proposals/proposal.pdf?token"
+const pdfFileName = (url: string) => {
+  try {
+    const name = decodeURIComponent(
+      new URL(url).pathname.split("/").pop() || ""
+    );
+    return name.toLowerCase().endsWith(".pdf") ? name : "Proposal.pdf";
+  } catch {
+    return "Proposal.pdf";
+  }
+};
+
+/**
+ * Check the inbox for unread replies received in the last
+ * REPLY_LOOKBACK_DAYS
+ */
+export async function checkReplies({
+  mailbox = getMailbox(),
+  transport = getCampaignTransport(),
+}: {
+  mailbox?: Mailbox;
+  transport?: CampaignTransport;
+} = {}): Promise<ReplyCheckResult> {
+  const supabase = await createClient();
+  const config = getInboxConfig();
+  const since = new Date(
+    Date.now() - config.lookbackDays * 24 * 60 * 60 * 1000
+  );
+
+  const { data: progress, error: progressError } = await supabase
+    .from("campaign_progress")
+    .select("reply_keywords, pdf_url")
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (progressError) {
+    throw new Error(
+      `Failed to load campaign progress: ${progressError.message}`
+    );
+  }
+
+  const { reply_keywords: keywords = [], pdf_url: pdfUrl = "" } =
+    (progress as Pick<CampaignProgress, "reply_keywords" | "pdf_url">) || {};
+  const messages = await mailbox.fetchUnread(since);
+  const result: ReplyCheckResult = {
+    checked: messages.length,
+    replies: 0,
+    autoReplied: 0,
+    failed: 0,
+  };
+  const handled: number[] = [];
+
+  for (const message of messages) {
+    const log = await findAnsweredEmail(message);
+    if (!log) continue;
+
+    result.replies++;
+    const now = new Date().toISOString();
+
+    if (!log.replied) {
+      const { error } = await supabase
+        .from("email_logs")
+        .update({ replied: true, replied_at: now })
+        .eq("id", log.id);
+
+      if (error) {
+        throw new Error(`Failed to mark email replied: ${error.message}`);
+      }
+    }
+
+    const reply = extractTopReply(message.text);
+    const matched =
+      reply.length >= MIN_REPLY_LENGTH
+        ? findMatchedKeywords(reply, keywords)
+        : [];
+
+    if (
+      matched.length > 0 &&
+      !log.auto_replied_at &&
+      message.from &&
+      // No proposal for contacts who opted out or asked not to be contacted
+      !(await isSuppressed({
+        propertyId: log.property_id,
+        email: message.from,
+      }))
+    ) {
+      try {
+        await transport.send({
+          to: message.from,
+          subject: /^re:/i.test(message.subject)
+            ? message.subject
+            : `Re: ${message.subject}`,
+          html: AUTO_REPLY_HTML,
+          inReplyTo: message.messageId || undefined,
+          references: [
+            ...[...message.inReplyTo].reverse(),
+            ...(message.messageId ? [message.messageId] : []),
+          ],
+          attachments: pdfUrl
+            ? [{ filename: pdfFileName(pdfUrl), url: pdfUrl }]
+            : [],
+        });
+      } catch (error) {
+        // Left unread, so the next check tries again
+        console.error(`❌ Failed to auto-reply to ${message.from}:`, error);
+        result.failed++;
+        continue;
+      }
+
+      const { error } = await supabase
+        .from("email_logs")
+        .update({ auto_replied_at: now })
+        .eq("id", log.id);
+
+      if (error) {
+        throw new Error(`Failed to save auto-reply: ${error.message}`);
+      }
+
+      console.log(
+        `📎 Sent the proposal to ${message.from} (matched "${matched[0]}")`
+      );
+      result.autoReplied++;
+    }
+
+    handled.push(message.uid);
+  }
+
+  await mailbox.markSeen(handled);
+
+  console.log(
+    `📬 Checked ${result.checked} unread messages: ${result.replies} replies, ${result.autoReplied} auto-replied, ${result.failed} failed`
+  );
+  return result;
+}
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  createDuplicateReviews,
+  findLikelyDuplicates,
+} from "@/lib/property-duplicates";
+import { linkManagementCompanies } from "@/lib/management-companies";
+import { verifyPropertyEmails } from "@/lib/email-status";
+import { parsePhone } from "@/lib/phone";
+import { normalizeGeography } from "@/lib/geography";
+import type { ImportedPropertyRow, PropertyImportResult } from "@/lib/types";
+
+/**
+ * Server-side utilities for spreadsheet imports.
+ * Fully populated rows are inserted as they are, without enrichment.
+ */
+
+const ID_CHUNK_SIZE = 200;
+const INSERT_CHUNK_SIZE = 500;
+
+const OptionalText = z
+  .string()
+  .trim()
+  .max(500)
+  .optional()
+  .transform((value) => value || null);
+
+const ImportedRow = z.object({
+  row: z.number().int().positive(),
+  property_address: z.string().trim().min(1, "property name is required"),
+  hoa_or_management_company: OptionalText,
+  decision_maker_name: OptionalText,
+  decision_maker_email: z.email("not a valid email address"),
+  decision_maker_phone: OptionalText.transform((phone, ctx) => {
+    if (!phone) return null;
+    const parsed = parsePhone(phone);
+    if (!parsed) {
+      ctx.addIssue({ code: "custom", message: "not a valid phone number" });
+      return z.NEVER;
+    }
+    return parsed;
+  }),
+  city: OptionalText,
+  county: OptionalText,
+  state: OptionalText,
+  zip_code: OptionalText,
+});
+
+// Phones are stored in E.164 with the extension in its own column, and
+// the address is checked against the ZIP reference before duplicates are
+const toRow = ({
+  decision_maker_phone,
+  ...row
+}: z.infer<typeof ImportedRow>) => {
+  const { geography, coordinates, flags } = normalizeGeography(row);
+  return {
+    ...row,
+    ...geography,
+    ...coordinates,
+    geo_flags: flags,
+    decision_maker_phone: decision_maker_phone?.e164 || null,
+    decision_maker_phone_ext: decision_maker_phone?.extension || null,
+  };
+};
+
+type ValidRow = ReturnType<typeof toRow>;
+
+// Names from the list that already exist in properties
+async function getExistingNames(names: string[]): Promise<Set<string>> {
+  const supabase = await createClient();
+  const existing = new Set<string>();
+
+  for (let i = 0; i < names.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from("properties")
+      .select("property_address")
+      .in("property_address", names.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to check existing properties: ${error.message}`);
+    }
+
+    (data || []).forEach((row) => existing.add(row.property_address));
+  }
+
+  return existing;
+}
+
+/**
+ * Insert imported rows that already carry contact data. Rows whose
+ * `property_address` exists (or appears earlier in the file) are skipped
+ * and reported as duplicates, rows that look like a saved property go to
+ * the duplicate review queue; rows that fail validation are reported with
+ * their row number.
+ */
+export async function importProperties(
+  rows: ImportedPropertyRow[]
+): Promise<PropertyImportResult> {
+  const result: PropertyImportResult = {
+    inserted: 0,
+    duplicates: [],
+    forReview: [],
+    invalid: [],
+  };
+
+  const validRows: ValidRow[] = [];
+  for (const row of rows) {
+    const parsed = ImportedRow.safeParse(row);
+    if (parsed.success) {
+      validRows.push(toRow(parsed.data));
+    } else {
+      result.invalid.push({
+        row: row.row,
+        error: parsed.error.issues.map((issue) => issue.message).join(", "),
+      });
+    }
+  }
+
+  const existing = await getExistingNames([
+    ...new Set(validRows.map((row) => row.property_address)),
+  ]);
+
+  const uniqueRows = validRows.filter((row) => {
+    if (existing.has(row.property_address)) {
+      result.duplicates.push(row.property_address);
+      return false;
+    }
+    existing.add(row.property_address);
+    return true;
+  });
+
+  const candidates = uniqueRows.map(({ row, ...columns }) => columns);
+  const likelyDuplicates = await findLikelyDuplicates(
+    candidates.map((candidate) => ({
+      name: candidate.property_address,
+      region: { city: candidate.city, state: candidate.state },
+    }))
+  );
+  const newRows = candidates.filter((_, index) => !likelyDuplicates.has(index));
+  const insertedIds = new Map<string, string>();
+
+  const supabase = await createClient();
+  for (let i = 0; i < newRows.length; i += INSERT_CHUNK_SIZE) {
+    const insertData = newRows.slice(i, i + INSERT_CHUNK_SIZE);
+
+    const { data, error } = await supabase
+      .from("properties")
+      .insert(insertData)
+      .select("id, property_address, hoa_or_management_company");
+
+    if (error) {
+      throw new Error(`Import insertion failed: ${error.message}`);
+    }
+    await linkManagementCompanies(data || []);
+    await verifyPropertyEmails((data || []).map((row) => row.id));
+    (data || []).forEach((row) =>
+      insertedIds.set(row.property_address, row.id)
+    );
+    result.inserted += insertData.length;
+  }
+
+  // Duplicates of a row from this file point at its new property
+  await createDuplicateReviews(
+    [...likelyDuplicates].map(([index, match]) => ({
+      candidate: candidates[index],
+      match: { ...match, id: match.id ?? insertedIds.get(match.name) ?? null },
+    }))
+  );
+  likelyDuplicates.forEach((_, index) =>
+    result.forReview.push(candidates[index].property_address)
+  );
+
+  console.log(
+    `📥 Imported ${result.inserted} properties (${result.duplicates.length} duplicates, ${result.forReview.length} for review, ${result.invalid.length} invalid rows)`
+  );
+
+  return result;
+}
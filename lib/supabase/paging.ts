@@ -0,0 +1,59 @@
+// Supabase returns at most this many rows per select
+export const PAGE_SIZE = 1000;
+
+type PageResult<T> = PromiseLike<{
+  data: T[] | null;
+  error: { message: string } | null;
+}>;
+
+// The part of a Supabase select builder paging needs
+interface PageableQuery<T> {
+  gt(column: string, value: string): this;
+  order(column: string): { limit(count: number): PageResult<T> };
+}
+
+/**
+ * Pages of the rows a query selects, PAGE_SIZE at a time. Pages follow a
+ * unique column (id by default) instead of offsets, so rows that leave the
+ * filter while the caller works on them (verified, linked, normalized)
+ * don't shift later rows past the cursor. `query` builds the filtered
+ * select afresh for every page; `what` names the rows in errors.
+ */
+export async function* selectPages<T>(
+  what: string,
+  query: () => PageableQuery<T>,
+  key = "id"
+): AsyncGenerator<T[]> {
+  let after: string | null = null;
+
+  while (true) {
+    let page = query();
+    if (after !== null) page = page.gt(key, after);
+
+    const { data, error } = await page.order(key).limit(PAGE_SIZE);
+    if (error) {
+      throw new Error(`Failed to load ${what}: ${error.message}`);
+    }
+
+    const rows = data || [];
+    if (rows.length > 0) yield rows;
+    if (rows.length < PAGE_SIZE) return;
+
+    after = String((rows[rows.length - 1] as Record<string, unknown>)[key]);
+  }
+}
+
+/**
+ * Every row a query selects, read a page at a time
+ */
+export async function selectAll<T>(
+  what: string,
+  query: () => PageableQuery<T>,
+  key = "id"
+): Promise<T[]> {
+  const rows: T[] = [];
+  for await (const page of selectPages(what, query, key)) {
+    rows.push(...page);
+  }
+  return rows;
+}
@@ -0,0 +1,108 @@
+import type {
+  Property,
+  Suppression,
+  SuppressionReason,
+  SuppressionScope,
+} from "@/lib/types";
+
+// Shared by the dashboard, the map and the Excel export, so a property has
+// the same status everywhere
+
+export const SUPPRESSION_REASONS: {
+  reason: SuppressionReason;
+  label: string;
+}[] = [
+  { reason: "unsubscribed", label: "Unsubscribed" },
+  { reason: "bounced", label: "Bounced" },
+  { reason: "complained", label: "Complained" },
+  { reason: "manual", label: "Manual" },
+  { reason: "do_not_contact", label: "Do not contact" },
+];
+
+export const SUPPRESSION_SCOPES: {
+  scope: SuppressionScope;
+  label: string;
+}[] = [
+  { scope: "property", label: "This property" },
+  { scope: "email", label: "Email address" },
+  { scope: "domain", label: "Whole domain" },
+];
+
+export const suppressionReasonLabel = (reason: SuppressionReason) =>
+  SUPPRESSION_REASONS.find((option) => option.reason === reason)?.label ||
+  reason;
+
+/**
+ * - subscribed: campaign emails go out
+ * - suspended: paused until the property's suspend_until date
+ * - suppressed: an active suppression covers the property or its decision
+ *   maker's address
+ */
+export type SubscriptionStatus = "subscribed" | "suspended" | "suppressed";
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = [
+  "subscribed",
+  "suspended",
+  "suppressed",
+];
+
+export const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  subscribed: "Subscribed",
+  suspended: "Suspended",
+  suppressed: "Suppressed",
+};
+
+/**
+ * Whether a suppression still applies, permanent ones always do
+ */
+export function isActiveSuppression(
+  suppression: Pick<Suppression, "expires_at">,
+  now = new Date()
+): boolean {
+  return !suppression.expires_at || new Date(suppression.expires_at) > now;
+}
+
+/**
+ * The active suppressions covering a property or one of its addresses,
+ * matching the database's is_suppressed()
+ */
+export function findSuppressions(
+  suppressions: Suppression[],
+  { propertyId, emails }: { propertyId: string; emails: (string | null)[] }
+): Suppression[] {
+  const addresses = emails
+    .filter((email): email is string => !!email)
+    .map((email) => email.trim().toLowerCase());
+  const domains = addresses.map((email) => email.split("@")[1]);
+
+  return suppressions.filter((suppression) => {
+    if (!isActiveSuppression(suppression)) return false;
+
+    switch (suppression.scope) {
+      case "property":
+        return suppression.property_id === propertyId;
+      case "email":
+        return addresses.includes(suppression.value || "");
+      case "domain":
+        return domains.includes(suppression.value || "");
+    }
+  });
+}
+
+/**
+ * A property's campaign status; suppressions win over suspensions
+ */
+export function subscriptionStatus(
+  property: Pick<Property, "id" | "decision_maker_email" | "suspend_until">,
+  suppressions: Suppression[]
+): SubscriptionStatus {
+  const suppressed =
+    findSuppressions(suppressions, {
+      propertyId: property.id,
+      emails: [property.decision_maker_email],
+    }).length > 0;
+
+  if (suppressed) return "suppressed";
+  if (new Date(property.suspend_until) > new Date()) return "suspended";
+  return "subscribed";
+}
@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { selectAll } from "@/lib/supabase/paging";
+import type { Suppression, SuppressionInput } from "@/lib/types";
+
+/**
+ * Suppressions keep properties, addresses and whole domains out of every
+ * email the app sends. The campaign reads the `campaign_recipients` view,
+ * which already leaves them out (see the suppressions migration); other
+ * senders ask isSuppressed() before sending.
+ */
+
+const Domain = z
+  .string()
+  .regex(/^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/, "Not a domain");
+
+const SuppressionFields = z
+  .object({
+    scope: z.enum(["email", "domain", "property"], {
+      error: "Choose what to suppress",
+    }),
+    value: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .nullish()
+      .transform((value) => value || null),
+    property_id: z
+      .uuid("Not a property")
+      .nullish()
+      .transform((value) => value ?? null),
+    reason: z.enum(
+      ["unsubscribed", "bounced", "complained", "manual", "do_not_contact"],
+      { error: "Choose a reason" }
+    ),
+    note: z
+      .string()
+      .trim()
+      .max(1000)
+      .nullish()
+      .transform((value) => value || null),
+    expires_at: z.iso
+      .datetime({ offset: true, error: "Not a date" })
+      .nullish()
+      .transform((value) => value ?? null)
+      .refine((value) => !value || new Date(value) > new Date(), {
+        message: "The expiry must be in the future",
+      }),
+  })
+  .transform((input, ctx): SuppressionInput => {
+    const { scope, value, property_id } = input;
+
+    if (scope === "property") {
+      if (!property_id) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["property_id"],
+          message: "Choose a property",
+        });
+      }
+      return { ...input, value: null };
+    }
+
+    // "someone@example.com" and "@example.com" both suppress example.com
+    const target =
+      scope === "domain" ? value?.slice(value.lastIndexOf("@") + 1) : value;
+    const valid =
+      scope === "domain"
+        ? Domain.safeParse(target).success
+        : z.email().safeParse(target).success;
+
+    if (!valid) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: scope === "domain" ? "Not a domain" : "Not an email address",
+      });
+    }
+    return { ...input, value: target || null, property_id: null };
+  });
+
+export type SuppressionValidation =
+  | { success: true; data: SuppressionInput }
+  | {
+      success: false;
+      errors: Partial<Record<keyof SuppressionInput, string>>;
+    };
+
+/**
+ * Validate a suppression form, lowercasing its address or domain
+ */
+export function validateSuppressionInput(
+  input: unknown
+): SuppressionValidation {
+  const result = SuppressionFields.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Partial<Record<keyof SuppressionInput, string>> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof SuppressionInput;
+    errors[field] ??= issue.message;
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Get the suppressions that still apply, newest first
+ */
+export async function getActiveSuppressions(): Promise<Suppression[]> {
+  const supabase = await createClient();
+  const suppressions = await selectAll<Suppression>("suppressions", () =>
+    supabase
+      .from("suppressions")
+      .select("*")
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+  );
+
+  return suppressions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Create a suppression from validated input
+ */
+export async function createSuppression(
+  input: SuppressionInput,
+  createdBy: string | null = null
+): Promise<Suppression> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("suppressions")
+    .insert({ ...input, created_by: createdBy })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create suppression: ${error.message}`);
+  }
+
+  console.log(
+    `🚫 Suppressed ${data.scope} ${data.value || data.property_id} (${data.reason})`
+  );
+  return data as Suppression;
+}
+
+/**
+ * Lift a suppression. Returns null when it does not exist.
+ */
+export async function deleteSuppression(
+  id: string
+): Promise<Suppression | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("suppressions")
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete suppression: ${error.message}`);
+  }
+  if (!data) return null;
+
+  console.log(
+    `🗑️ Lifted suppression of ${data.scope} ${data.value || data.property_id}`
+  );
+  return data as Suppression;
+}
+
+/**
+ * Whether a property, an address or the address's domain must not be
+ * emailed
+ */
+export async function isSuppressed({
+  propertyId = null,
+  email = null,
+}: {
+  propertyId?: string | null;
+  email?: string | null;
+}): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("is_suppressed", {
+    p_property_id: propertyId,
+    p_email: email,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check suppressions: ${error.message}`);
+  }
+  return data === true;
+}
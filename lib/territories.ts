@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { normalizeGeography } from "@/lib/geography";
+import { normalizeState } from "@/lib/property-validation";
+import type { Territory, TerritoryInput } from "@/lib/types";
+
+/**
+ * Territories assign properties to team members. The assignment itself
+ * happens in the database (see the territories migration): properties get
+ * the owner of the territory they fall in when they are saved, and all of
+ * them are reassigned whenever a territory changes.
+ */
+
+// Names as they are stored on properties, so the database can compare them
+const States = z
+  .array(z.string().trim())
+  .default([])
+  .transform((values, ctx) => {
+    const states = values.filter(Boolean).map((value) => {
+      const state = normalizeState(value);
+      if (!state) {
+        ctx.addIssue({
+          code: "custom",
+          message: `"${value}" is not a US state`,
+        });
+      }
+      return state as string;
+    });
+    return [...new Set(states)];
+  });
+
+// "Palm Beach County, FL" is stored as "Palm Beach, Florida"
+const Counties = z
+  .array(z.string().trim())
+  .default([])
+  .transform((values, ctx) => {
+    const counties = values.filter(Boolean).map((value) => {
+      const separator = value.lastIndexOf(",");
+      const { geography, flags } = normalizeGeography({
+        county: separator > 0 ? value.slice(0, separator) : value,
+        state: separator > 0 ? value.slice(separator + 1) : null,
+      });
+      if (!geography.state || flags.length > 0) {
+        ctx.addIssue({
+          code: "custom",
+          message: `"${value}" is not a county, write it as "County, State"`,
+        });
+      }
+      return `${geography.county}, ${geography.state}`;
+    });
+    return [...new Set(counties)];
+  });
+
+const ZipCodes = z
+  .array(z.string().trim())
+  .default([])
+  .transform((values, ctx) => {
+    const zips = values.filter(Boolean).map((value) => {
+      const match = value.match(/^(\d{5})(-\d{4})?$/);
+      if (!match) {
+        ctx.addIssue({
+          code: "custom",
+          message: `"${value}" is not a ZIP code`,
+        });
+      }
+      return match?.[1] as string;
+    });
+    return [...new Set(zips)];
+  });
+
+const TerritoryFields = z.object({
+  name: z
+    .string({ error: "Name is required" })
+    .trim()
+    .min(1, "Name is required")
+    .max(200),
+  owner_id: z
+    .uuid("Not a team member")
+    .nullish()
+    .transform((value) => value ?? null),
+  states: States,
+  counties: Counties,
+  zip_codes: ZipCodes,
+});
+
+export type TerritoryValidation =
+  | { success: true; data: TerritoryInput }
+  | {
+      success: false;
+      errors: Partial<Record<keyof TerritoryInput, string>>;
+    };
+
+/**
+ * Validate a territory form, normalizing its states, counties and ZIP codes
+ */
+export function validateTerritoryInput(input: unknown): TerritoryValidation {
+  const result = TerritoryFields.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Partial<Record<keyof TerritoryInput, string>> = {};
+  for (const issue of result.error.issues) {
+    const field = issue.path[0] as keyof TerritoryInput;
+    errors[field] ??= issue.message;
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Get all territories by name
+ */
+export async function getTerritories(): Promise<Territory[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("territories")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load territories: ${error.message}`);
+  }
+
+  return (data || []) as Territory[];
+}
+
+/**
+ * Create a territory from validated input
+ */
+export async function createTerritory(
+  input: TerritoryInput
+): Promise<Territory> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("territories")
+    .insert(input)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create territory: ${error.message}`);
+  }
+
+  console.log(`🗺️ Created territory ${data.name}`);
+  return data as Territory;
+}
+
+/**
+ * Replace a territory with validated input. Returns null when it does not
+ * exist.
+ */
+export async function updateTerritory(
+  id: string,
+  input: TerritoryInput
+): Promise<Territory | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("territories")
+    .update({ ...input, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update territory: ${error.message}`);
+  }
+
+  return data as Territory | null;
+}
+
+/**
+ * Delete a territory, its properties go to whichever territory covers them
+ * next. Returns null when it does not exist.
+ */
+export async function deleteTerritory(id: string): Promise<Territory | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("territories")
+    .delete()
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete territory: ${error.message}`);
+  }
+  if (!data) return null;
+
+  console.log(`🗑️ Deleted territory ${data.name}`);
+  return data as Territory;
+}
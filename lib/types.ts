@@ -7,18 +7,100 @@ export interface Property {
   state: string | null;
   decision_maker_name: string | null;
   decision_maker_email: string | null;
-  decision_maker_phone: string | null;
+  decision_maker_phone: string | null; // E.164, see lib/phone.ts
+  decision_maker_phone_ext: string | null; // digits only
   suspend_until: string; // date - NOT NULL DEFAULT CURRENT_DATE
   created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
   updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
   opt_out_code: string; // UUID - NOT NULL DEFAULT gen_random_uuid() UNIQUE
   hoa_or_management_company: string | null;
+  manual_fields: string[]; // text[] - NOT NULL DEFAULT '{}', columns edited by hand (never overwritten by enrichment)
+  enrichment_sources: EnrichmentSource[]; // jsonb - NOT NULL DEFAULT '[]', Google Search grounding results
+  field_confidence: Partial<Record<string, FieldConfidence>>; // jsonb - NOT NULL DEFAULT '{}', keyed by column
+  enrichment_model: string | null; // text - model that produced the enriched fields
+  enriched_at: string | null; // timestamp with time zone - last time enrichment wrote to the row
+  deleted_at: string | null; // timestamp with time zone - set when the property is deleted from the dashboard
+  management_company_id: string | null; // UUID - REFERENCES management_companies(id) ON DELETE SET NULL, linked from hoa_or_management_company
+  email_status: EmailStatus; // text - NOT NULL DEFAULT 'unknown', verification of decision_maker_email, reset when it changes
+  email_verified_at: string | null; // timestamp with time zone - last verification of decision_maker_email
+  latitude: number | null; // double precision - centroid of the ZIP (or city) from lib/geography.ts, for the dashboard map
+  longitude: number | null; // double precision
+  geo_flags: GeoFlag[]; // text[] - NOT NULL DEFAULT '{}', address problems found against the ZIP reference, see lib/geography.ts
+  owner_id: string | null; // UUID - REFERENCES auth.users(id) ON DELETE SET NULL, team member working the property
+  territory_id: string | null; // UUID - REFERENCES territories(id) ON DELETE SET NULL, territory the owner comes from
+}
+
+// Address problems a rep should check; values that contradict the ZIP are
+// kept as they are, since either side may be the wrong one
+export type GeoFlag =
+  | "invalid_zip"
+  | "unknown_zip"
+  | "unknown_state"
+  | "unknown_county"
+  | "zip_state_mismatch"
+  | "zip_county_mismatch"
+  | "zip_city_mismatch";
+
+// Outcome of verifying an email address; only valid addresses are emailed
+export type EmailStatus = "valid" | "risky" | "invalid" | "unknown";
+
+// How sure the enrichment was about a single field
+export type FieldConfidence = "high" | "medium" | "low";
+
+// A web page Gemini's Google Search grounding used for an answer
+export interface EnrichmentSource {
+  uri: string;
+  title: string | null;
+  fields: string[]; // property columns the page backs
 }
 
 export interface ExtractedProperty {
   id: string;
   name: string;
   editable: boolean;
+  sources?: string[]; // images the name was extracted from
+}
+
+export type ImageExtractionStatus = "pending" | "extracting" | "done" | "failed";
+
+// One image or PDF page of a batch upload on the upload page
+export interface ImageExtraction {
+  id: string;
+  file: File;
+  label: string; // file name, prefixed with the archive name for ZIP entries and suffixed with the page for PDFs
+  page: number | null; // 1-based page number when split from a PDF
+  previewUrl: string | null; // object URL for images, revoked when removed; null for PDF pages
+  status: ImageExtractionStatus;
+  namesFound: number;
+  error: string | null;
+}
+
+// Property columns a spreadsheet import can fill
+export type ImportablePropertyField =
+  | "property_address"
+  | "hoa_or_management_company"
+  | "decision_maker_name"
+  | "decision_maker_email"
+  | "decision_maker_phone"
+  | "city"
+  | "county"
+  | "state"
+  | "zip_code";
+
+// One mapped spreadsheet row; `row` is the 1-based row number in the file
+export type ImportedPropertyRow = Partial<
+  Record<ImportablePropertyField, string>
+> & {
+  row: number;
+  property_address: string;
+};
+
+// Outcome of inserting fully populated rows via /api/import-properties
+export interface PropertyImportResult {
+  inserted: number;
+  duplicates: string[]; // property names that already exist (or repeat in the file)
+  forReview: string[]; // likely duplicates held in the duplicate review queue
+  invalid: Array<{ row: number; error: string }>;
 }
 
 export interface EmailTemplate {
@@ -43,16 +125,72 @@ export interface EmailLog {
   thread_id: string; // text - NOT NULL UNIQUE
   sent_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
   replied_at: string | null; // timestamp with time zone - NULL
+  auto_replied_at: string | null; // timestamp with time zone - NULL, when the PDF auto-reply was sent
+  contact_id: string | null; // UUID - REFERENCES property_contacts(id) ON DELETE SET NULL, contact the email went to
   // Joined data from relations (using Supabase naming)
   properties?: Property;
   email_templates?: EmailTemplate;
 }
 
+export type UnsubscribeOutcome =
+  | "unsubscribed"
+  | "already_unsubscribed"
+  | "invalid";
+
+// How an opt-out arrived: the link in the email, or a mail client's
+// one-click unsubscribe (RFC 8058)
+export type UnsubscribeMethod = "link" | "one_click";
+
+export interface UnsubscribeEvent {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  property_id: string | null; // UUID - REFERENCES properties(id) ON DELETE SET NULL, null for invalid links
+  opt_out_code: string; // text - NOT NULL, as requested
+  outcome: UnsubscribeOutcome; // text - NOT NULL
+  method: UnsubscribeMethod; // text - NOT NULL
+  suspend_until: string | null; // date - the property's suspension after the request
+  suppression_id: string | null; // UUID - REFERENCES suppressions(id) ON DELETE SET NULL, the suppression the request created
+  user_agent: string | null; // text
+  ip_address: string | null; // text
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+// Why a contact must not be emailed
+export type SuppressionReason =
+  | "unsubscribed"
+  | "bounced"
+  | "complained"
+  | "manual"
+  | "do_not_contact";
+
+// What a suppression covers: one address, every address at a domain, or
+// every contact of a property
+export type SuppressionScope = "email" | "domain" | "property";
+
+export interface Suppression {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  scope: SuppressionScope; // text - NOT NULL
+  value: string | null; // text - lowercased email or domain, null for property scope
+  property_id: string | null; // UUID - REFERENCES properties(id) ON DELETE CASCADE, property scope only
+  reason: SuppressionReason; // text - NOT NULL
+  note: string | null; // text
+  expires_at: string | null; // timestamp with time zone - null: permanent
+  created_by: string | null; // UUID - REFERENCES auth.users(id) ON DELETE SET NULL
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+export type SuppressionInput = Pick<
+  Suppression,
+  "scope" | "value" | "property_id" | "reason" | "note" | "expires_at"
+>;
+
 export interface CampaignProgress {
   id: number; // integer - NOT NULL DEFAULT nextval('campaign_progress_id_seq'::regclass)
   current_week: number; // integer - NOT NULL DEFAULT 1
   last_sent_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
   pdf_url: string; // text - NOT NULL DEFAULT 'https://...'
+  recipient_roles: ContactRole[]; // text[] - NOT NULL DEFAULT '{decision_maker}', contact roles campaigns are sent to
+  reply_keywords: string[]; // text[] - NOT NULL, replies mentioning one of these get the PDF auto-reply
+  running_since: string | null; // timestamp with time zone - set while a campaign run is sending
 }
 
 export interface DashboardStats {
@@ -80,3 +218,214 @@ export interface PDFProposal {
     httpStatusCode: number;
   } | null;
 }
+
+export type ProcessingJobStatus = "queued" | "running" | "completed";
+
+// "import" creates new properties, "re_enrich" fills gaps in existing ones
+export type ProcessingJobMode = "import" | "re_enrich";
+
+export type ProcessingJobItemStatus =
+  "queued" | "processing" | "processed" | "skipped" | "failed";
+
+export interface ProcessingJob {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  user_id: string | null; // UUID - NULL (auth.users)
+  user_email: string; // text - NOT NULL
+  parent_address: string; // text - NOT NULL
+  filename: string | null; // text
+  mode: ProcessingJobMode; // text - NOT NULL DEFAULT 'import'
+  status: ProcessingJobStatus; // text - NOT NULL DEFAULT 'queued'
+  total_items: number; // integer - NOT NULL DEFAULT 0
+  processed_count: number; // integer - NOT NULL DEFAULT 0
+  skipped_count: number; // integer - NOT NULL DEFAULT 0
+  failed_count: number; // integer - NOT NULL DEFAULT 0
+  last_error: string | null; // text
+  started_at: string | null; // timestamp with time zone
+  completed_at: string | null; // timestamp with time zone
+  heartbeat_at: string | null; // timestamp with time zone - last time a worker touched the job
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+export interface ProcessingJobItem {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  job_id: string; // UUID - NOT NULL (processing_jobs.id ON DELETE CASCADE)
+  position: number; // integer - NOT NULL, order of the name in the submitted list
+  property_name: string; // text - NOT NULL
+  status: ProcessingJobItemStatus; // text - NOT NULL DEFAULT 'queued'
+  attempts: number; // integer - NOT NULL DEFAULT 0
+  last_error: string | null; // text
+  locked_at: string | null; // timestamp with time zone - set while a worker holds the item
+  next_attempt_at: string | null; // timestamp with time zone - retry backoff, NULL = ready now
+  processed_at: string | null; // timestamp with time zone
+  property_id: string | null; // UUID - NULL (properties.id ON DELETE SET NULL), target of re_enrich items
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+// Which existing properties a re-enrichment job should target.
+// Missing-field criteria are OR-ed; the age and id criteria narrow them down.
+export interface ReEnrichFilter {
+  missingEmail?: boolean;
+  missingPhone?: boolean;
+  olderThanDays?: number; // last updated more than N days ago
+  propertyIds?: string[];
+}
+
+export interface ProcessingBatchProgress {
+  batch: number; // 1-based, same batches the worker processes
+  total: number;
+  queued: number;
+  processing: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface ProcessingJobProgress {
+  job: ProcessingJob;
+  batches: ProcessingBatchProgress[];
+  items: Pick<
+    ProcessingJobItem,
+    | "id"
+    | "position"
+    | "property_name"
+    | "status"
+    | "attempts"
+    | "last_error"
+    | "next_attempt_at"
+    | "property_id"
+  >[];
+}
+
+// Permanently failed item, listed so it can be re-queued from the UI
+export interface DeadLetterItem
+  extends Pick<
+    ProcessingJobItem,
+    "id" | "job_id" | "property_name" | "attempts" | "last_error" | "updated_at"
+  > {
+  processing_jobs?: Pick<ProcessingJob, "parent_address" | "filename">;
+}
+
+export type DuplicateReviewStatus = "pending" | "inserted" | "dismissed";
+
+// Columns a duplicate review would insert if it turns out to be a new property
+export type DuplicateCandidate = Partial<
+  Omit<Property, "id" | "created_at" | "updated_at" | "opt_out_code">
+> & { property_address: string };
+
+export interface DuplicateReview {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  property_name: string; // text - NOT NULL
+  candidate: DuplicateCandidate; // jsonb - NOT NULL, the row that was held back
+  matched_property_id: string; // UUID - NOT NULL REFERENCES properties(id) ON DELETE CASCADE
+  similarity: number; // numeric(4,3) - NOT NULL, 0..1
+  job_item_id: string | null; // UUID - REFERENCES processing_job_items(id) ON DELETE SET NULL
+  status: DuplicateReviewStatus; // text - NOT NULL DEFAULT 'pending'
+  resolved_by: string | null; // UUID - REFERENCES auth.users(id)
+  resolved_at: string | null; // timestamp with time zone
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  matched_property?: Pick<
+    Property,
+    | "id"
+    | "property_address"
+    | "city"
+    | "state"
+    | "decision_maker_email"
+    | "hoa_or_management_company"
+  > | null;
+}
+
+// A name on the upload page that looks like a saved property or an earlier name
+export interface NameDuplicate {
+  name: string;
+  matchedName: string;
+  propertyId: string | null; // null when the match is another name in the list
+  score: number;
+}
+
+// Columns whose surviving value is picked by hand when properties are merged
+export type MergeableField = ImportablePropertyField;
+
+export interface PropertyMerge {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  survivor_id: string | null; // UUID - REFERENCES properties(id) ON DELETE SET NULL
+  merged_ids: string[]; // uuid[] - NOT NULL, properties deleted by the merge
+  merged_properties: Property[]; // jsonb - NOT NULL, snapshots of all rows before the merge
+  field_sources: Partial<Record<MergeableField, string>>; // jsonb - NOT NULL, property id each field was taken from
+  email_logs_moved: number; // integer - NOT NULL DEFAULT 0
+  merged_by: string | null; // UUID - REFERENCES auth.users(id)
+  merged_by_email: string | null; // text
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+// Columns a rep can set when creating or editing a property by hand
+export type EditablePropertyField = ImportablePropertyField | "suspend_until";
+
+export type PropertyInput = Partial<
+  Record<Exclude<EditablePropertyField, "suspend_until">, string | null>
+> & {
+  decision_maker_phone_ext?: string | null;
+  suspend_until?: string;
+};
+
+// What a contact does for the community
+export type ContactRole =
+  | "decision_maker"
+  | "board_president"
+  | "board_member"
+  | "community_manager"
+  | "management_company"
+  | "other";
+
+export interface PropertyContact {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  property_id: string; // UUID - NOT NULL REFERENCES properties(id) ON DELETE CASCADE
+  role: ContactRole; // text - NOT NULL DEFAULT 'decision_maker'
+  name: string | null;
+  email: string | null;
+  phone: string | null; // E.164, see lib/phone.ts
+  phone_ext: string | null;
+  is_primary: boolean; // boolean - NOT NULL DEFAULT false, at most one per property, mirrored into decision_maker_*
+  email_status: EmailStatus; // text - NOT NULL DEFAULT 'unknown', reset when the email changes
+  email_verified_at: string | null;
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+export type PropertyContactInput = Partial<
+  Pick<PropertyContact, "name" | "email" | "phone" | "phone_ext">
+> & {
+  role?: ContactRole;
+  is_primary?: boolean;
+};
+
+export interface ManagementCompany {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  name: string; // text - NOT NULL, first spelling seen
+  normalized_name: string; // text - NOT NULL UNIQUE, see normalizeCompanyName
+  contact_name: string | null; // company-level contact for portfolio pitches
+  contact_email: string | null;
+  contact_phone: string | null; // E.164
+  contact_phone_ext: string | null;
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+// A team member's patch: properties in one of its states, counties or ZIP
+// codes are assigned to its owner, the most specific match winning
+export interface Territory {
+  id: string; // UUID - NOT NULL DEFAULT gen_random_uuid()
+  name: string; // text - NOT NULL
+  owner_id: string | null; // UUID - REFERENCES auth.users(id) ON DELETE SET NULL
+  states: string[]; // text[] - NOT NULL DEFAULT '{}', full names
+  counties: string[]; // text[] - NOT NULL DEFAULT '{}', "Palm Beach, Florida"
+  zip_codes: string[]; // text[] - NOT NULL DEFAULT '{}', five digits
+  created_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+  updated_at: string; // timestamp with time zone - NOT NULL DEFAULT timezone('UTC'::text, now())
+}
+
+export type TerritoryInput = Pick<
+  Territory,
+  "name" | "owner_id" | "states" | "counties" | "zip_codes"
+>;
@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { createSuppression } from "@/lib/suppressions";
+import type { UnsubscribeMethod, UnsubscribeOutcome } from "@/lib/types";
+
+/**
+ * Opt-outs from campaign emails (replaces the Handle-Unsubscribing n8n
+ * webhook). Unsubscribing adds a permanent suppression of the property;
+ * every request is logged in `unsubscribe_events`.
+ */
+
+const OptOutCode = z.uuid();
+
+/**
+ * Unsubscribe the property an opt-out code belongs to
+ * - unsubscribed: it is suppressed from now on
+ * - already_unsubscribed: it was suppressed already, nothing changes
+ * - invalid: the code is malformed or matches no property
+ */
+export async function unsubscribe(
+  optOutCode: string,
+  {
+    method,
+    userAgent = null,
+    ipAddress = null,
+  }: {
+    method: UnsubscribeMethod;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+  }
+): Promise<UnsubscribeOutcome> {
+  const supabase = await createClient();
+  let outcome: UnsubscribeOutcome = "invalid";
+  let property: { id: string; suspend_until: string } | null = null;
+  let suppressionId: string | null = null;
+
+  if (OptOutCode.safeParse(optOutCode).success) {
+    const { data, error } = await supabase
+      .from("properties")
+      .select("id, suspend_until")
+      .eq("opt_out_code", optOutCode)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load property: ${error.message}`);
+    }
+    property = data;
+  }
+
+  if (property) {
+    const { data, error } = await supabase
+      .from("suppressions")
+      .select("id")
+      .eq("scope", "property")
+      .eq("property_id", property.id)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Failed to load suppressions: ${error.message}`);
+    }
+
+    if (data && data.length > 0) {
+      suppressionId = data[0].id;
+      outcome = "already_unsubscribed";
+    } else {
+      const suppression = await createSuppression({
+        scope: "property",
+        value: null,
+        property_id: property.id,
+        reason: "unsubscribed",
+        note:
+          method === "one_click" ? "One-click unsubscribe" : "Unsubscribe link",
+        expires_at: null,
+      });
+      suppressionId = suppression.id;
+      outcome = "unsubscribed";
+    }
+  }
+
+  // The opt-out itself has happened, a lost log entry must not undo it
+  const { error } = await supabase.from("unsubscribe_events").insert({
+    property_id: property?.id ?? null,
+    opt_out_code: optOutCode.slice(0, 100),
+    outcome,
+    method,
+    suspend_until: property?.suspend_until ?? null,
+    suppression_id: suppressionId,
+    user_agent: userAgent?.slice(0, 500) ?? null,
+    ip_address: ipAddress,
+  });
+
+  if (error) {
+    console.error("🚨 Failed to log unsubscribe event:", error.message);
+  }
+
+  console.log(`🔕 Unsubscribe (${method}): ${outcome}`);
+  return outcome;
+}
@@ -0,0 +1,45 @@
+-- Durable queue for /api/process-properties.
+-- Every submitted property name becomes a processing_job_items row so a
+-- worker can pick up where a previous (timed out / redeployed) run stopped.
+
+create table if not exists public.processing_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete set null,
+  user_email text not null,
+  parent_address text not null,
+  filename text,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed')),
+  total_items integer not null default 0,
+  processed_count integer not null default 0,
+  skipped_count integer not null default 0,
+  failed_count integer not null default 0,
+  last_error text,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  heartbeat_at timestamp with time zone,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  updated_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists processing_jobs_status_idx
+  on public.processing_jobs (status, heartbeat_at);
+
+create table if not exists public.processing_job_items (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references public.processing_jobs (id) on delete cascade,
+  position integer not null,
+  property_name text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'processing', 'processed', 'skipped', 'failed')),
+  attempts integer not null default 0,
+  last_error text,
+  locked_at timestamp with time zone,
+  processed_at timestamp with time zone,
+  property_id uuid references public.properties (id) on delete set null,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  updated_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists processing_job_items_job_status_idx
+  on public.processing_job_items (job_id, status, position);
@@ -0,0 +1,10 @@
+-- Retry transient enrichment failures with exponential backoff.
+-- Items wait in the queue until next_attempt_at; items that exhaust their
+-- attempts (or fail permanently) stay 'failed' and form the dead-letter list.
+
+alter table public.processing_job_items
+  add column if not exists next_attempt_at timestamp with time zone;
+
+create index if not exists processing_job_items_failed_idx
+  on public.processing_job_items (status, updated_at)
+  where status = 'failed';
@@ -0,0 +1,11 @@
+-- Re-enrich existing properties through the processing queue.
+-- 're_enrich' jobs point each item at an existing property (property_id)
+-- and only fill in the fields Gemini returns.
+
+alter table public.processing_jobs
+  add column if not exists mode text not null default 'import'
+    check (mode in ('import', 're_enrich'));
+
+-- Columns edited by hand; enrichment never overwrites them
+alter table public.properties
+  add column if not exists manual_fields text[] not null default '{}';
@@ -0,0 +1,9 @@
+-- Where enriched property data came from and how sure Gemini was about it.
+-- enrichment_sources: [{ "uri", "title", "fields": [column, ...] }] from
+-- Google Search grounding; field_confidence: { column: high|medium|low }.
+
+alter table public.properties
+  add column if not exists enrichment_sources jsonb not null default '[]'::jsonb,
+  add column if not exists field_confidence jsonb not null default '{}'::jsonb,
+  add column if not exists enrichment_model text,
+  add column if not exists enriched_at timestamp with time zone;
@@ -0,0 +1,22 @@
+-- Review queue for likely duplicate properties.
+-- When a new property's name is close to an existing one in the same region
+-- ("CHASEWOOD APTS" vs "THE CHASEWOOD") it is not inserted; the row it would
+-- have inserted is kept in candidate until someone confirms or rejects it.
+
+create table if not exists public.property_duplicate_reviews (
+  id uuid primary key default gen_random_uuid(),
+  property_name text not null,
+  candidate jsonb not null,
+  matched_property_id uuid not null references public.properties (id) on delete cascade,
+  similarity numeric(4, 3) not null,
+  job_item_id uuid references public.processing_job_items (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'inserted', 'dismissed')),
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists property_duplicate_reviews_pending_idx
+  on public.property_duplicate_reviews (created_at)
+  where status = 'pending';
@@ -0,0 +1,19 @@
+-- Audit trail for merged duplicate properties.
+-- The survivor keeps its id (and opt_out_code); the other rows are deleted
+-- after their email_logs are re-pointed, so a snapshot of every merged row
+-- and the property each surviving field was taken from is kept here.
+
+create table if not exists public.property_merges (
+  id uuid primary key default gen_random_uuid(),
+  survivor_id uuid references public.properties (id) on delete set null,
+  merged_ids uuid[] not null,
+  merged_properties jsonb not null,
+  field_sources jsonb not null default '{}'::jsonb,
+  email_logs_moved integer not null default 0,
+  merged_by uuid references auth.users (id) on delete set null,
+  merged_by_email text,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists property_merges_survivor_idx
+  on public.property_merges (survivor_id, created_at);
@@ -0,0 +1,12 @@
+-- Properties deleted from the dashboard are only marked with deleted_at so
+-- their email_logs and opt-out link keep working. Reads that list or
+-- target properties (dashboard, re-enrichment, duplicate matching) skip
+-- them; exact-name checks on upload still see them, so a deleted property
+-- is not re-added by the next upload of the same name.
+
+alter table public.properties
+  add column if not exists deleted_at timestamp with time zone;
+
+create index if not exists properties_live_created_at_idx
+  on public.properties (created_at)
+  where deleted_at is null;
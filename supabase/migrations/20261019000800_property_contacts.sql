@@ -0,0 +1,101 @@
+-- Several contacts per property (board president, community manager, ...).
+-- The primary contact is mirrored into properties.decision_maker_*: the app
+-- copies it there when contacts change, and the trigger below copies
+-- decision makers written by enrichment, imports or edits back into the
+-- primary contact.
+
+create table if not exists public.property_contacts (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  role text not null default 'decision_maker'
+    check (role in ('decision_maker', 'board_president', 'board_member',
+                    'community_manager', 'management_company', 'other')),
+  name text,
+  email text,
+  phone text,
+  is_primary boolean not null default false,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  updated_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists property_contacts_property_idx
+  on public.property_contacts (property_id);
+
+create unique index if not exists property_contacts_one_primary_idx
+  on public.property_contacts (property_id)
+  where is_primary;
+
+-- Existing decision makers become primary contacts
+insert into public.property_contacts (property_id, role, name, email, phone, is_primary)
+select p.id, 'decision_maker', p.decision_maker_name, p.decision_maker_email,
+       p.decision_maker_phone, true
+from public.properties p
+where coalesce(p.decision_maker_name, p.decision_maker_email, p.decision_maker_phone) is not null
+  and not exists (
+    select 1 from public.property_contacts c where c.property_id = p.id
+  );
+
+create or replace function public.sync_primary_contact()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(new.decision_maker_name, new.decision_maker_email, new.decision_maker_phone) is null then
+    return new;
+  end if;
+
+  update public.property_contacts
+     set name = new.decision_maker_name,
+         email = new.decision_maker_email,
+         phone = new.decision_maker_phone,
+         updated_at = timezone('UTC'::text, now())
+   where property_id = new.id
+     and is_primary;
+
+  if not found then
+    insert into public.property_contacts (property_id, role, name, email, phone, is_primary)
+    values (new.id, 'decision_maker', new.decision_maker_name,
+            new.decision_maker_email, new.decision_maker_phone, true);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists properties_sync_primary_contact on public.properties;
+create trigger properties_sync_primary_contact
+  after insert or update of decision_maker_name, decision_maker_email, decision_maker_phone
+  on public.properties
+  for each row execute function public.sync_primary_contact();
+
+-- Contact roles a campaign is sent to; the default keeps today's behaviour
+alter table public.campaign_progress
+  add column if not exists recipient_roles text[] not null default '{decision_maker}';
+
+-- Which contact an email went to
+alter table public.email_logs
+  add column if not exists contact_id uuid references public.property_contacts (id) on delete set null;
+
+-- One row per contact the next campaign email should go to
+create or replace view public.campaign_recipients
+with (security_invoker = true)
+as
+select p.id as property_id,
+       p.property_address,
+       p.opt_out_code,
+       p.suspend_until,
+       c.id as contact_id,
+       c.role,
+       c.name,
+       c.email,
+       c.is_primary
+from public.properties p
+join public.property_contacts c on c.property_id = p.id
+where p.deleted_at is null
+  and c.email is not null
+  and c.role = any (
+    coalesce(
+      (select cp.recipient_roles from public.campaign_progress cp order by cp.id desc limit 1),
+      '{decision_maker}'
+    )
+  );
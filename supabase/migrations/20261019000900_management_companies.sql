@@ -0,0 +1,23 @@
+-- Management companies that run several of our properties, so they can be
+-- pitched once at the portfolio level. Properties are linked by the
+-- normalized spelling of hoa_or_management_company (normalizeCompanyName)
+-- whenever enrichment, imports or edits write that column. Properties saved
+-- before this migration are linked by POST /api/management-companies/link.
+
+create table if not exists public.management_companies (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  normalized_name text not null unique,
+  contact_name text,
+  contact_email text,
+  contact_phone text,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  updated_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+alter table public.properties
+  add column if not exists management_company_id uuid
+    references public.management_companies (id) on delete set null;
+
+create index if not exists properties_management_company_idx
+  on public.properties (management_company_id);
@@ -0,0 +1,83 @@
+-- Verification of contact emails before they are sent to (lib/email-status.ts).
+-- Enrichment often invents plausible addresses such as info@<community>.com
+-- that bounce, so only addresses verified as valid are campaign recipients.
+-- Changing an email resets its status to unknown until it is verified again.
+-- Addresses saved before this migration are verified by
+-- POST /api/email-verification.
+
+alter table public.properties
+  add column if not exists email_status text not null default 'unknown'
+    check (email_status in ('valid', 'risky', 'invalid', 'unknown')),
+  add column if not exists email_verified_at timestamp with time zone;
+
+alter table public.property_contacts
+  add column if not exists email_status text not null default 'unknown'
+    check (email_status in ('valid', 'risky', 'invalid', 'unknown')),
+  add column if not exists email_verified_at timestamp with time zone;
+
+create index if not exists properties_email_status_idx
+  on public.properties (email_status)
+  where deleted_at is null;
+
+create or replace function public.reset_property_email_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.decision_maker_email is distinct from old.decision_maker_email then
+    new.email_status := 'unknown';
+    new.email_verified_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists properties_reset_email_status on public.properties;
+create trigger properties_reset_email_status
+  before insert or update of decision_maker_email
+  on public.properties
+  for each row execute function public.reset_property_email_status();
+
+create or replace function public.reset_contact_email_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.email is distinct from old.email then
+    new.email_status := 'unknown';
+    new.email_verified_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists property_contacts_reset_email_status on public.property_contacts;
+create trigger property_contacts_reset_email_status
+  before insert or update of email
+  on public.property_contacts
+  for each row execute function public.reset_contact_email_status();
+
+-- Same recipients as before, limited to verified addresses
+create or replace view public.campaign_recipients
+with (security_invoker = true)
+as
+select p.id as property_id,
+       p.property_address,
+       p.opt_out_code,
+       p.suspend_until,
+       c.id as contact_id,
+       c.role,
+       c.name,
+       c.email,
+       c.is_primary
+from public.properties p
+join public.property_contacts c on c.property_id = p.id
+where p.deleted_at is null
+  and c.email is not null
+  and c.email_status = 'valid'
+  and c.role = any (
+    coalesce(
+      (select cp.recipient_roles from public.campaign_progress cp order by cp.id desc limit 1),
+      '{decision_maker}'
+    )
+  );
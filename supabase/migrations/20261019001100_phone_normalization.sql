@@ -0,0 +1,49 @@
+-- Phones are stored in E.164 (+15615551234) with the extension in its own
+-- column (lib/phone.ts), whatever format enrichment, imports or reps wrote
+-- them in. Phones saved before this migration are normalized by
+-- POST /api/properties/normalize-phones.
+
+alter table public.properties
+  add column if not exists decision_maker_phone_ext text;
+
+alter table public.property_contacts
+  add column if not exists phone_ext text;
+
+alter table public.management_companies
+  add column if not exists contact_phone_ext text;
+
+-- Same as before, the extension now follows the phone into the contact
+create or replace function public.sync_primary_contact()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(new.decision_maker_name, new.decision_maker_email, new.decision_maker_phone) is null then
+    return new;
+  end if;
+
+  update public.property_contacts
+     set name = new.decision_maker_name,
+         email = new.decision_maker_email,
+         phone = new.decision_maker_phone,
+         phone_ext = new.decision_maker_phone_ext,
+         updated_at = timezone('UTC'::text, now())
+   where property_id = new.id
+     and is_primary;
+
+  if not found then
+    insert into public.property_contacts (property_id, role, name, email, phone, phone_ext, is_primary)
+    values (new.id, 'decision_maker', new.decision_maker_name,
+            new.decision_maker_email, new.decision_maker_phone,
+            new.decision_maker_phone_ext, true);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists properties_sync_primary_contact on public.properties;
+create trigger properties_sync_primary_contact
+  after insert or update of decision_maker_name, decision_maker_email, decision_maker_phone, decision_maker_phone_ext
+  on public.properties
+  for each row execute function public.sync_primary_contact();
@@ -0,0 +1,12 @@
+-- City, county, state and ZIP are checked against an offline ZIP reference
+-- (lib/geography.ts) when properties are enriched, imported or edited.
+-- Values that contradict the ZIP are kept and flagged here for a rep to
+-- check. Addresses saved before this migration are normalized by
+-- POST /api/properties/normalize-geography.
+
+alter table public.properties
+  add column if not exists geo_flags text[] not null default '{}';
+
+create index if not exists properties_geo_flags_idx
+  on public.properties
+  using gin (geo_flags);
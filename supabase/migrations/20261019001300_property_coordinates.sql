@@ -0,0 +1,8 @@
+-- Where each property is plotted on the dashboard map: the centroid of its
+-- ZIP code (or city without one) from the same offline reference the
+-- address is checked against (lib/geography.ts). Properties saved before
+-- this migration are placed by POST /api/properties/normalize-geography.
+
+alter table public.properties
+  add column if not exists latitude double precision,
+  add column if not exists longitude double precision;
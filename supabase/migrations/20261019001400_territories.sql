@@ -0,0 +1,101 @@
+-- Territories split the property list between team members. A territory is
+-- a set of states, counties ("Palm Beach, Florida") and ZIP codes owned by
+-- one user. Every property is assigned to the owner of the territory it
+-- falls in, the most specific match winning (ZIP, then county, then state,
+-- then the oldest territory), whenever it is inserted or its address changes
+-- and whenever territories change.
+
+create table if not exists public.territories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  owner_id uuid references auth.users (id) on delete set null,
+  states text[] not null default '{}',
+  counties text[] not null default '{}',
+  zip_codes text[] not null default '{}',
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  updated_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+alter table public.properties
+  add column if not exists owner_id uuid
+    references auth.users (id) on delete set null,
+  add column if not exists territory_id uuid
+    references public.territories (id) on delete set null;
+
+create index if not exists properties_owner_idx
+  on public.properties (owner_id);
+
+-- Territory an address falls in, null when none covers it
+create or replace function public.match_territory(
+  p_state text,
+  p_county text,
+  p_zip_code text
+)
+returns uuid
+language sql
+stable
+as $$
+  select t.id
+    from public.territories t
+   where p_zip_code = any (t.zip_codes)
+      or p_county || ', ' || p_state = any (t.counties)
+      or p_state = any (t.states)
+   order by case
+              when p_zip_code = any (t.zip_codes) then 0
+              when p_county || ', ' || p_state = any (t.counties) then 1
+              else 2
+            end,
+            t.created_at
+   limit 1;
+$$;
+
+create or replace function public.assign_property_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.territory_id := public.match_territory(new.state, new.county, new.zip_code);
+  new.owner_id := (
+    select owner_id from public.territories where id = new.territory_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists properties_assign_owner on public.properties;
+create trigger properties_assign_owner
+  before insert or update of state, county, zip_code
+  on public.properties
+  for each row execute function public.assign_property_owner();
+
+-- Reassign every property after territories are added, edited or removed
+create or replace function public.reassign_property_owners()
+returns trigger
+language plpgsql
+as $$
+begin
+  with matches as (
+    select p.id,
+           t.id as territory_id,
+           t.owner_id
+      from public.properties p
+      left join public.territories t
+        on t.id = public.match_territory(p.state, p.county, p.zip_code)
+  )
+  update public.properties p
+     set territory_id = m.territory_id,
+         owner_id = m.owner_id
+    from matches m
+   where p.id = m.id
+     and (p.territory_id is distinct from m.territory_id
+          or p.owner_id is distinct from m.owner_id);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists territories_reassign_owners on public.territories;
+create trigger territories_reassign_owners
+  after insert or update or delete
+  on public.territories
+  for each statement execute function public.reassign_property_owners();
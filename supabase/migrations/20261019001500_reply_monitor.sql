@@ -0,0 +1,19 @@
+-- Reply handling moves from the Monitor-Emails n8n workflow into the app
+-- (lib/reply-monitor.ts). Replies mentioning one of the keywords get the
+-- proposal PDF as an auto-reply; the keywords start as the workflow's list
+-- and are edited on the dashboard.
+
+alter table public.campaign_progress
+  add column if not exists reply_keywords text[] not null default array[
+    'retention', 'waitlist', 'oldvsnew', 'lease longer', 'luxury', 'legend',
+    'lifestyle', 'peace', 'stay', 'years', 'bond', 'club', 'luxe', 'openhouse',
+    'secret', 'team', 'hero', 'power', 'gold', 'clubhouse', 'karen', 'genz',
+    'silent', 'massage', 'liability', 'zero', 'coverage', 'proposal', 'lawsuit',
+    'halloween', 'december', 'poolside', 'grad', 'love', 'zillow', 'survey',
+    'stars', 'fast', 'robot', 'impressive', 'welcome', 'hoa', 'feud', 'er',
+    'disaster'
+  ];
+
+-- When the PDF auto-reply went out, so a thread only gets it once
+alter table public.email_logs
+  add column if not exists auto_replied_at timestamp with time zone;
@@ -0,0 +1,20 @@
+-- Opt-outs move from the Handle-Unsubscribing n8n webhook into the app
+-- (/unsubscribe/[optOutCode], lib/unsubscribe.ts). Every request to an
+-- unsubscribe link is logged, including links that match no property and
+-- contacts who had already unsubscribed.
+
+create table if not exists public.unsubscribe_events (
+  id uuid primary key default gen_random_uuid(),
+  property_id uuid references public.properties (id) on delete set null,
+  opt_out_code text not null,
+  outcome text not null
+    check (outcome in ('unsubscribed', 'already_unsubscribed', 'invalid')),
+  method text not null check (method in ('link', 'one_click')),
+  suspend_until date, -- the property's suspension after the request
+  user_agent text,
+  ip_address text,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now())
+);
+
+create index if not exists unsubscribe_events_property_idx
+  on public.unsubscribe_events (property_id, created_at desc);
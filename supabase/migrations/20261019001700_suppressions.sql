@@ -0,0 +1,96 @@
+-- Suppressions keep contacts out of every email the app sends. Unlike
+-- properties.suspend_until, which snoozes a property until a date, a
+-- suppression records why (unsubscribed, bounced, complained, manual,
+-- do_not_contact), what it covers (an email address, a whole domain or a
+-- property) and may never expire. Unsubscribing now adds a permanent
+-- property suppression instead of a 90 day suspension.
+
+create table if not exists public.suppressions (
+  id uuid primary key default gen_random_uuid(),
+  scope text not null check (scope in ('email', 'domain', 'property')),
+  value text, -- lowercased email address or domain
+  property_id uuid references public.properties (id) on delete cascade,
+  reason text not null
+    check (reason in ('unsubscribed', 'bounced', 'complained', 'manual', 'do_not_contact')),
+  note text,
+  expires_at timestamp with time zone, -- null: permanent
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamp with time zone not null default timezone('UTC'::text, now()),
+  constraint suppressions_target_check check (
+    case scope
+      when 'property' then property_id is not null and value is null
+      else property_id is null and value is not null and value = lower(value)
+    end
+  )
+);
+
+create index if not exists suppressions_value_idx
+  on public.suppressions (scope, value);
+
+create index if not exists suppressions_property_idx
+  on public.suppressions (property_id);
+
+-- The suppression an unsubscribe request created
+alter table public.unsubscribe_events
+  add column if not exists suppression_id uuid
+    references public.suppressions (id) on delete set null;
+
+-- Whether a property or an address (or its domain) must not be emailed
+create or replace function public.is_suppressed(
+  p_property_id uuid,
+  p_email text
+)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+      from public.suppressions s
+     where (s.expires_at is null or s.expires_at > now())
+       and (
+         (s.scope = 'property' and s.property_id = p_property_id)
+         or (s.scope = 'email' and s.value = lower(p_email))
+         or (s.scope = 'domain' and s.value = split_part(lower(p_email), '@', 2))
+       )
+  );
+$$;
+
+-- Same recipients as before, without suppressed properties and addresses
+create or replace view public.campaign_recipients
+with (security_invoker = true)
+as
+select p.id as property_id,
+       p.property_address,
+       p.opt_out_code,
+       p.suspend_until,
+       c.id as contact_id,
+       c.role,
+       c.name,
+       c.email,
+       c.is_primary
+from public.properties p
+join public.property_contacts c on c.property_id = p.id
+where p.deleted_at is null
+  and c.email is not null
+  and c.email_status = 'valid'
+  and c.role = any (
+    coalesce(
+      (select cp.recipient_roles from public.campaign_progress cp order by cp.id desc limit 1),
+      '{decision_maker}'
+    )
+  )
+  and not public.is_suppressed(p.id, c.email);
+
+-- Properties unsubscribed through the app so far were only suspended
+insert into public.suppressions (scope, property_id, reason, note, created_at)
+select distinct on (e.property_id)
+       'property', e.property_id, 'unsubscribed', 'Unsubscribe link', e.created_at
+  from public.unsubscribe_events e
+ where e.outcome = 'unsubscribed'
+   and e.property_id is not null
+   and not exists (
+     select 1 from public.suppressions s
+      where s.scope = 'property' and s.property_id = e.property_id
+   )
+ order by e.property_id, e.created_at;
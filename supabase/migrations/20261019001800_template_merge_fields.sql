@@ -0,0 +1,33 @@
+-- Campaign templates can use merge fields ({{city}}, {{management_company}},
+-- see lib/campaign/merge-fields.ts), so the recipients view also carries
+-- the property values they are filled in with. New columns go last, as
+-- "create or replace view" requires.
+
+create or replace view public.campaign_recipients
+with (security_invoker = true)
+as
+select p.id as property_id,
+       p.property_address,
+       p.opt_out_code,
+       p.suspend_until,
+       c.id as contact_id,
+       c.role,
+       c.name,
+       c.email,
+       c.is_primary,
+       p.city,
+       p.county,
+       p.state,
+       p.hoa_or_management_company
+from public.properties p
+join public.property_contacts c on c.property_id = p.id
+where p.deleted_at is null
+  and c.email is not null
+  and c.email_status = 'valid'
+  and c.role = any (
+    coalesce(
+      (select cp.recipient_roles from public.campaign_progress cp order by cp.id desc limit 1),
+      '{decision_maker}'
+    )
+  )
+  and not public.is_suppressed(p.id, c.email);
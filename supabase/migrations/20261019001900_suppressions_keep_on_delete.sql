@@ -0,0 +1,9 @@
+-- Deleting a property used to delete its suppressions with it, so merging
+-- duplicates dropped their opt-outs. Merges now move them to the surviving
+-- property (lib/property-merge.ts); any other delete of a suppressed
+-- property fails until the suppression is lifted or moved.
+
+alter table public.suppressions
+  drop constraint if exists suppressions_property_id_fkey,
+  add constraint suppressions_property_id_fkey
+    foreign key (property_id) references public.properties (id) on delete restrict;
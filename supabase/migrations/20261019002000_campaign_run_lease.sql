@@ -0,0 +1,8 @@
+-- Campaign runs (the scheduler and the administrator's "send now") could
+-- overlap and email the same contacts twice. A run now claims the campaign
+-- by setting running_since, renews it between batches and clears it when
+-- it ends; a claim older than ten minutes belongs to a run that died
+-- (lib/campaign-sender.ts).
+
+alter table public.campaign_progress
+  add column if not exists running_since timestamp with time zone;
@@ -0,0 +1,97 @@
+-- Merging properties (lib/property-merge.ts) took about ten separate
+-- writes, so a failure half way split the history between two rows or left
+-- a duplicate emptied without an audit row. merge_properties() does the
+-- whole merge in one transaction: it updates the survivor, moves every row
+-- that points at a duplicate, records the merge and deletes the duplicates.
+
+create or replace function public.merge_properties(
+  p_survivor_id uuid,
+  p_merged_ids uuid[],
+  p_survivor jsonb, -- surviving column values, see buildSurvivor()
+  p_merged_properties jsonb, -- snapshots taken before the merge
+  p_field_sources jsonb,
+  p_merged_by uuid,
+  p_merged_by_email text
+)
+returns public.property_merges
+language plpgsql
+as $$
+declare
+  v_logs_moved integer;
+  v_merge public.property_merges;
+begin
+  -- A concurrent merge or delete of the same properties waits for this one
+  perform 1
+     from public.properties
+    where id = p_survivor_id or id = any (p_merged_ids)
+      for update;
+
+  update public.properties p
+     set property_address = r.property_address,
+         hoa_or_management_company = r.hoa_or_management_company,
+         decision_maker_name = r.decision_maker_name,
+         decision_maker_email = r.decision_maker_email,
+         decision_maker_phone = r.decision_maker_phone,
+         decision_maker_phone_ext = r.decision_maker_phone_ext,
+         city = r.city,
+         county = r.county,
+         state = r.state,
+         zip_code = r.zip_code,
+         latitude = r.latitude,
+         longitude = r.longitude,
+         geo_flags = r.geo_flags,
+         field_confidence = r.field_confidence,
+         manual_fields = r.manual_fields,
+         enrichment_sources = r.enrichment_sources,
+         suspend_until = r.suspend_until,
+         updated_at = r.updated_at
+    from jsonb_populate_record(
+           (select s from public.properties s where s.id = p_survivor_id),
+           p_survivor
+         ) r
+   where p.id = p_survivor_id;
+
+  if not found then
+    raise exception 'Property % does not exist', p_survivor_id;
+  end if;
+
+  update public.email_logs
+     set property_id = p_survivor_id
+   where property_id = any (p_merged_ids);
+  get diagnostics v_logs_moved = row_count;
+
+  -- Suppressions must move, their foreign key refuses the delete below
+  update public.suppressions
+     set property_id = p_survivor_id
+   where property_id = any (p_merged_ids);
+  update public.unsubscribe_events
+     set property_id = p_survivor_id
+   where property_id = any (p_merged_ids);
+  update public.processing_job_items
+     set property_id = p_survivor_id
+   where property_id = any (p_merged_ids);
+  update public.property_duplicate_reviews
+     set matched_property_id = p_survivor_id
+   where matched_property_id = any (p_merged_ids);
+
+  -- Contacts join the survivor's, which keeps its own primary contact
+  update public.property_contacts
+     set property_id = p_survivor_id,
+         is_primary = false
+   where property_id = any (p_merged_ids);
+
+  insert into public.property_merges (
+    survivor_id, merged_ids, merged_properties, field_sources,
+    email_logs_moved, merged_by, merged_by_email
+  )
+  values (
+    p_survivor_id, p_merged_ids, p_merged_properties, p_field_sources,
+    v_logs_moved, p_merged_by, p_merged_by_email
+  )
+  returning * into v_merge;
+
+  delete from public.properties where id = any (p_merged_ids);
+
+  return v_merge;
+end;
+$$;